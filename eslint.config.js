@@ -0,0 +1,16 @@
+import js from '@eslint/js'
+import tseslint from 'typescript-eslint'
+
+export default tseslint.config(
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    rules: {
+      // リクエストのJSONは検証前にanyで受け取る
+      '@typescript-eslint/no-explicit-any': 'off',
+      // HTMLのテンプレートには和文の全角スペースがある
+      'no-irregular-whitespace': ['error', { skipTemplates: true }],
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }]
+    }
+  }
+)
@@ -6,24 +6,52 @@
  */
 
 import { Hono } from 'hono'
+import type { Context } from 'hono'
 import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
 import { prettyJSON } from 'hono/pretty-json'
-
-// アプリケーション初期化
-const app = new Hono()
+import { streamSSE } from 'hono/streaming'
+import { getCookie, setCookie } from 'hono/cookie'
 
 // 環境変数の型定義
 type Env = {
   KV?: KVNamespace
   R2?: R2Bucket
+  // サーバー側で設定するプロバイダーのAPIキー（Workerシークレット）
+  OPENAI_API_KEY?: string
+  GEMINI_API_KEY?: string
+  ANTHROPIC_API_KEY?: string
+  // KVにAPIキーを暗号化して保存するための秘密の文字列（Workerシークレット）
+  PROVIDER_KEYS_SECRET?: string
+  // 管理用API（/api/admin）の認証トークン（Workerシークレット）
+  ADMIN_TOKEN?: string
+  // 生成APIの利用制限（JSON。例: {"client": {"requestsPerMinute": 6}}、未指定の項目は既定値）
+  RATE_LIMITS?: string | QuotaConfig
+  // モデルの料金（JSON。例: {"gpt-4.1": {"input": 2, "output": 8}}、100万トークンあたりの米ドル。未指定のモデルは組み込みの料金）
+  MODEL_PRICES?: string | Record<string, ModelPrice>
+  // 別オリジンからの呼び出しを許可するオリジン（カンマ区切り、*ですべて許可）
+  ALLOWED_ORIGINS?: string
+  // カスタムエンドポイントに指定できるホスト（カンマ区切り、*ですべて許可。未指定ならカスタムエンドポイントは使えない）
+  CUSTOM_ENDPOINT_ALLOWED_HOSTS?: string
 }
 
+// アプリケーション初期化
+const app = new Hono<{ Bindings: Env }>()
+
 // ミドルウェア設定
 app.use('*', logger())
-app.use('*', cors())
+app.use('*', cors({
+  // 画面は同じオリジンから配信するため、別オリジンはALLOWED_ORIGINSに列挙したものだけ許可
+  origin: (origin, c) => isAllowedOrigin(origin, c.env) ? origin : null
+}))
 app.use('*', prettyJSON())
 
+// 想定外の例外もエラーコード付きのJSONで返す
+app.onError((error, c) => errorResponse(c, error))
+app.notFound((c) => c.req.path.startsWith('/api/')
+  ? apiError(c, 'NOT_FOUND', 'APIが見つかりません')
+  : c.text('404 Not Found', 404))
+
 // ルート定義
 
 // ヘルスチェック
@@ -45,269 +73,6236 @@ app.get('/static/main.js', (c) => {
   })
 })
 
+// API: 利用可能なAIプロバイダー・モデル一覧（serverKey: サーバー側にAPIキーが設定済みか）
+app.get('/api/providers', async (c) => {
+  const providers = await Promise.all(listProviders().map(async provider => ({
+    ...provider,
+    // MODEL_PRICESで上書きした料金を反映
+    models: provider.models.map(model => ({ ...model, price: resolveModelPrice(c.env, getProvider(provider.id), model.id) })),
+    serverKey: await serverKeySource(c.env, getProvider(provider.id)) !== null
+  })))
+  return c.json({
+    providers,
+    defaults: { temperature: DEFAULT_TEMPERATURE, maxTokens: DEFAULT_MAX_TOKENS }
+  })
+})
+
+// API: 生成APIの残りの利用枠（接続元と、projectIdを指定すればプロジェクトの分）
+app.get('/api/quota', async (c) => {
+  try {
+    const quota = await loadQuota(c, c.req.query('projectId'))
+    return c.json({ success: true, enabled: Boolean(c.env.KV), quota: buildQuotaReport(quota) })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// 管理API: 生成の使用量と料金の概算（日・プロバイダー・プロジェクトごと。from/toはYYYY-MM-DD、projectIdで絞り込み）
+app.get('/api/usage', async (c) => {
+  if (!await isAdminRequest(c)) {
+    return apiError(c, 'AUTH_FAILED', '管理用トークンが正しくありません')
+  }
+
+  try {
+    const days = parseUsageRange(c.req.query('from'), c.req.query('to'))
+    const projectId = c.req.query('projectId')
+    if (projectId !== undefined && !QUOTA_PROJECT_ID_PATTERN.test(projectId)) {
+      throw new ApiError('INVALID_INPUT', 'プロジェクトIDが不正です')
+    }
+    const kv = c.env.KV
+    if (!kv) return kvUnavailable(c)
+
+    return c.json({ success: true, ...await buildUsageReport(kv, days, projectId) })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// API: 組み込みのデザインテーマ一覧
+app.get('/api/themes', (c) => {
+  return c.json({ themes: THEME_PRESETS, defaultTheme: DEFAULT_THEME_ID })
+})
+
+// 管理API: サーバー側のAPIキーの設定状況（キーそのものは返さない）
+app.get('/api/admin/provider-keys', async (c) => {
+  if (!await isAdminRequest(c)) {
+    return apiError(c, 'AUTH_FAILED', '管理用トークンが正しくありません')
+  }
+
+  const providers = await Promise.all([...providerRegistry.values()]
+    .filter(provider => provider.serverKeyName)
+    .map(async provider => ({ id: provider.id, label: provider.label, source: await serverKeySource(c.env, provider) })))
+  return c.json({ success: true, providers })
+})
+
+// 管理API: APIキーを暗号化してKVに保存（Workerシークレットが設定されている場合はそちらが優先）
+app.put('/api/admin/provider-keys/:provider', async (c) => {
+  if (!await isAdminRequest(c)) {
+    return apiError(c, 'AUTH_FAILED', '管理用トークンが正しくありません')
+  }
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+  if (!c.env.PROVIDER_KEYS_SECRET) {
+    return apiError(c, 'STORAGE_UNAVAILABLE', 'PROVIDER_KEYS_SECRETが設定されていないため、APIキーを保存できません')
+  }
+
+  const provider = providerRegistry.get(c.req.param('provider'))
+  if (!provider?.serverKeyName) {
+    return apiError(c, 'INVALID_INPUT', 'サーバー側のAPIキーに対応していないプロバイダーです')
+  }
+  const { apiKey } = await readJsonBody(c)
+  if (typeof apiKey !== 'string' || !apiKey.trim() || apiKey.length > MAX_API_KEY_LENGTH) {
+    return apiError(c, 'INVALID_INPUT', 'APIキーの形式が不正です')
+  }
+
+  await kv.put(PROVIDER_KEY_PREFIX + provider.id, JSON.stringify(await encryptSecret(apiKey.trim(), c.env.PROVIDER_KEYS_SECRET)))
+  return c.json({ success: true })
+})
+
+// 管理API: KVに保存したAPIキーを削除
+app.delete('/api/admin/provider-keys/:provider', async (c) => {
+  if (!await isAdminRequest(c)) {
+    return apiError(c, 'AUTH_FAILED', '管理用トークンが正しくありません')
+  }
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const provider = providerRegistry.get(c.req.param('provider'))
+  if (!provider?.serverKeyName) {
+    return apiError(c, 'INVALID_INPUT', 'サーバー側のAPIキーに対応していないプロバイダーです')
+  }
+
+  await kv.delete(PROVIDER_KEY_PREFIX + provider.id)
+  return c.json({ success: true })
+})
+
 // API: Webサイト生成エンドポイント
 app.post('/api/generate', async (c) => {
   try {
-    const { prompt, aiProvider, apiKey, images, existingCode } = await c.req.json()
+    const input = await parseGenerateRequest(await readJsonBody(c))
+
+    // 利用者のキーがなければサーバー側のキーを使う
+    const apiKey = await resolveApiKey(c.env, input.provider, input.apiKey)
+
+    // 選択中のプロバイダーが使えなければフォールバック先に切り替えて生成する（接続先の確認は利用枠を使う前に行う）
+    const candidates = await resolveProviderCandidates(c.env, input, apiKey)
 
-    // AIプロバイダーに応じて適切なサービスを選択
-    const code = await generateWebsite(prompt, aiProvider, apiKey, images, existingCode)
+    // 接続元・プロジェクトごとの利用制限
+    const quota = await loadQuota(c, input.projectId)
+    const exceeded = await consumeQuota(c.env, quota)
+    if (exceeded) return quotaExceededResponse(c, exceeded, quota)
+
+    const failedProviders: { provider: string; error: string }[] = []
+    const usageLog: UsageEntry[] = []
+    let result: GenerationResult
+    let usage: UsageReport
+    try {
+      result = await withProviderFallback(
+        candidates,
+        (candidate) => generateWebsite(
+          input.prompt, candidate.provider.id, candidate.apiKey, input.attachments, input.existingCode, candidate.settings, input.editMode,
+          input.history, usageLog
+        ),
+        async (failed, _next, error) => failedProviders.push({ provider: failed.id, error: error.message })
+      )
+    } finally {
+      // 失敗した試行やフォールバック前の試行で使ったトークンも記録する
+      usage = await recordUsageLog(c.env, quota, usageLog, input.projectId)
+    }
 
     return c.json({
       success: true,
-      code: code
+      code: result.code,
+      files: result.files,
+      operations: result.operations,
+      mode: result.mode,
+      fallbackReason: result.fallbackReason,
+      provider: result.provider,
+      model: result.model,
+      usage,
+      accessibility: auditAccessibility(result.files),
+      failedProviders,
+      quota: buildQuotaReport(quota)
     })
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : '不明なエラー'
-    }, 500)
+    return errorResponse(c, error)
   }
 })
 
+// APIのエラーコードとHTTPステータス
+const ERROR_STATUS = {
+  // リクエストの内容が不正
+  INVALID_INPUT: 400,
+  // APIキー・管理用トークンが未設定または正しくない
+  AUTH_FAILED: 401,
+  // 操作が許可されていない
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  // 他のデータと衝突する（使用中のURLなど）
+  CONFLICT: 409,
+  // 利用制限、またはAIプロバイダーのレート制限に達した
+  RATE_LIMITED: 429,
+  // 予期しないエラー
+  INTERNAL_ERROR: 500,
+  // AIプロバイダーがエラーを返した・接続できない
+  PROVIDER_UNAVAILABLE: 502,
+  // AIの出力が途切れ、続きを生成しても完成しなかった
+  OUTPUT_TRUNCATED: 502,
+  // AIの出力からWebサイトを組み立てられなかった
+  INVALID_OUTPUT: 502,
+  // KVなどの保存先が設定されていない
+  STORAGE_UNAVAILABLE: 503
+} as const
+
+type ErrorCode = keyof typeof ERROR_STATUS
+
 /**
- * Webサイト生成処理（AI API連携）
+ * エラーコード付きの例外（APIのエラーレスポンスになる）
+ *
+ * detailsはレスポンスにそのまま含める追加情報（retryAfterがあればRetry-Afterヘッダーも付ける）
  */
-async function generateWebsite(
-  prompt: string,
-  aiProvider: string,
-  apiKey: string,
-  images?: Array<{ name: string; type: string; data: string }>,
-  existingCode?: string
-): Promise<string> {
-  // プロンプトを生成（既存コードがある場合は修正モード）
-  let fullPrompt: string
+class ApiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
 
-  if (existingCode) {
-    // 修正モード：既存のコードを基に改善
-    fullPrompt = `あなたは既存のWebサイトを改善するWeb開発者です。
-以下の既存のHTMLコードを基に、ユーザーの要望に従って修正・改善してください。
+/**
+ * エラーレスポンス（{ success: false, error, code }）
+ */
+function apiError(c: Context, code: ErrorCode, message: string, details: Record<string, unknown> = {}) {
+  const headers: Record<string, string> = typeof details.retryAfter === 'number'
+    ? { 'Retry-After': String(details.retryAfter) }
+    : {}
+  return c.json({ success: false, error: message, code, ...details }, ERROR_STATUS[code], headers)
+}
 
-【既存のコード】
-${existingCode}
+/**
+ * 例外をエラーレスポンスに変換（想定外の例外は内容を返さずログに残す）
+ */
+function errorResponse(c: Context, error: unknown) {
+  const apiErr = toApiError(error)
+  return apiError(c, apiErr.code, apiErr.message, apiErr.details)
+}
 
-【ユーザーの修正要望】
-${prompt}
+/**
+ * 例外をApiErrorにそろえる
+ */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error
+  console.error(error)
+  return new ApiError('INTERNAL_ERROR', '予期しないエラーが発生しました')
+}
 
-【重要なルール】
-- 既存のコードを基盤として、要望された部分のみを変更してください
-- 要望されていない部分はそのまま維持してください
-- 完全なHTMLファイルを出力してください
-- Tailwind CSSを引き続き使用してください
+/**
+ * リクエスト本文をJSONオブジェクトとして読み込む
+ */
+async function readJsonBody(c: Context): Promise<Record<string, any>> {
+  const body = await c.req.json().catch(() => undefined)
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError('INVALID_INPUT', 'リクエストの本文はJSONオブジェクトで送信してください')
+  }
+  return body
+}
 
-【出力形式】
-HTMLのコードのみを出力してください。説明文やコードブロック（\`\`\`）は不要です。`
-  } else {
-    // 新規作成モード
-    fullPrompt = `ユーザーが作りたいWebサイトについて説明しています。
-以下の要件を満たす、完全で実用的なHTMLファイル（1つのファイルにCSSとJavaScriptを含む）を作成してください。
+// 生成リクエストの制限
+const MAX_PROMPT_LENGTH = 10000
+const MAX_MODEL_NAME_LENGTH = 200
 
-【要件】
-- HTML5、CSS、JavaScriptを1つのファイルにまとめる
-- Tailwind CSSをCDNから読み込む（<script src="https://cdn.tailwindcss.com"></script>）
-- レスポンシブデザインに対応する
-- モダンなデザインにする（丸みを帯びた形状、柔らかい色使い）
-- 色はパステルカラー（水色系）を基調にする
+// 検証済みのプロバイダーの指定（生成のほか、メタデータの提案や翻訳でも使う）
+type ProviderSelection = {
+  provider: AIProvider
+  apiKey?: string
+  settings: GenerationSettings
+  // 選択中のプロバイダーが一時的に使えない場合に、順に切り替えるプロバイダー
+  fallbackProviders: AIProvider[]
+  projectId?: unknown
+}
 
-【ユーザーの要望】
-${prompt}
+// 検証済みの生成リクエスト
+type GenerateRequest = ProviderSelection & {
+  prompt: string
+  attachments: Attachments
+  existingCode?: string
+  editMode: EditMode
+  history: ConversationMessage[]
+}
 
-${images && images.length > 0 ? `
-【参考画像】
-ユーザーが${images.length}枚の画像をアップロードしました。これらの画像の雰囲気をデザインに反映させてください。
-画像自体はHTMLに埋め込まず、デザインの参考として使用してください。
-` : ''}
+/**
+ * 生成リクエストの入力を検証し、参考画像・PDF・選択された要素・デザインテーマを取り出す（PDFはテキストを抽出）
+ */
+async function parseGenerateRequest(body: Record<string, any>): Promise<GenerateRequest> {
+  const { prompt, images, documents, selectedElement, existingCode, editMode, history, theme } = body
 
-【出力形式】
-HTMLのコードのみを出力してください。説明文やコードブロック（\`\`\`）は不要です。`
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    throw new ApiError('INVALID_INPUT', 'プロンプトを入力してください')
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new ApiError('INVALID_INPUT', `プロンプトは${MAX_PROMPT_LENGTH}文字以内で入力してください`)
+  }
+  const selection = parseProviderSelection(body)
+  if (existingCode != null && typeof existingCode !== 'string') {
+    throw new ApiError('INVALID_INPUT', '既存のコードの形式が不正です')
+  }
+  if (existingCode && new TextEncoder().encode(existingCode).length > MAX_PROJECT_CODE_BYTES) {
+    throw new ApiError('INVALID_INPUT', '既存のコードが大きすぎます')
+  }
+  if (editMode != null && editMode !== 'patch' && editMode !== 'full') {
+    throw new ApiError('INVALID_INPUT', "editModeには'patch'または'full'を指定してください")
   }
 
-  // AIプロバイダーに応じてAPIリクエストを作成
-  let htmlCode = ''
-
-  switch (aiProvider) {
-    case 'openai':
-      htmlCode = await callOpenAI(apiKey, fullPrompt)
-      break
-    case 'gemini':
-      htmlCode = await callGemini(apiKey, fullPrompt)
-      break
-    case 'claude':
-      htmlCode = await callClaude(apiKey, fullPrompt)
-      break
-    default:
-      throw new Error('未対応のAIプロバイダーです')
+  const attachments: Attachments = {
+    images: validateImages(images),
+    documents: await parseDocuments(documents),
+    element: validateSelectedElement(selectedElement),
+    theme: validateDesignTheme(theme)
   }
+  // モデルや接続先もここで確認し、利用枠を消費する前に不正な設定を弾く
+  resolveGenerationOptions(selection.provider, selection.settings, attachments)
 
-  return htmlCode
+  return {
+    ...selection,
+    prompt,
+    attachments,
+    existingCode: existingCode || undefined,
+    editMode: editMode ?? 'patch',
+    history: validateConversationHistory(history)
+  }
 }
 
 /**
- * OpenAI API呼び出し（GPT-4.1）
+ * AIを使うリクエストのプロバイダー・APIキー・生成設定・フォールバック先を検証
  */
-async function callOpenAI(apiKey: string, prompt: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
+function parseProviderSelection(body: Record<string, any>): ProviderSelection {
+  const { aiProvider, apiKey, model, temperature, maxTokens, baseUrl, fallbackProviders, projectId } = body
+
+  if (typeof aiProvider !== 'string' || !providerRegistry.has(aiProvider)) {
+    throw new ApiError('INVALID_INPUT', `aiProviderには次のいずれかを指定してください: ${[...providerRegistry.keys()].join(', ')}`)
+  }
+  if (apiKey != null && (typeof apiKey !== 'string' || apiKey.length > MAX_API_KEY_LENGTH)) {
+    throw new ApiError('INVALID_INPUT', 'APIキーの形式が不正です')
+  }
+  if (model != null && (typeof model !== 'string' || model.length > MAX_MODEL_NAME_LENGTH)) {
+    throw new ApiError('INVALID_INPUT', 'モデル名の形式が不正です')
+  }
+  if (temperature != null && (typeof temperature !== 'number' || !Number.isFinite(temperature))) {
+    throw new ApiError('INVALID_INPUT', 'temperatureには数値を指定してください')
+  }
+  if (maxTokens != null && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+    throw new ApiError('INVALID_INPUT', 'maxTokensには正の整数を指定してください')
+  }
+  if (baseUrl != null && typeof baseUrl !== 'string') {
+    throw new ApiError('INVALID_INPUT', 'ベースURLの形式が不正です')
+  }
+
+  return {
+    provider: getProvider(aiProvider),
+    apiKey: apiKey ?? undefined,
+    settings: {
+      model: model ?? undefined,
+      temperature: temperature ?? undefined,
+      maxTokens: maxTokens ?? undefined,
+      baseUrl: baseUrl ?? undefined
     },
-    body: JSON.stringify({
-      model: 'gpt-4.1',
-      messages: [
-        {
-          role: 'system',
-          content: 'あなたは優秀なWeb開発者です。ユーザーの要望に合わせて、美しいWebサイトを作成してください。'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 8000
-    })
-  })
+    fallbackProviders: parseFallbackProviders(fallbackProviders).map(getProvider),
+    projectId
+  }
+}
 
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`OpenAI API Error: ${error}`)
+/**
+ * フォールバック先のプロバイダー（優先順のID）を検証
+ *
+ * フォールバック先ではサーバー側のAPIキーを使うため、サーバー側のキーに対応したプロバイダーのみ指定できる
+ */
+function parseFallbackProviders(value: unknown): string[] {
+  if (value == null) return []
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) {
+    throw new ApiError('INVALID_INPUT', 'フォールバック先の形式が不正です')
   }
 
-  const data = await response.json() as any
-  const code = data.choices[0]?.message?.content || ''
+  const ids = [...new Set(value as string[])]
+  for (const id of ids) {
+    if (!providerRegistry.get(id)?.serverKeyName) {
+      throw new ApiError('INVALID_INPUT', `フォールバック先に指定できないプロバイダーです: ${id}`)
+    }
+  }
+  return ids
+}
 
-  return extractCode(code)
+// 添付ファイル（画像・PDF）の名前の最大文字数
+const MAX_ATTACHMENT_NAME_LENGTH = 200
+
+// 参考画像の制限
+const MAX_IMAGES = 4
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024
+const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+
+// 参考画像（data URLから分解したもの）
+type ReferenceImage = {
+  name: string
+  mediaType: string
+  base64: string
 }
 
 /**
- * Google Gemini API呼び出し（Gemini 2.5 Flash）
+ * base64の文字列か（4文字単位で、末尾だけ=で埋める）
+ * 数MBの文字列でも正規表現がバックトラックしないよう、文字の並びと長さを分けて確かめる
  */
-async function callGemini(apiKey: string, prompt: string): Promise<string> {
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{ text: prompt }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 8000
-      }
-    })
-  })
+function isBase64(base64: string): boolean {
+  return base64.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(base64)
+}
 
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Gemini API Error: ${error}`)
+/**
+ * base64をデコードした後のバイト数（文字列の長さから計算する）
+ */
+function base64DecodedSize(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0
+  return Math.floor(base64.length * 3 / 4) - padding
+}
+
+/**
+ * 添付ファイルの名前を検証（プロンプトにそのまま入るため、改行などの空白はまとめて長さも制限する）
+ */
+function validateAttachmentName(name: unknown, kind: string): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new ApiError('INVALID_INPUT', `${kind}のファイル名を指定してください`)
   }
+  if (name.length > MAX_ATTACHMENT_NAME_LENGTH) {
+    throw new ApiError('INVALID_INPUT', `${kind}のファイル名は${MAX_ATTACHMENT_NAME_LENGTH}文字以内にしてください`)
+  }
+  return name.replace(/\s+/g, ' ').trim()
+}
 
-  const data = await response.json() as any
-  const code = data.candidates[0]?.content?.parts[0]?.text || ''
+/**
+ * アップロードされた画像を検証し、各プロバイダーに渡せる形式に変換
+ */
+function validateImages(images: unknown): ReferenceImage[] {
+  if (images === undefined || images === null) return []
+  if (!Array.isArray(images)) {
+    throw new ApiError('INVALID_INPUT', '参考画像の形式が不正です')
+  }
+
+  if (images.length > MAX_IMAGES) {
+    throw new ApiError('INVALID_INPUT', `参考画像は最大${MAX_IMAGES}枚までです`)
+  }
+
+  return images.map((image: { name?: unknown; type?: unknown; data?: unknown }) => {
+    const name = validateAttachmentName(image?.name, '画像')
+    const match = typeof image?.data === 'string'
+      ? image.data.match(/^data:([^;]+);base64,(.+)$/)
+      : null
+    if (!match) {
+      throw new ApiError('INVALID_INPUT', `画像データの形式が不正です: ${name}`)
+    }
+
+    const [, mediaType, base64] = match
+    if (!ALLOWED_IMAGE_TYPES.includes(mediaType)) {
+      throw new ApiError('INVALID_INPUT', `未対応の画像形式です: ${name}（${mediaType}）`)
+    }
+
+    if (base64DecodedSize(base64) > MAX_IMAGE_BYTES) {
+      throw new ApiError('INVALID_INPUT', `画像サイズが大きすぎます: ${name}（最大${MAX_IMAGE_BYTES / 1024 / 1024}MB）`)
+    }
+    if (!isBase64(base64)) {
+      throw new ApiError('INVALID_INPUT', `画像データの形式が不正です: ${name}`)
+    }
+
+    return { name, mediaType, base64 }
+  })
+}
+
+// 参考PDFの制限
+const MAX_DOCUMENTS = 2
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024
+const MAX_DOCUMENT_TEXT_LENGTH = 20000
+
+// 参考PDF（元データと抽出したテキスト）
+type ReferenceDocument = {
+  name: string
+  base64: string
+  text: string
+}
+
+// プレビューで選択された要素の制限
+const MAX_ELEMENT_SELECTOR_LENGTH = 500
+const MAX_ELEMENT_HTML_LENGTH = 20000
+
+// プレビューで選択された要素（修正範囲をこの要素に限定する）
+type SelectedElement = {
+  path: string
+  selector: string
+  html: string
+}
 
-  return extractCode(code)
+// AIに渡す添付ファイル一式
+type Attachments = {
+  images: ReferenceImage[]
+  documents: ReferenceDocument[]
+  element?: SelectedElement
+  // 適用するデザインテーマ（新規作成で未指定なら既定のプリセット）
+  theme?: DesignTheme
 }
 
 /**
- * Anthropic Claude API呼び出し（Claude Opus 4.5）
+ * アップロードされたPDFを検証し、テキストを抽出
  */
-async function callClaude(apiKey: string, prompt: string): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': apiKey,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-opus-4-5',
-      max_tokens: 8000,
-      system: 'あなたは優秀なWeb開発者です。ユーザーの要望に合わせて、美しいWebサイトを作成してください。',
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ]
-    })
-  })
+async function parseDocuments(documents: unknown): Promise<ReferenceDocument[]> {
+  if (documents === undefined || documents === null) return []
+  if (!Array.isArray(documents)) {
+    throw new ApiError('INVALID_INPUT', '参考PDFの形式が不正です')
+  }
 
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Claude API Error: ${error}`)
+  if (documents.length > MAX_DOCUMENTS) {
+    throw new ApiError('INVALID_INPUT', `参考PDFは最大${MAX_DOCUMENTS}件までです`)
   }
 
-  const data = await response.json() as any
-  const code = data.content[0]?.text || ''
+  return Promise.all(documents.map(async (doc: { name?: unknown; type?: unknown; data?: unknown }) => {
+    const name = validateAttachmentName(doc?.name, 'PDF')
+    const match = typeof doc?.data === 'string'
+      ? doc.data.match(/^data:application\/pdf;base64,(.+)$/)
+      : null
+    if (!match) {
+      throw new ApiError('INVALID_INPUT', `PDFデータの形式が不正です: ${name}`)
+    }
+
+    // デコードする前にサイズと文字種を確かめる
+    const base64 = match[1]
+    if (base64DecodedSize(base64) > MAX_DOCUMENT_BYTES) {
+      throw new ApiError('INVALID_INPUT', `PDFサイズが大きすぎます: ${name}（最大${MAX_DOCUMENT_BYTES / 1024 / 1024}MB）`)
+    }
+    if (!isBase64(base64)) {
+      throw new ApiError('INVALID_INPUT', `PDFデータの形式が不正です: ${name}`)
+    }
+    let bytes: Uint8Array
+    try {
+      bytes = base64ToBytes(base64)
+    } catch {
+      throw new ApiError('INVALID_INPUT', `PDFデータの形式が不正です: ${name}`)
+    }
 
-  return extractCode(code)
+    const text = await extractPdfText(bytes)
+    return {
+      name,
+      base64,
+      text: text.length > MAX_DOCUMENT_TEXT_LENGTH
+        ? text.slice(0, MAX_DOCUMENT_TEXT_LENGTH) + '\n…（以下省略）'
+        : text
+    }
+  }))
 }
 
 /**
- * コードブロックのみを抽出
+ * PDFからテキストを抽出（簡易パーサー）
+ *
+ * FlateDecodeのストリームを展開し、テキスト描画オペレーター（Tj/TJ/'/"）の文字列を拾う。
+ * ToUnicode CMapがあれば文字コードをUnicodeに変換する。
  */
-function extractCode(text: string): string {
-  const codeBlockMatch = text.match(/```(?:html)?\n([\s\S]+?)\n```/)
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim()
+async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  // バイナリをlatin1文字列として扱う（1バイト = 1文字）
+  let raw = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    raw += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
   }
 
-  const htmlMatch = text.match(/<!DOCTYPE html[\s\S]+?<\/html>/i)
-  if (htmlMatch) {
-    return htmlMatch[0]
+  const contentStreams: string[] = []
+  const cmap = new Map<string, string>()
+
+  // 「N G obj」からstreamキーワードまでを1つのオブジェクトの辞書として読む
+  // （endobjを越えないので、ストリームを持たない前のオブジェクトの辞書を取り込まない）
+  const streamPattern = /\bobj\b((?:(?!\bendobj\b)[\s\S])*?)\bstream\r?\n/g
+  let match: RegExpExecArray | null
+  while ((match = streamPattern.exec(raw)) !== null) {
+    const start = match.index + match[0].length
+    const end = raw.indexOf('endstream', start)
+    if (end === -1) break
+
+    const dict = match[1]
+    const data = raw.slice(start, end).replace(/\r?\n$/, '')
+    streamPattern.lastIndex = end
+
+    // 画像やフォント本体などテキストと無関係なストリームは読まない
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length[123]\b/.test(dict)) continue
+
+    let decoded = data
+    if (/\/FlateDecode/.test(dict)) {
+      const inflated = await inflate(data)
+      if (inflated === null) continue
+      decoded = inflated
+    } else if (/\/Filter/.test(dict)) {
+      continue
+    }
+
+    if (decoded.includes('begincmap')) {
+      parseToUnicodeCMap(decoded, cmap)
+    } else if (/\bBT\b/.test(decoded)) {
+      contentStreams.push(decoded)
+    }
   }
 
-  return text.trim()
+  return contentStreams
+    .map(stream => extractTextFromContentStream(stream, cmap))
+    .join('\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim()
 }
 
 /**
- * メインページのHTML（readdy.ai風レイアウト）
+ * FlateDecodeストリームを展開（失敗時はnull）
  */
-function getMainPageHTML(): string {
-  return `<!DOCTYPE html>
-<html lang="ja">
-<head>
-  <meta charset="UTF-8" />
-  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-  <title>Web Readdy AI</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>
-    @keyframes spin {
-      from { transform: rotate(0deg); }
-      to { transform: rotate(360deg); }
+async function inflate(data: string): Promise<string | null> {
+  try {
+    const input = Uint8Array.from(data, ch => ch.charCodeAt(0))
+    const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'))
+    const output = new Uint8Array(await new Response(stream).arrayBuffer())
+    let text = ''
+    for (let i = 0; i < output.length; i += 0x8000) {
+      text += String.fromCharCode(...output.subarray(i, i + 0x8000))
     }
-    .animate-spin {
-      animation: spin 1s linear infinite;
+    return text
+  } catch {
+    return null
+  }
+}
+
+/**
+ * ToUnicode CMap（bfchar / bfrange）を読み込む
+ */
+function parseToUnicodeCMap(source: string, cmap: Map<string, string>): void {
+  const hexToUnicode = (hex: string) => {
+    const units: number[] = []
+    for (let i = 0; i + 4 <= hex.length; i += 4) {
+      units.push(parseInt(hex.slice(i, i + 4), 16))
     }
-    .chat-message {
-      animation: fadeIn 0.3s ease-in-out;
+    return String.fromCharCode(...units)
+  }
+
+  for (const block of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>/g)) {
+      cmap.set(pair[1].toUpperCase(), hexToUnicode(pair[2]))
     }
-    @keyframes fadeIn {
-      from { opacity: 0; transform: translateY(10px); }
-      to { opacity: 1; transform: translateY(0); }
+  }
+
+  for (const block of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const rangePattern = /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]+>|\[[^\]]*\])/g
+    for (const range of block[1].matchAll(rangePattern)) {
+      const width = range[1].length
+      const low = parseInt(range[1], 16)
+      const high = parseInt(range[2], 16)
+      const targets = range[3].startsWith('[')
+        ? [...range[3].matchAll(/<([0-9A-Fa-f]+)>/g)].map(m => m[1])
+        : null
+      const base = targets ? 0 : parseInt(range[3].slice(1, -1), 16)
+
+      for (let code = low; code <= high && code - low < 0x10000; code++) {
+        const key = code.toString(16).toUpperCase().padStart(width, '0')
+        if (targets) {
+          const target = targets[code - low]
+          if (target) cmap.set(key, hexToUnicode(target))
+        } else {
+          cmap.set(key, String.fromCharCode(base + code - low))
+        }
+      }
     }
-    .file-operation-item {
-      animation: slideIn 0.3s ease-out;
+  }
+}
+
+/**
+ * コンテンツストリームのテキスト描画オペレーターから文字列を取り出す
+ */
+function extractTextFromContentStream(stream: string, cmap: Map<string, string>): string {
+  const tokenPattern = /\((?:\\[\s\S]|[^\\()]|\((?:\\[\s\S]|[^\\()])*\))*\)|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g
+
+  let output = ''
+  let operands: string[] = []
+  let inArray = false
+  let arrayParts: string[] = []
+
+  for (const [token] of stream.matchAll(tokenPattern)) {
+    if (token === '[') {
+      inArray = true
+      arrayParts = []
+      continue
     }
-    @keyframes slideIn {
-      from { opacity: 0; transform: translateX(-10px); }
-      to { opacity: 1; transform: translateX(0); }
+    if (token === ']') {
+      inArray = false
+      operands.push(arrayParts.join(''))
+      continue
     }
-  </style>
-</head>
-<body class="bg-slate-100">
-  <!-- トップナビゲーションバー -->
-  <nav class="h-14 bg-white border-b border-slate-200 flex items-center px-4 gap-4">
-    <!-- ロゴ -->
-    <div class="flex items-center gap-2">
-      <div class="w-8 h-8 bg-gradient-to-br from-purple-500 to-purple-700 flex items-center justify-center text-white font-bold rounded-lg rotate-45">
-        <span class="-rotate-45">R</span>
-      </div>
-      <span class="font-bold text-lg text-slate-800">Web Readdy AI</span>
-    </div>
+
+    const isString = token.startsWith('(') || (token.startsWith('<') && token !== '<<')
+    if (isString) {
+      const text = decodePdfString(token, cmap)
+      if (inArray) arrayParts.push(text)
+      else operands.push(text)
+      continue
+    }
+
+    if (/^-?\d*\.?\d+$/.test(token)) {
+      // TJ配列内の大きな字間調整は単語区切りとみなす
+      if (inArray && parseFloat(token) < -200) arrayParts.push(' ')
+      else if (!inArray) operands.push(token)
+      continue
+    }
+    if (token.startsWith('/')) continue
+
+    switch (token) {
+      case 'Tj':
+      case 'TJ':
+        output += operands[operands.length - 1] ?? ''
+        break
+      case "'":
+      case '"':
+        output += '\n' + (operands[operands.length - 1] ?? '')
+        break
+      case 'T*':
+      case 'ET':
+        output += '\n'
+        break
+      case 'Td':
+      case 'TD':
+        output += parseFloat(operands[operands.length - 1] ?? '0') !== 0 ? '\n' : ' '
+        break
+    }
+    operands = []
+  }
+
+  return output
+}
+
+/**
+ * PDFの文字列リテラル（(...) または <...>）をテキストに変換
+ */
+function decodePdfString(token: string, cmap: Map<string, string>): string {
+  const bytes: number[] = []
+
+  if (token.startsWith('<')) {
+    const hex = token.slice(1, -1).replace(/\s+/g, '')
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes.push(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16))
+    }
+  } else {
+    const body = token.slice(1, -1)
+    const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 }
+    for (let i = 0; i < body.length; i++) {
+      const ch = body[i]
+      if (ch !== '\\') {
+        bytes.push(ch.charCodeAt(0))
+        continue
+      }
+      const next = body[++i]
+      if (next === undefined) break
+      if (next in escapes) {
+        bytes.push(escapes[next])
+      } else if (/[0-7]/.test(next)) {
+        const octal = body.slice(i, i + 3).match(/^[0-7]{1,3}/)![0]
+        bytes.push(parseInt(octal, 8) & 0xff)
+        i += octal.length - 1
+      } else if (next !== '\n' && next !== '\r') {
+        bytes.push(next.charCodeAt(0))
+      }
+    }
+  }
+
+  // ToUnicode CMapで変換できる場合はそれを優先（2バイト → 1バイトの順に試す）
+  if (cmap.size > 0) {
+    for (const width of [2, 1]) {
+      if (bytes.length % width !== 0) continue
+      let text = ''
+      let mapped = 0
+      for (let i = 0; i < bytes.length; i += width) {
+        const key = bytes.slice(i, i + width).map(b => b.toString(16).toUpperCase().padStart(2, '0')).join('')
+        const value = cmap.get(key)
+        if (value !== undefined) {
+          text += value
+          mapped++
+        }
+      }
+      if (mapped > 0 && mapped * 2 >= bytes.length / width) return text
+    }
+  }
+
+  // UTF-16BE（BOM付き）
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = ''
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1])
+    }
+    return text
+  }
+
+  return String.fromCharCode(...bytes.filter(b => b >= 0x20 || b === 0x09))
+}
+
+/**
+ * 参考画像・PDFについてのプロンプト文
+ *
+ * PDFを直接読めるプロバイダー（nativeDocuments）にはファイル名だけを伝え、抽出したテキストは重ねて送らない
+ */
+function buildAttachmentInstruction(attachments: Attachments, nativeDocuments: boolean): string {
+  const { images, documents } = attachments
+  let instruction = ''
+
+  if (images.length > 0) {
+    instruction += `
+【参考画像】
+ユーザーが${images.length}枚の画像を添付しました（${images.map(i => i.name).join('、')}）。
+画像のレイアウト、配色、タイポグラフィ、余白をよく観察し、できるだけ忠実にデザインへ反映させてください。
+画像自体はHTMLに埋め込まず、デザインの参考として使用してください。
+`
+  }
+
+  if (documents.length > 0) {
+    instruction += `
+【参考資料（PDF）】
+ユーザーが${documents.length}件のPDF資料を添付しました（${documents.map(d => d.name).join('、')}）。Webサイトの文章・構成・見出しは資料の内容に基づいて作成してください。
+資料にブランドカラーやトーンの指定があれば従ってください。
+${nativeDocuments ? '' : documents.map(doc => `
+--- ${doc.name} ---
+${doc.text || '（テキストを抽出できませんでした）'}
+`).join('')}
+`
+  }
+
+  return instruction
+}
+
+// 生成サイトのファイル（パス → 内容）
+type SiteFiles = Record<string, string>
+
+// AIの出力から抽出したファイル
+type ExtractedFiles = {
+  files: SiteFiles
+  // <<<DELETE: パス>>> で削除を指示されたファイル
+  deleted: string[]
+}
+
+// 変更された範囲（変更後のファイルの行番号、1始まり）
+type ChangedRegion = {
+  startLine: number
+  endLine: number
+}
+
+// 生成によるファイル操作
+type FileOperation = {
+  type: 'created' | 'modified' | 'deleted'
+  path: string
+  // 差分編集で変更された範囲（ファイル全体を書き換えた場合はなし）
+  regions?: ChangedRegion[]
+}
+
+// 修正モードの方式（patch: 変更箇所のみ検索・置換 / full: ファイル全体を再生成）
+type EditMode = 'patch' | 'full'
+
+// 生成結果（codeはプロジェクトに保存する形式）
+type GenerationResult = {
+  code: string
+  files: SiteFiles
+  operations: FileOperation[]
+  mode: EditMode
+  // 差分を適用できず全体の再生成に切り替えた理由
+  fallbackReason?: string
+  // 入力と出力のトークン数（続きの生成・差分からの再生成を含む合計）
+  usage: TokenUsage
+  // 生成に使ったプロバイダーとモデル（フォールバックした場合は切り替え先）
+  provider: string
+  model: string
+}
+
+// 出力を既存のファイルに反映した結果（生成に使ったプロバイダーなどは含まない）
+type AppliedOutput = Omit<GenerationResult, 'usage' | 'provider' | 'model'>
+
+// 生成で使ったトークン数
+type TokenUsage = ProviderUsage & {
+  // trueの場合、プロバイダーが使用量を返さなかったリクエストを文字数から推定した値を含む
+  estimated: boolean
+}
+
+// 差分編集の1ブロック
+type FileEdit = {
+  path: string
+  search: string
+  replace: string
+}
+
+const SITE_ENTRY_FILE = 'index.html'
+// サブフォルダは使わず、HTML・CSS・JavaScriptのみ
+const SITE_FILE_PATTERN = /^[A-Za-z0-9_-]+\.(?:html|css|js)$/
+const FILE_BLOCK_PATTERN = /<<<FILE:\s*([^>\n]+?)\s*>>>\n?([\s\S]*?)(?:<<<END FILE>>>|(?=<<<FILE:|<<<DELETE:|<<<EDIT:)|$)/g
+const DELETE_MARKER_PATTERN = /<<<DELETE:\s*([^>\n]+?)\s*>>>/g
+const EDIT_BLOCK_PATTERN = /<<<EDIT:\s*([^>\n]+?)\s*>>>\s*<<<SEARCH>>>\n([\s\S]*?)\n?<<<REPLACE>>>\n?([\s\S]*?)\n?<<<END EDIT>>>/g
+
+const SITE_FILE_FORMAT_INSTRUCTION = `各ファイルを次の形式で出力してください。説明文やコードブロック（\`\`\`）は不要です。
+<<<FILE: index.html>>>
+（ファイルの内容）
+<<<END FILE>>>`
+
+const FILE_EDIT_FORMAT_INSTRUCTION = `変更箇所ごとに次の形式で出力してください。説明文やコードブロック（\`\`\`）は不要です。
+<<<EDIT: index.html>>>
+<<<SEARCH>>>
+（置き換える既存のコード）
+<<<REPLACE>>>
+（新しいコード）
+<<<END EDIT>>>`
+
+/**
+ * プレビューで選択された要素を検証
+ */
+function validateSelectedElement(element: unknown): SelectedElement | undefined {
+  if (element === undefined || element === null) return undefined
+
+  const { path, selector, html } = element as { path?: unknown; selector?: unknown; html?: unknown }
+  if (typeof selector !== 'string' || !selector || typeof html !== 'string' || !html) {
+    throw new ApiError('INVALID_INPUT', '選択された要素の形式が不正です')
+  }
+  if (selector.length > MAX_ELEMENT_SELECTOR_LENGTH || html.length > MAX_ELEMENT_HTML_LENGTH) {
+    throw new ApiError('INVALID_INPUT', '選択された要素が大きすぎます。より小さい要素を選択してください')
+  }
+  if (path !== undefined && (typeof path !== 'string' || !SITE_FILE_PATTERN.test(path))) {
+    throw new ApiError('INVALID_INPUT', '選択された要素のページが不正です')
+  }
+
+  return { path: (path as string | undefined) ?? SITE_ENTRY_FILE, selector, html }
+}
+
+/**
+ * 選択された要素についてのプロンプト文（修正モードのみ）
+ */
+function buildElementInstruction(element?: SelectedElement): string {
+  if (!element) return ''
+
+  return `
+【編集対象の要素】
+ユーザーはプレビューで ${element.path} の次の要素を選択しました（CSSセレクター: ${element.selector}）。
+変更はこの要素（子要素を含む）の中だけにとどめ、要素の外側は一切変更しないでください。
+以下はブラウザ上で取得した要素のHTMLのため、ファイル内の記述と空白や属性の順序が異なる場合があります。
+${element.html}
+`
+}
+
+// デザインテーマ
+type DesignTheme = {
+  id: string
+  name: string
+  palette: ThemePalette
+  typography: ThemeTypography
+  borderRadius: ThemeRadius
+  density: ThemeDensity
+  colorScheme: ThemeColorScheme
+}
+
+// テーマの配色（#RRGGBB）
+type ThemePalette = {
+  primary: string
+  secondary: string
+  accent: string
+  background: string
+  text: string
+}
+
+// テーマのフォント（Google Fontsのフォント名）
+type ThemeTypography = {
+  headingFont: string
+  bodyFont: string
+}
+
+type ThemeRadius = 'none' | 'small' | 'medium' | 'large' | 'full'
+type ThemeDensity = 'compact' | 'comfortable' | 'spacious'
+type ThemeColorScheme = 'light' | 'dark' | 'auto'
+
+// プロンプトに書く各設定の説明（入力の検証にも使う）
+const THEME_RADIUS_LABELS: Record<ThemeRadius, string> = {
+  none: '角丸なし（直角）',
+  small: '控えめな角丸（4px程度）',
+  medium: '標準的な角丸（8〜12px程度）',
+  large: '大きな角丸（16〜24px程度）',
+  full: '丸みの強い形状（ボタンやバッジはピル型）'
+}
+const THEME_DENSITY_LABELS: Record<ThemeDensity, string> = {
+  compact: '詰めたレイアウト（余白は少なめ、情報量を優先）',
+  comfortable: '標準的な余白',
+  spacious: 'ゆったりしたレイアウト（セクション間や要素間の余白を広く）'
+}
+const THEME_COLOR_SCHEME_LABELS: Record<ThemeColorScheme, string> = {
+  light: 'ライトモード（明るい背景）',
+  dark: 'ダークモード（暗い背景）',
+  auto: 'ライト・ダークの両方に対応（prefers-color-scheme に合わせて切り替え）'
+}
+
+const THEME_PALETTE_KEYS: (keyof ThemePalette)[] = ['primary', 'secondary', 'accent', 'background', 'text']
+const THEME_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/
+const THEME_FONT_PATTERN = /^[^\r\n<>"`]{1,50}$/
+const MAX_THEME_ID_LENGTH = 64
+const MAX_THEME_NAME_LENGTH = 50
+const MAX_CUSTOM_THEMES = 20
+
+// 組み込みのテーマ
+const THEME_PRESETS: DesignTheme[] = [
+  {
+    id: 'pastel',
+    name: 'パステル',
+    palette: { primary: '#38bdf8', secondary: '#a5b4fc', accent: '#f9a8d4', background: '#f0f9ff', text: '#334155' },
+    typography: { headingFont: 'M PLUS Rounded 1c', bodyFont: 'Noto Sans JP' },
+    borderRadius: 'large',
+    density: 'comfortable',
+    colorScheme: 'light'
+  },
+  {
+    id: 'corporate',
+    name: 'コーポレート',
+    palette: { primary: '#1e3a8a', secondary: '#2563eb', accent: '#f59e0b', background: '#ffffff', text: '#1f2937' },
+    typography: { headingFont: 'Noto Sans JP', bodyFont: 'Noto Sans JP' },
+    borderRadius: 'small',
+    density: 'comfortable',
+    colorScheme: 'light'
+  },
+  {
+    id: 'minimal',
+    name: 'ミニマル',
+    palette: { primary: '#111827', secondary: '#6b7280', accent: '#ef4444', background: '#ffffff', text: '#111827' },
+    typography: { headingFont: 'Inter', bodyFont: 'Noto Sans JP' },
+    borderRadius: 'none',
+    density: 'spacious',
+    colorScheme: 'light'
+  },
+  {
+    id: 'dark-tech',
+    name: 'ダークテック',
+    palette: { primary: '#22d3ee', secondary: '#a855f7', accent: '#10b981', background: '#0f172a', text: '#e2e8f0' },
+    typography: { headingFont: 'Space Grotesk', bodyFont: 'Noto Sans JP' },
+    borderRadius: 'medium',
+    density: 'comfortable',
+    colorScheme: 'dark'
+  },
+  {
+    id: 'natural',
+    name: 'ナチュラル',
+    palette: { primary: '#4d7c0f', secondary: '#a16207', accent: '#ea580c', background: '#fefce8', text: '#3f3f2e' },
+    typography: { headingFont: 'Noto Serif JP', bodyFont: 'Noto Sans JP' },
+    borderRadius: 'medium',
+    density: 'spacious',
+    colorScheme: 'light'
+  },
+  {
+    id: 'pop',
+    name: 'ポップ',
+    palette: { primary: '#ec4899', secondary: '#8b5cf6', accent: '#facc15', background: '#fff7ed', text: '#1f2937' },
+    typography: { headingFont: 'M PLUS Rounded 1c', bodyFont: 'M PLUS Rounded 1c' },
+    borderRadius: 'full',
+    density: 'compact',
+    colorScheme: 'light'
+  }
+]
+const DEFAULT_THEME_ID = 'pastel'
+
+/**
+ * 既定のテーマ（新規作成でテーマが指定されなかった場合に使う）
+ */
+function getDefaultTheme(): DesignTheme {
+  return THEME_PRESETS.find(theme => theme.id === DEFAULT_THEME_ID)!
+}
+
+/**
+ * デザインテーマを検証
+ */
+function validateDesignTheme(theme: unknown): DesignTheme | undefined {
+  if (theme === undefined || theme === null) return undefined
+
+  const { id, name, palette, typography, borderRadius, density, colorScheme } = theme as Record<string, any>
+  if (typeof id !== 'string' || !id || id.length > MAX_THEME_ID_LENGTH) {
+    throw new ApiError('INVALID_INPUT', 'デザインテーマの形式が不正です')
+  }
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_THEME_NAME_LENGTH) {
+    throw new ApiError('INVALID_INPUT', `テーマ名は${MAX_THEME_NAME_LENGTH}文字以内で入力してください`)
+  }
+  if (!THEME_PALETTE_KEYS.every(key => typeof palette?.[key] === 'string' && THEME_COLOR_PATTERN.test(palette[key]))) {
+    throw new ApiError('INVALID_INPUT', 'テーマの色はカラーコード（#RRGGBB）で指定してください')
+  }
+  if (![typography?.headingFont, typography?.bodyFont].every(font => typeof font === 'string' && THEME_FONT_PATTERN.test(font.trim()))) {
+    throw new ApiError('INVALID_INPUT', 'テーマのフォント名が不正です')
+  }
+  if (
+    typeof borderRadius !== 'string' || !Object.hasOwn(THEME_RADIUS_LABELS, borderRadius) ||
+    typeof density !== 'string' || !Object.hasOwn(THEME_DENSITY_LABELS, density) ||
+    typeof colorScheme !== 'string' || !Object.hasOwn(THEME_COLOR_SCHEME_LABELS, colorScheme)
+  ) {
+    throw new ApiError('INVALID_INPUT', 'デザインテーマの形式が不正です')
+  }
+
+  return {
+    id,
+    name: name.trim(),
+    palette: Object.fromEntries(THEME_PALETTE_KEYS.map(key => [key, palette[key].toLowerCase()])) as ThemePalette,
+    typography: { headingFont: typography.headingFont.trim(), bodyFont: typography.bodyFont.trim() },
+    borderRadius: borderRadius as ThemeRadius,
+    density: density as ThemeDensity,
+    colorScheme: colorScheme as ThemeColorScheme
+  }
+}
+
+/**
+ * デザインテーマについてのプロンプト文
+ *
+ * 修正モードでは、変更する部分をテーマに合わせてサイト全体の統一感を保たせる
+ */
+function buildThemeInstruction(theme: DesignTheme | undefined, editing: boolean): string {
+  if (!theme) return ''
+
+  const { palette, typography } = theme
+  return `
+【デザインテーマ: ${theme.name}】
+${editing
+    ? '追加・変更する部分は以下のデザインテーマに合わせ、サイト全体の統一感を保ってください。'
+    : '以下のデザインテーマに沿ってデザインしてください。'}
+- 配色: メイン ${palette.primary} / サブ ${palette.secondary} / アクセント ${palette.accent} / 背景 ${palette.background} / 文字 ${palette.text}
+- フォント: 見出しは「${typography.headingFont}」、本文は「${typography.bodyFont}」（Google Fontsから読み込む）
+- 形状: ${THEME_RADIUS_LABELS[theme.borderRadius]}
+- 余白: ${THEME_DENSITY_LABELS[theme.density]}
+- カラーモード: ${THEME_COLOR_SCHEME_LABELS[theme.colorScheme]}
+`
+}
+
+/**
+ * AIに渡すプロンプトを生成（既存コードがある場合は修正モード）
+ */
+function buildPrompt(
+  prompt: string,
+  attachments: Attachments,
+  existingCode: string | undefined,
+  nativeDocuments: boolean
+): string {
+  if (existingCode) {
+    // 修正モード：既存のコードを基に改善
+    return `あなたは既存のWebサイトを改善するWeb開発者です。
+以下の既存のファイルを基に、ユーザーの要望に従って修正・改善してください。
+
+【既存のファイル】
+${formatSiteFiles(parseSiteFiles(existingCode))}
+
+【ユーザーの修正要望】
+${prompt}
+${buildElementInstruction(attachments.element)}${buildThemeInstruction(attachments.theme, true)}${buildAttachmentInstruction(attachments, nativeDocuments)}
+【重要なルール】
+- 既存のコードを基盤として、要望された部分のみを変更してください
+- 要望されていない部分はそのまま維持してください
+- 変更・追加するファイルのみを、省略せず完全な内容で出力してください（変更しないファイルは出力不要です）
+- ページを追加した場合は、全ページの共通ナビゲーションにもリンクを追加してください
+- ファイルを削除する場合は <<<DELETE: ファイル名>>> と出力してください（index.htmlは削除できません）
+- Tailwind CSSを引き続き使用してください
+
+【出力形式】
+${SITE_FILE_FORMAT_INSTRUCTION}`
+  }
+
+  // 新規作成モード
+  return `ユーザーが作りたいWebサイトについて説明しています。
+以下の要件を満たす、完全で実用的なWebサイトを作成してください。内容に応じて1ページまたは複数ページで構成してください。
+
+【要件】
+- トップページは必ずindex.htmlとする
+- 複数ページにする場合は全ページに共通のナビゲーションを置き、ページ間は相対パス（例: about.html）でリンクする
+- 共通のCSS・JavaScriptは必要に応じてstyles.css・script.jsに分け、各ページから相対パスで読み込む
+- ファイル名は英数字・ハイフン・アンダースコアのみとし、フォルダは使わない
+- Tailwind CSSをCDNから読み込む（<script src="https://cdn.tailwindcss.com"></script>）
+- レスポンシブデザインに対応する
+- モダンなデザインにする
+${buildThemeInstruction(attachments.theme ?? getDefaultTheme(), false)}
+【ユーザーの要望】
+${prompt}
+
+${buildAttachmentInstruction(attachments, nativeDocuments)}
+
+【出力形式】
+${SITE_FILE_FORMAT_INSTRUCTION}`
+}
+
+/**
+ * 差分編集用のプロンプトを生成（変更箇所を検索・置換の形式で出力させる）
+ */
+function buildPatchPrompt(
+  prompt: string,
+  attachments: Attachments,
+  existingCode: string,
+  nativeDocuments: boolean
+): string {
+  return `あなたは既存のWebサイトを部分的に修正するWeb開発者です。
+以下の既存のファイルに対して、ユーザーの要望を満たすために必要な箇所だけを変更してください。
+
+【既存のファイル】
+${formatSiteFiles(parseSiteFiles(existingCode))}
+
+【ユーザーの修正要望】
+${prompt}
+${buildElementInstruction(attachments.element)}${buildThemeInstruction(attachments.theme, true)}${buildAttachmentInstruction(attachments, nativeDocuments)}
+【重要なルール】
+- 要望された部分のみを変更し、それ以外はそのまま維持してください
+- SEARCHには既存のファイルの該当箇所を、インデントや改行も含めて一字一句そのまま書いてください
+- SEARCHはファイル内の1箇所だけに一致するよう、必要に応じて前後の行も含めてください
+- 変更箇所が複数ある場合は、EDITブロックを複数出力してください
+- 新しいファイルを追加する場合は <<<FILE: ファイル名>>> 〜 <<<END FILE>>> で全体を出力してください
+- ファイルを削除する場合は <<<DELETE: ファイル名>>> と出力してください（index.htmlは削除できません）
+- Tailwind CSSを引き続き使用してください
+
+【出力形式】
+${FILE_EDIT_FORMAT_INSTRUCTION}`
+}
+
+// API: Webサイト生成エンドポイント（SSEストリーミング版）
+// event: chunk（テキスト片） / fallback（差分を適用できず全体を再生成） / continuation（出力が途切れたため続きを生成）
+//        / provider（プロバイダーが使えないため別のプロバイダーで最初から生成し直す）
+//        / done（最終コードとファイル操作、生成したプロバイダー、使用量と料金の概算、アクセシビリティ診断の結果、残りの利用枠） / error（エラーメッセージとエラーコード）
+app.post('/api/generate/stream', async (c) => {
+  let input: GenerateRequest
+  let candidates: ProviderCandidate[]
+  let quota: QuotaCounter[]
+  try {
+    input = await parseGenerateRequest(await readJsonBody(c))
+    candidates = await resolveProviderCandidates(c.env, input, await resolveApiKey(c.env, input.provider, input.apiKey))
+    quota = await loadQuota(c, input.projectId)
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+
+  const exceeded = await consumeQuota(c.env, quota)
+  if (exceeded) return quotaExceededResponse(c, exceeded, quota)
+
+  return streamSSE(c, async (stream) => {
+    // クライアントが切断（キャンセル）したらプロバイダーへのリクエストも中断
+    const controller = new AbortController()
+    stream.onAbort(() => controller.abort())
+
+    const usageLog: UsageEntry[] = []
+    let usage: UsageReport | undefined
+    try {
+      const result = await withProviderFallback(
+        candidates,
+        (candidate) => streamWebsite(
+          input.prompt,
+          candidate.provider.id,
+          candidate.apiKey,
+          input.attachments,
+          input.existingCode,
+          candidate.settings,
+          input.editMode,
+          input.history,
+          usageLog,
+          (text) => stream.writeSSE({ event: 'chunk', data: JSON.stringify({ text }) }),
+          (reason) => stream.writeSSE({ event: 'fallback', data: JSON.stringify({ reason }) }),
+          (attempt) => stream.writeSSE({ event: 'continuation', data: JSON.stringify({ attempt }) }),
+          controller.signal
+        ),
+        (failed, next, error) => stream.writeSSE({
+          event: 'provider',
+          data: JSON.stringify({ failed: failed.id, provider: next.id, reason: error.message })
+        })
+      )
+      usage = await recordUsageLog(c.env, quota, usageLog, input.projectId)
+      await stream.writeSSE({
+        event: 'done',
+        data: JSON.stringify({ ...result, usage, accessibility: auditAccessibility(result.files), quota: buildQuotaReport(quota) })
+      })
+    } catch (error) {
+      // 失敗・キャンセルした場合も、プロバイダーに届いたリクエストで使ったトークンは記録する
+      if (!usage) await recordUsageLog(c.env, quota, usageLog, input.projectId)
+      if (controller.signal.aborted) return
+      const apiErr = toApiError(error)
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({ error: apiErr.message, code: apiErr.code, ...apiErr.details })
+      })
+    }
+  })
+})
+
+// 生成に使うプロバイダーとAPIキー・設定
+type ProviderCandidate = {
+  provider: AIProvider
+  apiKey: string
+  settings: GenerationSettings
+}
+
+/**
+ * 生成に使うプロバイダーの候補（選択中のプロバイダーの後に、使えるフォールバック先を優先順に続ける）
+ *
+ * フォールバック先はサーバー側のAPIキーと既定のモデルを使い、キーがないものや添付画像・PDFを扱えないものは除く。
+ * カスタムエンドポイントはCUSTOM_ENDPOINT_ALLOWED_HOSTSで許可されたホストだけを受け付ける
+ */
+async function resolveProviderCandidates(
+  env: Env,
+  input: ProviderSelection & { attachments?: Attachments },
+  apiKey: string
+): Promise<ProviderCandidate[]> {
+  if (input.provider.customEndpoint) assertCustomEndpointAllowed(env, input.settings.baseUrl)
+
+  const candidates: ProviderCandidate[] = [{ provider: input.provider, apiKey, settings: input.settings }]
+  for (const provider of input.fallbackProviders) {
+    if (provider.id === input.provider.id) continue
+    if (input.attachments && input.attachments.images.length > 0 && !provider.capabilities.vision) continue
+    if (input.attachments?.documents.some(doc => !doc.text) && !provider.capabilities.documents) continue
+
+    // 保存されたキーを復号できない場合もフォールバック先から外すだけにする
+    const serverKey = await loadServerApiKey(env, provider).catch(() => undefined)
+    if (!serverKey) continue
+    candidates.push({
+      provider,
+      apiKey: serverKey,
+      settings: { temperature: input.settings.temperature, maxTokens: input.settings.maxTokens }
+    })
+  }
+  return candidates
+}
+
+/**
+ * カスタムエンドポイントの接続先が許可されたホストか確かめる
+ *
+ * Workerから任意のホストへリクエストを中継しないよう、既定ではどのホストも許可しない
+ */
+function assertCustomEndpointAllowed(env: Env, baseUrl: unknown): void {
+  const url = new URL(normalizeBaseUrl(baseUrl))
+  const allowed = (env.CUSTOM_ENDPOINT_ALLOWED_HOSTS ?? '').split(',').map(value => value.trim().toLowerCase()).filter(Boolean)
+  if (!allowed.includes('*') && !allowed.includes(url.hostname) && !allowed.includes(url.host)) {
+    throw new ApiError('INVALID_INPUT', `カスタムエンドポイントに指定できないホストです: ${url.host}（サーバーのCUSTOM_ENDPOINT_ALLOWED_HOSTSで許可されたホストのみ使えます）`)
+  }
+}
+
+/**
+ * 候補のプロバイダーで順に生成する
+ *
+ * 再試行しても一時的なエラー（レート制限・過負荷・サーバーエラー）が続いた場合だけ次の候補に切り替え、onSwitchを呼ぶ
+ */
+async function withProviderFallback<T>(
+  candidates: ProviderCandidate[],
+  generate: (candidate: ProviderCandidate) => Promise<T>,
+  onSwitch: (failed: AIProvider, next: AIProvider, error: ApiError) => Promise<unknown>
+): Promise<T> {
+  for (let i = 0; ; i++) {
+    try {
+      return await generate(candidates[i])
+    } catch (error) {
+      const next = candidates[i + 1]
+      if (!next || !isTransientError(error)) throw error
+      await onSwitch(candidates[i].provider, next.provider, error)
+    }
+  }
+}
+
+/**
+ * Webサイト生成処理（AI API連携）
+ *
+ * 差分編集はきれいに適用できた場合のみ採用し、失敗したら全体を再生成する。
+ * 使用量はリクエストの前にusageLogへ加えておき、途中で失敗しても呼び出し元で記録できるようにする
+ */
+async function generateWebsite(
+  prompt: string,
+  aiProvider: string,
+  apiKey: string,
+  attachments: Attachments = { images: [], documents: [] },
+  existingCode?: string,
+  settings: GenerationSettings = {},
+  editMode: EditMode = 'patch',
+  history: ConversationMessage[] = [],
+  usageLog: UsageEntry[] = []
+): Promise<GenerationResult> {
+  // AIプロバイダーとモデル設定を決定
+  const provider = getProvider(aiProvider)
+  const options = resolveGenerationOptions(provider, settings, attachments)
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, estimated: false }
+  usageLog.push({ usage, provider: provider.id, model: options.model })
+  const request = async (messages: ConversationMessage[]) => {
+    const output = await callProvider(provider, apiKey, messages, attachments, options)
+    addRequestUsage(usage, messages, output)
+    return output
+  }
+
+  let fallbackReason: string | undefined
+  if (existingCode && editMode === 'patch') {
+    const patchPrompt = buildPatchPrompt(prompt, attachments, existingCode, provider.capabilities.documents)
+    const text = await generateWithContinuation(buildConversation(history, patchPrompt, options), request)
+    try {
+      return { ...buildPatchResult(text, existingCode), usage, provider: provider.id, model: options.model }
+    } catch (error) {
+      fallbackReason = error instanceof Error ? error.message : '不明なエラー'
+    }
+  }
+
+  const fullPrompt = buildPrompt(prompt, attachments, existingCode, provider.capabilities.documents)
+
+  const text = await generateWithContinuation(buildConversation(history, fullPrompt, options), request)
+  return { ...buildGenerationResult(text, existingCode), fallbackReason, usage, provider: provider.id, model: options.model }
+}
+
+/**
+ * Webサイト生成処理（ストリーミング）
+ *
+ * 受信したテキスト片をonChunkに渡しながら生成し、最後に既存のファイルへ反映した結果を返す。
+ * 差分編集を適用できなかった場合はonFallbackを呼んでから全体を再生成する。
+ * 出力が途切れて続きを要求するときはonContinuationを呼ぶ。使用量はgenerateWebsiteと同じくusageLogにも加える
+ */
+async function streamWebsite(
+  prompt: string,
+  aiProvider: string,
+  apiKey: string,
+  attachments: Attachments,
+  existingCode: string | undefined,
+  settings: GenerationSettings,
+  editMode: EditMode,
+  history: ConversationMessage[],
+  usageLog: UsageEntry[],
+  onChunk: (text: string) => Promise<void>,
+  onFallback: (reason: string) => Promise<void>,
+  onContinuation: (attempt: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<GenerationResult> {
+  const provider = getProvider(aiProvider)
+  const options = resolveGenerationOptions(provider, settings, attachments)
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, estimated: false }
+  usageLog.push({ usage, provider: provider.id, model: options.model })
+  const request = async (messages: ConversationMessage[]) => {
+    let received = ''
+    try {
+      const output = await streamProvider(provider, apiKey, messages, attachments, options, (text) => {
+        received += text
+        return onChunk(text)
+      }, signal)
+      addRequestUsage(usage, messages, output)
+      return output
+    } catch (error) {
+      // 途中で途切れたストリームも、受け取った分までの使用量を推定して加える
+      if (received) addRequestUsage(usage, messages, { text: received, truncated: false })
+      throw error
+    }
+  }
+
+  let fallbackReason: string | undefined
+  if (existingCode && editMode === 'patch') {
+    const patchPrompt = buildPatchPrompt(prompt, attachments, existingCode, provider.capabilities.documents)
+    const text = await generateWithContinuation(buildConversation(history, patchPrompt, options), request, onContinuation)
+    try {
+      return { ...buildPatchResult(text, existingCode), usage, provider: provider.id, model: options.model }
+    } catch (error) {
+      fallbackReason = error instanceof Error ? error.message : '不明なエラー'
+      await onFallback(fallbackReason)
+    }
+  }
+
+  const fullPrompt = buildPrompt(prompt, attachments, existingCode, provider.capabilities.documents)
+
+  const text = await generateWithContinuation(buildConversation(history, fullPrompt, options), request, onContinuation)
+  return { ...buildGenerationResult(text, existingCode), fallbackReason, usage, provider: provider.id, model: options.model }
+}
+
+/**
+ * 出力が上限で途切れた・文書が閉じていない場合は続きを要求して継ぎ合わせる
+ *
+ * 続きを要求しても使える出力にならなければエラーにする
+ */
+async function generateWithContinuation(
+  messages: ConversationMessage[],
+  request: (messages: ConversationMessage[]) => Promise<ProviderOutput>,
+  onContinuation?: (attempt: number) => Promise<void>
+): Promise<string> {
+  let { text, truncated } = await request(messages)
+
+  for (let attempt = 1; attempt <= MAX_CONTINUATIONS && (truncated || isOutputIncomplete(text)); attempt++) {
+    await onContinuation?.(attempt)
+    const output = await request([
+      ...messages,
+      { role: 'assistant', content: text },
+      { role: 'user', content: CONTINUATION_PROMPT }
+    ])
+    // 続きが空なら、これ以上要求しても進まない
+    if (!output.text.trim()) break
+    text = joinContinuation(text, output.text)
+    truncated = output.truncated
+  }
+
+  if (isOutputIncomplete(text)) {
+    throw new ApiError('OUTPUT_TRUNCATED', 'AIの出力が途中で途切れたため、Webサイトを完成できませんでした。最大出力トークンを増やすか、要望を小さく分けて送信してください')
+  }
+  return text
+}
+
+/**
+ * クライアントから送られた会話履歴（完了したやり取り）を検証
+ */
+function validateConversationHistory(history: unknown): ConversationMessage[] {
+  if (history === undefined || history === null) return []
+  if (!Array.isArray(history)) {
+    throw new ApiError('INVALID_INPUT', '会話履歴の形式が不正です')
+  }
+
+  // 古いメッセージから切り捨てる
+  return history.slice(-MAX_HISTORY_MESSAGES).map((message: { role?: unknown; content?: unknown }) => {
+    if ((message?.role !== 'user' && message?.role !== 'assistant') || typeof message.content !== 'string') {
+      throw new ApiError('INVALID_INPUT', '会話履歴の形式が不正です')
+    }
+    return { role: message.role, content: message.content.slice(0, MAX_HISTORY_MESSAGE_LENGTH) }
+  })
+}
+
+/**
+ * 会話履歴と今回のプロンプトから、プロバイダーに送るメッセージ列を組み立てる
+ *
+ * 履歴はモデルのコンテキストウィンドウに収まる分だけ新しい順に残し、
+ * 収まらない古いやり取りはユーザーの要望の一覧に要約する
+ */
+function buildConversation(
+  history: ConversationMessage[],
+  prompt: string,
+  options: GenerationOptions
+): ConversationMessage[] {
+  // 出力とシステムプロンプト・今回のプロンプトを除いた残りを履歴に使う
+  const available = options.contextWindow - options.maxTokens - estimateTokens(SYSTEM_PROMPT) - estimateTokens(prompt)
+  const budget = Math.min(MAX_HISTORY_TOKENS, available)
+
+  let used = 0
+  let start = history.length
+  while (start > 0) {
+    const tokens = estimateTokens(history[start - 1].content)
+    if (used + tokens > budget) break
+    used += tokens
+    start--
+  }
+
+  const summary = summarizeHistory(history.slice(0, start), budget - used)
+  return mergeConversation([
+    ...(summary ? [{ role: 'user' as const, content: summary }] : []),
+    ...history.slice(start),
+    { role: 'user', content: prompt, attachments: true }
+  ])
+}
+
+/**
+ * 古いやり取りの要約（ユーザーの要望を古い順に列挙し、予算に収まらない分は古いものから省く）
+ */
+function summarizeHistory(history: ConversationMessage[], budget: number): string | undefined {
+  const header = '【これまでの会話の要約】\n以前のやり取りでユーザーは次の要望を出しています（古い順）。新しい指示と矛盾しない限り、引き続き守ってください。'
+  const items = history
+    .filter(message => message.role === 'user')
+    .map(message => {
+      const text = message.content.replace(/\s+/g, ' ').trim()
+      return `- ${text.length > HISTORY_SUMMARY_ITEM_LENGTH ? text.slice(0, HISTORY_SUMMARY_ITEM_LENGTH) + '…' : text}`
+    })
+
+  let tokens = estimateTokens(header) + items.reduce((sum, item) => sum + estimateTokens(item), 0)
+  while (items.length > 0 && tokens > budget) {
+    tokens -= estimateTokens(items.shift()!)
+  }
+  return items.length > 0 ? [header, ...items].join('\n') : undefined
+}
+
+/**
+ * 同じロールが続くメッセージを結合し、先頭をユーザーのメッセージにそろえる
+ *
+ * ClaudeとGeminiはユーザーとアシスタントが交互に並んでいる必要がある
+ */
+function mergeConversation(messages: ConversationMessage[]): ConversationMessage[] {
+  const merged: ConversationMessage[] = []
+  for (const message of messages) {
+    const last = merged[merged.length - 1]
+    if (last?.role === message.role) {
+      merged[merged.length - 1] = {
+        role: last.role,
+        content: `${last.content}\n\n${message.content}`,
+        attachments: last.attachments || message.attachments
+      }
+    } else if (merged.length > 0 || message.role === 'user') {
+      merged.push(message)
+    }
+  }
+  return merged
+}
+
+/**
+ * テキストのおおよそのトークン数（英数字は4文字、それ以外は1文字で1トークンと見積もる）
+ */
+function estimateTokens(text: string): number {
+  let ascii = 0
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++
+  }
+  return Math.ceil(ascii / 4) + text.length - ascii
+}
+
+/**
+ * 1回のリクエストの使用量を合計に加える
+ *
+ * プロバイダーが使用量を返さなかった場合は、システムプロンプト・送信したメッセージ・出力の文字数から推定する
+ */
+function addRequestUsage(total: TokenUsage, messages: ConversationMessage[], output: ProviderOutput): void {
+  if (output.usage) {
+    total.inputTokens += output.usage.inputTokens
+    total.outputTokens += output.usage.outputTokens
+    return
+  }
+  total.inputTokens += messages.reduce((sum, message) => sum + estimateTokens(message.content), estimateTokens(SYSTEM_PROMPT))
+  total.outputTokens += estimateTokens(output.text)
+  total.estimated = true
+}
+
+/**
+ * 出力が途中で終わっているか（ファイル・差分ブロックやコードブロック、HTML文書が閉じていない）
+ */
+function isOutputIncomplete(text: string): boolean {
+  if (text.lastIndexOf('<<<FILE:') > text.lastIndexOf('<<<END FILE>>>')) return true
+  if (text.lastIndexOf('<<<EDIT:') > text.lastIndexOf('<<<END EDIT>>>')) return true
+  if ((text.match(/^\s*```/gm) ?? []).length % 2 === 1) return true
+
+  // マーカーのない出力（単一のHTML）は全体を、ファイル形式ならHTMLファイルごとに確認する
+  const documents = /<<<(?:FILE|EDIT|DELETE):/.test(text)
+    ? Object.entries(extractFileBlocks(text).files)
+        .filter(([path]) => path.endsWith('.html'))
+        .map(([, content]) => content)
+    : [text]
+  return documents.some(html => /<html[\s>]/i.test(html) && !/<\/html>/i.test(html))
+}
+
+/**
+ * 途切れた出力と続きの出力を継ぎ合わせる
+ *
+ * 続きの先頭のコードブロック開始行と、前の出力の末尾と重複している部分は取り除く
+ */
+function joinContinuation(previous: string, next: string): string {
+  const continuation = next.replace(/^\s*```[\w-]*[ \t]*\n/, '')
+  const maxOverlap = Math.min(500, previous.length, continuation.length)
+
+  for (let length = maxOverlap; length >= 20; length--) {
+    if (previous.endsWith(continuation.slice(0, length))) {
+      return previous + continuation.slice(length)
+    }
+  }
+  return previous + continuation
+}
+
+/**
+ * プロバイダーAPI呼び出し（ストリーミング）
+ *
+ * 受信したテキスト片をonChunkに渡し、全文と打ち切られたかどうかを返す
+ */
+async function streamProvider(
+  provider: AIProvider,
+  apiKey: string,
+  messages: ConversationMessage[],
+  attachments: Attachments,
+  options: GenerationOptions,
+  onChunk: (text: string) => Promise<void>,
+  signal?: AbortSignal
+): Promise<ProviderOutput> {
+  // ストリーミング非対応のプロバイダーは一括で生成して1チャンクとして返す
+  if (!provider.capabilities.streaming) {
+    const output = await callProvider(provider, apiKey, messages, attachments, options, signal)
+    await onChunk(output.text)
+    return output
+  }
+
+  const request = provider.buildRequest(apiKey, messages, requestAttachments(provider, attachments), options, true)
+  const response = await fetchProvider(provider, request, signal)
+
+  if (!response.ok || !response.body) {
+    throw await providerError(provider, response)
+  }
+
+  let text = ''
+  let truncated = false
+  let usage: Partial<ProviderUsage> = {}
+  await readServerSentEvents(response.body, async (data) => {
+    if (data === '[DONE]') return
+
+    const event: ProviderStreamEvent = JSON.parse(data)
+    if (event.type === 'error' || event.error) {
+      throw providerStreamError(provider, event)
+    }
+
+    if (provider.isTruncated(event)) truncated = true
+    usage = mergeUsage(usage, provider.parseUsage(event))
+    const delta = provider.parseStreamDelta(event)
+    if (delta) {
+      text += delta
+      await onChunk(delta)
+    }
+  })
+
+  return { text, truncated, usage: completeUsage(usage) }
+}
+
+/**
+ * 使用量に新しい値を重ねる（数値でない項目は無視する）
+ */
+function mergeUsage(current: Partial<ProviderUsage>, next: Partial<ProviderUsage> | undefined): Partial<ProviderUsage> {
+  const merged = { ...current }
+  for (const key of ['inputTokens', 'outputTokens'] as const) {
+    const value = next?.[key]
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) merged[key] = value
+  }
+  return merged
+}
+
+/**
+ * 入力・出力の両方が揃った使用量（揃わなければ推定値を使うため未設定にする）
+ */
+function completeUsage(usage: Partial<ProviderUsage>): ProviderUsage | undefined {
+  const { inputTokens, outputTokens } = usage
+  return inputTokens !== undefined && outputTokens !== undefined ? { inputTokens, outputTokens } : undefined
+}
+
+/**
+ * プロバイダーのSSEレスポンスを読み、dataフィールドごとにonDataを呼ぶ
+ */
+async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => Promise<void>
+): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    // 末尾に空行がないイベントも取りこぼさない
+    buffer += done ? '\n\n' : value
+
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = events.pop() ?? ''
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+      if (data) await onData(data)
+    }
+    if (done) break
+  }
+}
+
+// プロバイダーのストリームイベント（差分テキストとエラーの判定に使う項目）
+type ProviderStreamEvent = {
+  type?: string
+  error?: { type?: string; message?: string }
+  // OpenAI形式
+  choices?: { delta?: { content?: string } }[]
+  // Gemini
+  candidates?: { content?: { parts?: { text?: string }[] } }[]
+  // Claude
+  delta?: { text?: string }
+}
+
+// プロバイダーへのHTTPリクエスト
+type ProviderRequest = {
+  url: string
+  init: RequestInit
+}
+
+// プロバイダーが提供するモデル
+type ProviderModel = {
+  id: string
+  label: string
+  contextWindow: number
+  maxOutputTokens: number
+  // 料金（100万トークンあたりの米ドル。コストの概算に使う）
+  price?: ModelPrice
+}
+
+// モデルの料金（100万トークンあたりの米ドル）
+type ModelPrice = {
+  input: number
+  output: number
+}
+
+// プロバイダーの対応機能
+type ProviderCapabilities = {
+  vision: boolean
+  documents: boolean
+  streaming: boolean
+}
+
+// プロバイダーに送る会話の1メッセージ
+type ConversationMessage = {
+  role: 'user' | 'assistant'
+  content: string
+  // trueのメッセージに参考画像・PDFを添付する
+  attachments?: boolean
+}
+
+// プロバイダーが返すトークン使用量
+type ProviderUsage = {
+  inputTokens: number
+  outputTokens: number
+}
+
+// プロバイダーの出力
+type ProviderOutput = {
+  text: string
+  truncated: boolean
+  // プロバイダーが使用量を返さなかった場合は未設定
+  usage?: ProviderUsage
+}
+
+// リクエストごとに指定できる生成設定（未指定ならプロバイダーの既定値）
+type GenerationSettings = {
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  baseUrl?: string
+}
+
+// 検証済みの生成設定
+type GenerationOptions = {
+  model: string
+  temperature: number
+  maxTokens: number
+  // プロンプトと出力を合わせた上限（会話履歴を削る目安）
+  contextWindow: number
+  baseUrl?: string
+}
+
+/**
+ * AIプロバイダー定義
+ *
+ * リクエストの組み立てとレスポンスの解釈をプロバイダーごとに実装する
+ */
+interface AIProvider {
+  id: string
+  label: string
+  models: ProviderModel[]
+  defaultModel: string
+  maxTemperature: number
+  capabilities: ProviderCapabilities
+  // trueの場合、接続先URLとモデル名をリクエストごとに指定する（modelsは空）
+  customEndpoint?: boolean
+  // サーバー側のAPIキーを読むWorkerシークレットの名前
+  // （カスタムエンドポイントは接続先を利用者が決めるため、キーを渡さないよう指定しない）
+  serverKeyName?: ProviderKeyName
+  buildRequest(
+    apiKey: string,
+    messages: ConversationMessage[],
+    attachments: Attachments,
+    options: GenerationOptions,
+    stream: boolean
+  ): ProviderRequest
+  parseResponse(data: any): string
+  parseStreamDelta(event: ProviderStreamEvent): string | undefined
+  // 出力トークンの上限で打ち切られたか（レスポンス・ストリームイベントのどちらにも使う）
+  isTruncated(data: any): boolean
+  // トークン使用量（レスポンス・ストリームイベントのどちらにも使う。含まれない項目は未設定）
+  parseUsage(data: any): Partial<ProviderUsage> | undefined
+}
+
+const DEFAULT_TEMPERATURE = 0.7
+const DEFAULT_MAX_TOKENS = 8000
+
+// 出力が途切れた場合に続きを要求する最大回数
+const MAX_CONTINUATIONS = 3
+const CONTINUATION_PROMPT = `出力が途中で途切れました。直前の出力の続きを、途切れた位置からそのまま出力してください。
+すでに出力した部分の繰り返しや、説明文・コードブロック（\`\`\`）は不要です。`
+
+// 会話履歴の制限
+const MAX_HISTORY_MESSAGES = 100
+const MAX_HISTORY_MESSAGE_LENGTH = 4000
+// コンテキストウィンドウに余裕があっても、履歴に使うのはこのトークン数まで
+const MAX_HISTORY_TOKENS = 16000
+// 要約に残す古い要望1件あたりの最大文字数
+const HISTORY_SUMMARY_ITEM_LENGTH = 200
+
+// カスタムエンドポイントのモデルは上限が分からないため、この値で頭打ちにする
+const CUSTOM_ENDPOINT_MAX_OUTPUT_TOKENS = 32768
+const CUSTOM_ENDPOINT_CONTEXT_WINDOW = 32768
+
+// プロバイダーレジストリ
+const providerRegistry = new Map<string, AIProvider>()
+
+/**
+ * プロバイダーを登録
+ */
+function registerProvider(provider: AIProvider): void {
+  providerRegistry.set(provider.id, provider)
+}
+
+/**
+ * IDからプロバイダーを取得
+ */
+function getProvider(id: string): AIProvider {
+  const provider = providerRegistry.get(id)
+  if (!provider) {
+    throw new ApiError('INVALID_INPUT', '未対応のAIプロバイダーです')
+  }
+  return provider
+}
+
+/**
+ * 登録済みプロバイダーの公開情報（リクエスト処理の関数を除く）
+ */
+function listProviders() {
+  return [...providerRegistry.values()].map(provider => ({
+    id: provider.id,
+    label: provider.label,
+    models: provider.models,
+    defaultModel: provider.defaultModel,
+    maxTemperature: provider.maxTemperature,
+    capabilities: provider.capabilities,
+    customEndpoint: provider.customEndpoint ?? false
+  }))
+}
+
+// サーバー側のAPIキーを設定するWorkerシークレットの名前
+type ProviderKeyName = 'OPENAI_API_KEY' | 'GEMINI_API_KEY' | 'ANTHROPIC_API_KEY'
+
+// KVに暗号化して保存したAPIキー（AES-GCM、いずれもBase64）
+type EncryptedSecret = {
+  iv: string
+  data: string
+}
+
+const PROVIDER_KEY_PREFIX = 'provider-key:'
+const MAX_API_KEY_LENGTH = 500
+
+/**
+ * 生成に使うAPIキーを決定
+ *
+ * 利用者が入力したキーを優先し、なければWorkerシークレット、KVに暗号化して保存したキーの順に使う
+ */
+async function resolveApiKey(env: Env, provider: AIProvider, userKey: unknown): Promise<string> {
+  // カスタムエンドポイントにはサーバー側のキーを送らない（キーなしで動くサーバーもある）
+  if (provider.customEndpoint) return typeof userKey === 'string' ? userKey.trim() : ''
+  if (typeof userKey === 'string' && userKey.trim()) return userKey.trim()
+
+  const serverKey = await loadServerApiKey(env, provider)
+  if (serverKey) return serverKey
+
+  throw new ApiError('AUTH_FAILED', `${provider.label}のAPIキーが設定されていません。設定からAPIキーを入力してください`)
+}
+
+/**
+ * サーバー側に設定されたAPIキーを読み込む
+ */
+async function loadServerApiKey(env: Env, provider: AIProvider): Promise<string | undefined> {
+  if (!provider.serverKeyName) return undefined
+  if (env[provider.serverKeyName]) return env[provider.serverKeyName]
+  if (!env.KV || !env.PROVIDER_KEYS_SECRET) return undefined
+
+  const stored = await env.KV.get<EncryptedSecret>(PROVIDER_KEY_PREFIX + provider.id, 'json')
+  return stored ? decryptSecret(stored, env.PROVIDER_KEYS_SECRET) : undefined
+}
+
+/**
+ * サーバー側のAPIキーの設定元（secret: Workerシークレット / kv: KVに保存 / 未設定ならnull）
+ */
+async function serverKeySource(env: Env, provider: AIProvider): Promise<'secret' | 'kv' | null> {
+  if (!provider.serverKeyName) return null
+  if (env[provider.serverKeyName]) return 'secret'
+  if (env.KV && env.PROVIDER_KEYS_SECRET && await env.KV.get(PROVIDER_KEY_PREFIX + provider.id) !== null) return 'kv'
+  return null
+}
+
+/**
+ * 秘密の文字列からAES-GCMの鍵を作る
+ */
+async function importSecretKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret))
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+/**
+ * 文字列を暗号化（KV保存用）
+ */
+async function encryptSecret(plaintext: string, secret: string): Promise<EncryptedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await importSecretKey(secret), new TextEncoder().encode(plaintext))
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) }
+}
+
+/**
+ * KVに保存した文字列を復号
+ */
+async function decryptSecret(stored: EncryptedSecret, secret: string): Promise<string> {
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(stored.iv) },
+      await importSecretKey(secret),
+      base64ToBytes(stored.data)
+    )
+    return new TextDecoder().decode(data)
+  } catch {
+    throw new ApiError('INTERNAL_ERROR', 'サーバーに保存されたAPIキーを復号できません。PROVIDER_KEYS_SECRETを確認してください')
+  }
+}
+
+/**
+ * バイト列をBase64に変換
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+/**
+ * Base64をバイト列に変換
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), ch => ch.charCodeAt(0))
+}
+
+/**
+ * 管理用APIの認証（Authorization: Bearer <ADMIN_TOKEN>）
+ */
+async function isAdminRequest(c: Context<{ Bindings: Env }>): Promise<boolean> {
+  const token = c.env.ADMIN_TOKEN
+  const header = c.req.header('Authorization') ?? ''
+  if (!token || !header.startsWith('Bearer ')) return false
+  // 長さや一致した位置が処理時間に出ないよう、ハッシュ同士を比べる
+  return await sha256Hex(header.slice(7)) === await sha256Hex(token)
+}
+
+// 生成APIの利用制限の対象（client: 接続元ごと / project: プロジェクトごと）
+type QuotaScope = 'client' | 'project'
+
+// 利用制限の上限（0なら制限しない）
+type QuotaLimits = {
+  requestsPerMinute: number
+  generationsPerDay: number
+  tokensPerDay: number
+}
+
+// RATE_LIMITSで指定する設定
+type QuotaConfig = Partial<Record<QuotaScope, Partial<QuotaLimits>>>
+
+// 1日の利用量（KVに保存）
+type DailyUsage = {
+  generations: number
+  tokens: number
+}
+
+// 制限の対象ごとの現在の利用量
+type QuotaCounter = {
+  scope: QuotaScope
+  id: string
+  limits: QuotaLimits
+  minute: number
+  day: string
+  requests: number
+  usage: DailyUsage
+}
+
+// 残りの利用枠（上限がない項目はnull）
+type QuotaStatus = {
+  limits: QuotaLimits
+  remaining: Record<keyof QuotaLimits, number | null>
+  // 1日の利用量がリセットされる時刻（UTCの0時）
+  resetAt: string
+}
+
+// 上限を超えたリクエスト
+type QuotaExceeded = {
+  error: string
+  // 次にリクエストできるまでの秒数
+  retryAfter: number
+}
+
+const DEFAULT_QUOTA_LIMITS: Record<QuotaScope, QuotaLimits> = {
+  client: { requestsPerMinute: 6, generationsPerDay: 100, tokensPerDay: 2000000 },
+  project: { requestsPerMinute: 10, generationsPerDay: 200, tokensPerDay: 4000000 }
+}
+const QUOTA_KEY_PREFIX = 'quota:'
+const QUOTA_PROJECT_ID_PATTERN = /^[\w-]{1,64}$/
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 別オリジンからの呼び出しを許可するか（ALLOWED_ORIGINS）
+ */
+function isAllowedOrigin(origin: string, env: Env | undefined): boolean {
+  const allowed = (env?.ALLOWED_ORIGINS ?? '').split(',').map(value => value.trim()).filter(Boolean)
+  return allowed.includes('*') || allowed.includes(origin)
+}
+
+/**
+ * 利用制限の上限（RATE_LIMITSで指定されていない・不正な項目は既定値）
+ */
+function resolveQuotaLimits(env: Env, scope: QuotaScope): QuotaLimits {
+  let config: QuotaConfig = {}
+  try {
+    config = typeof env.RATE_LIMITS === 'string' ? JSON.parse(env.RATE_LIMITS) : env.RATE_LIMITS ?? {}
+  } catch {
+    // 設定が読めない場合は既定値で制限する
+  }
+
+  const limits = { ...DEFAULT_QUOTA_LIMITS[scope] }
+  const overrides: Partial<QuotaLimits> = config?.[scope] ?? {}
+  for (const key of Object.keys(limits) as (keyof QuotaLimits)[]) {
+    const value = overrides[key]
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) limits[key] = value
+  }
+  return limits
+}
+
+// KVがないため利用制限が無効になっていることを警告したか（Workerのインスタンスごとに1回だけ出す）
+let quotaDisabledWarned = false
+
+/**
+ * 接続元と（指定があれば）プロジェクトの現在の利用量を読み込む（KVがなければ警告を出して制限しない）
+ *
+ * プロジェクトIDは利用者が自由に変えられるため、KVに保存されたプロジェクトのものだけを受け付ける。
+ * IDを省略しても接続元ごとの制限は常にかかる
+ */
+async function loadQuota(c: Context<{ Bindings: Env }>, projectId: unknown, now = Date.now()): Promise<QuotaCounter[]> {
+  if (projectId !== undefined && projectId !== null &&
+    (typeof projectId !== 'string' || !QUOTA_PROJECT_ID_PATTERN.test(projectId))) {
+    throw new ApiError('INVALID_INPUT', 'プロジェクトIDが不正です')
+  }
+  const kv = c.env.KV
+  if (!kv) {
+    if (!quotaDisabledWarned) {
+      console.warn('KV binding is not configured: generation rate limits and quotas are disabled')
+      quotaDisabledWarned = true
+    }
+    return []
+  }
+
+  // IPアドレスはそのまま保存せずハッシュにする
+  const clientId = (await sha256Hex(c.req.header('CF-Connecting-IP') ?? 'local')).slice(0, 32)
+  const subjects: { scope: QuotaScope; id: string }[] = [{ scope: 'client', id: clientId }]
+  if (projectId) {
+    if (!await loadProject(kv, projectId)) {
+      throw new ApiError('NOT_FOUND', 'プロジェクトが見つかりません')
+    }
+    subjects.push({ scope: 'project', id: projectId })
+  }
+
+  const minute = Math.floor(now / MINUTE_MS)
+  const day = new Date(now).toISOString().slice(0, 10)
+  return Promise.all(subjects.map(async ({ scope, id }) => {
+    const [requests, usage] = await Promise.all([
+      kv.get(`${QUOTA_KEY_PREFIX}${scope}:${id}:minute:${minute}`),
+      kv.get<DailyUsage>(`${QUOTA_KEY_PREFIX}${scope}:${id}:day:${day}`, 'json')
+    ])
+    return {
+      scope,
+      id,
+      limits: resolveQuotaLimits(c.env, scope),
+      minute,
+      day,
+      requests: Number(requests ?? 0),
+      usage: usage ?? { generations: 0, tokens: 0 }
+    }
+  }))
+}
+
+/**
+ * 上限を確認し、超えていなければ今回のリクエストを利用量に数える
+ *
+ * KVは書き込みがすぐに反映されないため、同時に届いたリクエストは上限をわずかに超えることがある
+ */
+async function consumeQuota(env: Env, quota: QuotaCounter[], now = Date.now()): Promise<QuotaExceeded | null> {
+  for (const counter of quota) {
+    const exceeded = checkQuotaCounter(counter, now)
+    if (exceeded) return exceeded
+  }
+
+  for (const counter of quota) {
+    counter.requests++
+    counter.usage.generations++
+  }
+  await Promise.all(quota.flatMap(counter => [
+    env.KV!.put(`${QUOTA_KEY_PREFIX}${counter.scope}:${counter.id}:minute:${counter.minute}`, String(counter.requests), {
+      expirationTtl: 2 * MINUTE_MS / 1000
+    }),
+    saveDailyUsage(env.KV!, counter)
+  ]))
+  return null
+}
+
+/**
+ * 生成で使ったトークン数を1日の利用量に加える
+ */
+async function recordTokenUsage(env: Env, quota: QuotaCounter[], tokens: number): Promise<void> {
+  for (const counter of quota) {
+    counter.usage.tokens += tokens
+  }
+  await Promise.all(quota.map(counter => saveDailyUsage(env.KV!, counter)))
+}
+
+/**
+ * 1日の利用量を保存（翌日には不要になるので期限付き）
+ */
+async function saveDailyUsage(kv: KVNamespace, counter: QuotaCounter): Promise<void> {
+  await kv.put(`${QUOTA_KEY_PREFIX}${counter.scope}:${counter.id}:day:${counter.day}`, JSON.stringify(counter.usage), {
+    expirationTtl: 2 * DAY_MS / 1000
+  })
+}
+
+/**
+ * 上限に達していれば、理由と再試行できるまでの秒数を返す
+ */
+function checkQuotaCounter(counter: QuotaCounter, now: number): QuotaExceeded | null {
+  const { limits, requests, usage } = counter
+  const target = counter.scope === 'project' ? 'このプロジェクトの' : ''
+
+  if (limits.requestsPerMinute && requests >= limits.requestsPerMinute) {
+    const retryAfter = Math.ceil((MINUTE_MS - now % MINUTE_MS) / 1000)
+    return {
+      error: `${target}リクエストが多すぎます（1分間に${limits.requestsPerMinute}回まで）。${retryAfter}秒後にもう一度お試しください`,
+      retryAfter
+    }
+  }
+
+  const retryAfter = Math.ceil((DAY_MS - now % DAY_MS) / 1000)
+  const resetIn = retryAfter >= 3600 ? `約${Math.floor(retryAfter / 3600)}時間` : `約${Math.ceil(retryAfter / 60)}分`
+  if (limits.generationsPerDay && usage.generations >= limits.generationsPerDay) {
+    return {
+      error: `${target}本日の生成回数の上限（${limits.generationsPerDay}回）に達しました。${resetIn}後にリセットされます`,
+      retryAfter
+    }
+  }
+  if (limits.tokensPerDay && usage.tokens >= limits.tokensPerDay) {
+    return {
+      error: `${target}本日のトークン数の上限（${limits.tokensPerDay.toLocaleString('en-US')}）に達しました。${resetIn}後にリセットされます`,
+      retryAfter
+    }
+  }
+  return null
+}
+
+/**
+ * 残りの利用枠（対象ごと）
+ */
+function buildQuotaReport(quota: QuotaCounter[]): Partial<Record<QuotaScope, QuotaStatus>> {
+  const remaining = (limit: number, used: number) => limit ? Math.max(0, limit - used) : null
+  return Object.fromEntries(quota.map(counter => [counter.scope, {
+    limits: counter.limits,
+    remaining: {
+      requestsPerMinute: remaining(counter.limits.requestsPerMinute, counter.requests),
+      generationsPerDay: remaining(counter.limits.generationsPerDay, counter.usage.generations),
+      tokensPerDay: remaining(counter.limits.tokensPerDay, counter.usage.tokens)
+    },
+    resetAt: new Date(Date.parse(counter.day) + DAY_MS).toISOString()
+  }]))
+}
+
+/**
+ * 上限を超えたリクエストへの応答（429、Retry-Afterで再試行できる時間を伝える）
+ */
+function quotaExceededResponse(c: Context<{ Bindings: Env }>, exceeded: QuotaExceeded, quota: QuotaCounter[]) {
+  return apiError(c, 'RATE_LIMITED', exceeded.error, { retryAfter: exceeded.retryAfter, quota: buildQuotaReport(quota) })
+}
+
+// 生成1回分の使用量（KVのメタデータに保存し、レポートで集計する）
+type UsageRecord = {
+  provider: string
+  model: string
+  projectId?: string
+  inputTokens: number
+  outputTokens: number
+  // 料金が分からないモデル（カスタムエンドポイントなど）はnull
+  cost: number | null
+  estimated: boolean
+  createdAt: string
+}
+
+// プロバイダーに届いた試行1回分の使用量（失敗した試行も含めて記録する）
+type UsageEntry = Pick<GenerationResult, 'usage' | 'provider' | 'model'>
+
+// 生成結果と一緒に返す使用量（costは米ドルの概算）
+type UsageReport = TokenUsage & {
+  cost: number | null
+}
+
+// 使用量の集計
+type UsageTotals = {
+  generations: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  // 料金が分からずcostに含めていない生成の数
+  unpricedGenerations: number
+}
+
+const USAGE_KEY_PREFIX = 'usage:'
+// 使用量の記録を残す日数
+const USAGE_RETENTION_DAYS = 90
+// レポートで一度に集計できる日数
+const MAX_USAGE_REPORT_DAYS = 31
+const DEFAULT_USAGE_REPORT_DAYS = 7
+const USAGE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * モデルの料金（MODEL_PRICESの指定を優先し、なければ組み込みの料金）
+ */
+function resolveModelPrice(env: Env, provider: AIProvider, model: string): ModelPrice | undefined {
+  let overrides: Record<string, unknown> = {}
+  try {
+    overrides = typeof env.MODEL_PRICES === 'string' ? JSON.parse(env.MODEL_PRICES) : env.MODEL_PRICES ?? {}
+  } catch {
+    // 設定が読めない場合は組み込みの料金を使う
+  }
+
+  const override = overrides?.[model] as Partial<ModelPrice> | undefined
+  const isPrice = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0
+  if (override && isPrice(override.input) && isPrice(override.output)) {
+    return { input: override.input!, output: override.output! }
+  }
+  return provider.models.find(item => item.id === model)?.price
+}
+
+/**
+ * 使用量から料金を概算する（米ドル。料金が分からなければnull）
+ */
+function estimateCost(env: Env, result: Pick<GenerationResult, 'usage' | 'provider' | 'model'>): number | null {
+  const price = resolveModelPrice(env, getProvider(result.provider), result.model)
+  if (!price) return null
+  const cost = (result.usage.inputTokens * price.input + result.usage.outputTokens * price.output) / 1000000
+  return Math.round(cost * 1000000) / 1000000
+}
+
+/**
+ * 生成1回分（メタデータの提案などを含む）の使用量を記録し、料金の概算を付けて返す（KVがなければ記録しない）
+ */
+async function recordGenerationUsage(
+  env: Env,
+  result: Pick<GenerationResult, 'usage' | 'provider' | 'model'>,
+  projectId: unknown,
+  now = Date.now()
+): Promise<UsageReport> {
+  const usage = { ...result.usage, cost: estimateCost(env, result) }
+  const kv = env.KV
+  if (!kv) return usage
+
+  const createdAt = new Date(now).toISOString()
+  const record: UsageRecord = {
+    provider: result.provider,
+    model: result.model,
+    projectId: typeof projectId === 'string' && projectId ? projectId : undefined,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cost: usage.cost,
+    estimated: usage.estimated,
+    createdAt
+  }
+  // 集計は一覧のメタデータだけで行えるよう、値と同じ内容をメタデータにも持たせる
+  const key = `${USAGE_KEY_PREFIX}${createdAt.slice(0, 10)}:${createdAt}-${crypto.randomUUID().slice(0, 8)}`
+  await kv.put(key, JSON.stringify(record), {
+    metadata: record,
+    expirationTtl: USAGE_RETENTION_DAYS * DAY_MS / 1000
+  })
+  return usage
+}
+
+/**
+ * プロバイダーに届いたリクエストの使用量を、プロバイダー・モデルごとに生成1回分として記録し、利用制限のトークン数にも加える
+ *
+ * 失敗した試行やフォールバック前の試行も含めた合計を返す
+ */
+async function recordUsageLog(
+  env: Env,
+  quota: QuotaCounter[],
+  usageLog: UsageEntry[],
+  projectId: unknown
+): Promise<UsageReport> {
+  const groups = new Map<string, UsageEntry>()
+  for (const entry of usageLog) {
+    if (entry.usage.inputTokens + entry.usage.outputTokens === 0) continue
+    const key = `${entry.provider}:${entry.model}`
+    const group = groups.get(key)
+    if (group) {
+      group.usage = {
+        inputTokens: group.usage.inputTokens + entry.usage.inputTokens,
+        outputTokens: group.usage.outputTokens + entry.usage.outputTokens,
+        estimated: group.usage.estimated || entry.usage.estimated
+      }
+    } else {
+      groups.set(key, { usage: entry.usage, provider: entry.provider, model: entry.model })
+    }
+  }
+
+  const total: UsageReport = { inputTokens: 0, outputTokens: 0, estimated: false, cost: 0 }
+  for (const group of groups.values()) {
+    const report = await recordGenerationUsage(env, group, projectId)
+    total.inputTokens += report.inputTokens
+    total.outputTokens += report.outputTokens
+    total.estimated ||= report.estimated
+    total.cost = total.cost === null || report.cost === null ? null : Math.round((total.cost + report.cost) * 1000000) / 1000000
+  }
+  await recordTokenUsage(env, quota, total.inputTokens + total.outputTokens)
+  return total
+}
+
+/**
+ * レポートの集計期間（YYYY-MM-DD。未指定なら今日までの7日間）
+ */
+function parseUsageRange(from: string | undefined, to: string | undefined, now = Date.now()): string[] {
+  const toDate = to ?? new Date(now).toISOString().slice(0, 10)
+  const fromDate = from ?? new Date(Date.parse(toDate) - (DEFAULT_USAGE_REPORT_DAYS - 1) * DAY_MS).toISOString().slice(0, 10)
+  for (const date of [fromDate, toDate]) {
+    // 2月30日のような存在しない日付は読み替えずに不正とする
+    if (!USAGE_DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date)) || new Date(date).toISOString().slice(0, 10) !== date) {
+      throw new ApiError('INVALID_INPUT', '日付はYYYY-MM-DD形式で指定してください')
+    }
+  }
+
+  const days = (Date.parse(toDate) - Date.parse(fromDate)) / DAY_MS + 1
+  if (days < 1) {
+    throw new ApiError('INVALID_INPUT', '開始日は終了日以前の日付を指定してください')
+  }
+  if (days > MAX_USAGE_REPORT_DAYS) {
+    throw new ApiError('INVALID_INPUT', `集計期間は${MAX_USAGE_REPORT_DAYS}日以内で指定してください`)
+  }
+  return Array.from({ length: days }, (_, i) => new Date(Date.parse(fromDate) + i * DAY_MS).toISOString().slice(0, 10))
+}
+
+/**
+ * 期間内の使用量を日・プロバイダー・プロジェクトごとに集計する
+ */
+async function buildUsageReport(kv: KVNamespace, days: string[], projectId?: string) {
+  const emptyTotals = (): UsageTotals => ({ generations: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedGenerations: 0 })
+  const add = (totals: UsageTotals, record: UsageRecord) => {
+    totals.generations++
+    totals.inputTokens += record.inputTokens
+    totals.outputTokens += record.outputTokens
+    if (record.cost === null) totals.unpricedGenerations++
+    else totals.cost = Math.round((totals.cost + record.cost) * 1000000) / 1000000
+  }
+
+  const total = emptyTotals()
+  const byDay: Record<string, UsageTotals> = {}
+  const byProvider: Record<string, UsageTotals> = {}
+  const byProject: Record<string, UsageTotals> = {}
+  for (const day of days) {
+    byDay[day] = emptyTotals()
+    let cursor: string | undefined
+    do {
+      const page = await kv.list<UsageRecord>({ prefix: `${USAGE_KEY_PREFIX}${day}:`, cursor })
+      for (const { metadata: record } of page.keys) {
+        if (!record || (projectId && record.projectId !== projectId)) continue
+        add(total, record)
+        add(byDay[day], record)
+        add(byProvider[record.provider] ??= emptyTotals(), record)
+        // プロジェクトを指定せずに生成した分はprojectIdなしとしてまとめる
+        add(byProject[record.projectId ?? ''] ??= emptyTotals(), record)
+      }
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+  }
+
+  return {
+    from: days[0],
+    to: days[days.length - 1],
+    total,
+    byDay: Object.entries(byDay).map(([date, totals]) => ({ date, ...totals })),
+    byProvider: Object.entries(byProvider).map(([provider, totals]) => ({ provider, ...totals })),
+    byProject: Object.entries(byProject).map(([id, totals]) => ({ projectId: id || null, ...totals }))
+  }
+}
+
+/**
+ * リクエストの生成設定を検証し、プロバイダーの制限内に収める
+ */
+function resolveGenerationOptions(
+  provider: AIProvider,
+  settings: GenerationSettings,
+  attachments: Attachments
+): GenerationOptions {
+  let baseUrl: string | undefined
+  let model: Pick<ProviderModel, 'id' | 'contextWindow' | 'maxOutputTokens'> | undefined
+
+  if (provider.customEndpoint) {
+    // カスタムエンドポイント：モデル名と接続先は利用者が指定
+    baseUrl = normalizeBaseUrl(settings.baseUrl)
+    if (!settings.model?.trim()) {
+      throw new ApiError('INVALID_INPUT', 'カスタムエンドポイントのモデル名を入力してください')
+    }
+    model = {
+      id: settings.model.trim(),
+      contextWindow: CUSTOM_ENDPOINT_CONTEXT_WINDOW,
+      maxOutputTokens: CUSTOM_ENDPOINT_MAX_OUTPUT_TOKENS
+    }
+  } else {
+    const modelId = settings.model || provider.defaultModel
+    model = provider.models.find(m => m.id === modelId)
+    if (!model) {
+      throw new ApiError('INVALID_INPUT', `${provider.label}では未対応のモデルです: ${modelId}`)
+    }
+  }
+
+  if (attachments.images.length > 0 && !provider.capabilities.vision) {
+    throw new ApiError('INVALID_INPUT', `${provider.label}は画像入力に対応していません`)
+  }
+  // PDF入力に対応しないプロバイダーには抽出したテキストだけを渡すため、テキストのないPDFは使えない
+  const unreadable = attachments.documents.find(doc => !doc.text)
+  if (unreadable && !provider.capabilities.documents) {
+    throw new ApiError('INVALID_INPUT', `${provider.label}はPDF入力に対応していないため、テキストを抽出できないPDFは使えません: ${unreadable.name}`)
+  }
+
+  const temperature = typeof settings.temperature === 'number' && Number.isFinite(settings.temperature)
+    ? Math.min(Math.max(settings.temperature, 0), provider.maxTemperature)
+    : DEFAULT_TEMPERATURE
+  const maxTokens = typeof settings.maxTokens === 'number' && Number.isFinite(settings.maxTokens)
+    ? Math.min(Math.max(Math.floor(settings.maxTokens), 1000), model.maxOutputTokens)
+    : Math.min(DEFAULT_MAX_TOKENS, model.maxOutputTokens)
+
+  return { model: model.id, temperature, maxTokens, contextWindow: model.contextWindow, baseUrl }
+}
+
+/**
+ * カスタムエンドポイントのベースURLを検証（末尾のスラッシュは除去）
+ */
+function normalizeBaseUrl(baseUrl: unknown): string {
+  if (typeof baseUrl !== 'string' || !baseUrl.trim()) {
+    throw new ApiError('INVALID_INPUT', 'カスタムエンドポイントのベースURLを入力してください')
+  }
+
+  let url: URL
+  try {
+    url = new URL(baseUrl.trim())
+  } catch {
+    throw new ApiError('INVALID_INPUT', `ベースURLの形式が不正です: ${baseUrl}`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ApiError('INVALID_INPUT', 'ベースURLにはhttp://またはhttps://を指定してください')
+  }
+
+  return url.toString().replace(/\/+$/, '')
+}
+
+/**
+ * プロバイダーに直接送る添付（PDF入力に対応しないプロバイダーにはPDFを送らず、プロンプト内の抽出テキストだけにする）
+ */
+function requestAttachments(provider: AIProvider, attachments: Attachments): Attachments {
+  return provider.capabilities.documents ? attachments : { ...attachments, documents: [] }
+}
+
+/**
+ * プロバイダーAPI呼び出し（一括レスポンス）
+ */
+async function callProvider(
+  provider: AIProvider,
+  apiKey: string,
+  messages: ConversationMessage[],
+  attachments: Attachments,
+  options: GenerationOptions,
+  signal?: AbortSignal
+): Promise<ProviderOutput> {
+  const request = provider.buildRequest(apiKey, messages, requestAttachments(provider, attachments), options, false)
+  const response = await fetchProvider(provider, request, signal)
+
+  if (!response.ok) {
+    throw await providerError(provider, response)
+  }
+
+  const data = await response.json() as any
+  return {
+    text: provider.parseResponse(data),
+    truncated: provider.isTruncated(data),
+    usage: completeUsage(mergeUsage({}, provider.parseUsage(data)))
+  }
+}
+
+// エラーメッセージに含めるプロバイダーのエラー本文の最大文字数
+const MAX_PROVIDER_ERROR_LENGTH = 200
+
+// プロバイダーへのリクエストの再試行（1秒・2秒…と倍にして待つ。Retry-Afterがこれより長ければ再試行しない）
+const MAX_PROVIDER_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 20 * 1000
+
+/**
+ * プロバイダーAPIへのリクエスト
+ *
+ * レート制限・サーバーエラー・接続できない場合は、Retry-Afterか指数バックオフの時間だけ待って再試行する。
+ * 応答を受け取り始めてからのエラーは、出力が重複しないよう再試行しない
+ */
+async function fetchProvider(provider: AIProvider, request: ProviderRequest, signal?: AbortSignal): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError
+    try {
+      const response = await fetch(request.url, { ...request.init, signal })
+      if (response.ok) return response
+      error = await providerError(provider, response)
+    } catch (fetchError) {
+      if (signal?.aborted) throw fetchError
+      error = new ApiError('PROVIDER_UNAVAILABLE', `${provider.label}に接続できませんでした`)
+    }
+
+    const delay = retryDelay(error, attempt)
+    if (delay === null) throw error
+    await sleep(delay, signal)
+  }
+}
+
+/**
+ * 再試行までの待ち時間（再試行しない場合はnull）
+ */
+function retryDelay(error: ApiError, attempt: number): number | null {
+  if (!isTransientError(error) || attempt >= MAX_PROVIDER_RETRIES) return null
+
+  const retryAfter = typeof error.details.retryAfter === 'number' ? error.details.retryAfter * 1000 : 0
+  if (retryAfter > MAX_RETRY_DELAY_MS) return null
+  // 同時に失敗したリクエストが一斉に再送しないよう、少しずらす
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS / 2
+  return Math.max(retryAfter, backoff)
+}
+
+/**
+ * 時間をおけば成功する可能性があるエラーか（レート制限・過負荷・サーバーエラー・接続エラー）
+ */
+function isTransientError(error: unknown): error is ApiError {
+  return error instanceof ApiError && (error.code === 'RATE_LIMITED' || error.code === 'PROVIDER_UNAVAILABLE')
+}
+
+/**
+ * 指定した時間だけ待つ（中断されたらAbortErrorで終わる）
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * プロバイダーのエラーレスポンスをエラーコード付きの例外に変換
+ */
+async function providerError(provider: AIProvider, response: Response): Promise<ApiError> {
+  const message = providerErrorMessage(await response.text().catch(() => ''))
+  const detail = `（HTTP ${response.status}${message ? `: ${message}` : ''}）`
+
+  // GeminiはAPIキーが正しくない場合も400を返す
+  if (response.status === 401 || response.status === 403 || (response.status === 400 && /api[ _-]?key/i.test(message))) {
+    return new ApiError('AUTH_FAILED', `${provider.label}のAPIキーが正しくないか、権限がありません${detail}`)
+  }
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After'))
+    return new ApiError(
+      'RATE_LIMITED',
+      `${provider.label}のレート制限に達しました。しばらく待ってから再試行してください${detail}`,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? { retryAfter } : {}
+    )
+  }
+  if (response.status >= 400 && response.status < 500) {
+    return new ApiError('INVALID_INPUT', `${provider.label}がリクエストを受け付けませんでした${detail}`)
+  }
+  return new ApiError('PROVIDER_UNAVAILABLE', `${provider.label}が一時的に利用できません${detail}`)
+}
+
+/**
+ * ストリーム中に届いたエラーイベントを例外に変換
+ */
+function providerStreamError(provider: AIProvider, event: ProviderStreamEvent): ApiError {
+  const message = providerErrorMessage(JSON.stringify(event))
+  const detail = message ? `（${message}）` : ''
+  if (/rate_limit/.test(event.error?.type ?? '')) {
+    return new ApiError('RATE_LIMITED', `${provider.label}のレート制限に達しました。しばらく待ってから再試行してください${detail}`)
+  }
+  return new ApiError('PROVIDER_UNAVAILABLE', `${provider.label}の生成中にエラーが発生しました${detail}`)
+}
+
+/**
+ * エラー本文からメッセージ部分だけを取り出す（JSONの全文やHTMLのエラーページをそのまま見せない）
+ */
+function providerErrorMessage(body: string): string {
+  let message = body
+  try {
+    const data = JSON.parse(body)
+    const error = (Array.isArray(data) ? data[0] : data)?.error ?? data
+    message = typeof error === 'string' ? error : typeof error?.message === 'string' ? error.message : ''
+  } catch {
+    // JSONでなければ本文のテキストを使う
+  }
+
+  message = message.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+  return message.length > MAX_PROVIDER_ERROR_LENGTH ? message.slice(0, MAX_PROVIDER_ERROR_LENGTH) + '…' : message
+}
+
+const SYSTEM_PROMPT = 'あなたは優秀なWeb開発者です。ユーザーの要望に合わせて、美しいWebサイトを作成してください。'
+
+/**
+ * OpenAI APIリクエストを作成（Chat Completions）
+ *
+ * options.baseUrlを指定するとOpenAI互換の別サーバーに送る
+ */
+function buildOpenAIRequest(
+  apiKey: string,
+  messages: ConversationMessage[],
+  attachments: Attachments,
+  options: GenerationOptions,
+  stream: boolean
+): ProviderRequest {
+  // 画像はimage_url、PDFはfile（いずれもdata URL）として添付
+  const { images, documents } = attachments
+  const toContent = (text: string) => images.length > 0 || documents.length > 0
+    ? [
+        { type: 'text', text: text },
+        ...images.map(image => ({
+          type: 'image_url',
+          image_url: { url: `data:${image.mediaType};base64,${image.base64}` }
+        })),
+        ...documents.map(doc => ({
+          type: 'file',
+          file: { filename: doc.name, file_data: `data:application/pdf;base64,${doc.base64}` }
+        }))
+      ]
+    : text
+
+  // 自前のサーバーではAPIキーが不要な場合がある
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`
+  }
+
+  return {
+    url: `${options.baseUrl ?? 'https://api.openai.com/v1'}/chat/completions`,
+    init: {
+      method: 'POST',
+      headers: headers,
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          {
+            role: 'system',
+            content: SYSTEM_PROMPT
+          },
+          ...messages.map(message => ({
+            role: message.role,
+            content: message.attachments ? toContent(message.content) : message.content
+          }))
+        ],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream: stream,
+        // ストリームの最後に使用量を送ってもらう（互換サーバーは未対応の項目を拒否することがあるため、OpenAIのみ）
+        ...(stream && !options.baseUrl ? { stream_options: { include_usage: true } } : {})
+      })
+    }
+  }
+}
+
+/**
+ * レスポンスに本文の項目がない（想定外の形式）場合のエラー
+ */
+function unexpectedResponseError(provider: string): ApiError {
+  return new ApiError('INVALID_OUTPUT', `${provider}から想定外の形式のレスポンスが返されました。もう一度お試しください`)
+}
+
+/**
+ * OpenAI形式のレスポンスから本文を取り出す
+ */
+function parseOpenAIResponse(data: any): string {
+  const message = data?.choices?.[0]?.message
+  if (!message) throw unexpectedResponseError('AI')
+  return message.content || ''
+}
+
+/**
+ * OpenAI形式のストリームイベントから差分テキストを取り出す
+ */
+function parseOpenAIStreamDelta(event: ProviderStreamEvent): string | undefined {
+  return event.choices?.[0]?.delta?.content
+}
+
+/**
+ * OpenAI形式のレスポンス・ストリームイベントが上限で打ち切られたか
+ */
+function isOpenAITruncated(data: any): boolean {
+  return data.choices?.[0]?.finish_reason === 'length'
+}
+
+/**
+ * OpenAI形式のレスポンス・ストリームイベントからトークン使用量を取り出す（ストリームでは最後のイベントのみ）
+ */
+function parseOpenAIUsage(data: any): Partial<ProviderUsage> | undefined {
+  if (!data.usage) return undefined
+  return { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+}
+
+// OpenAI
+registerProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  models: [
+    { id: 'gpt-4.1', label: 'GPT-4.1', contextWindow: 1047576, maxOutputTokens: 32768, price: { input: 2, output: 8 } },
+    { id: 'gpt-4.1-mini', label: 'GPT-4.1 mini', contextWindow: 1047576, maxOutputTokens: 32768, price: { input: 0.4, output: 1.6 } },
+    { id: 'gpt-4o', label: 'GPT-4o', contextWindow: 128000, maxOutputTokens: 16384, price: { input: 2.5, output: 10 } }
+  ],
+  defaultModel: 'gpt-4.1',
+  maxTemperature: 2,
+  capabilities: { vision: true, documents: true, streaming: true },
+  serverKeyName: 'OPENAI_API_KEY',
+  buildRequest: buildOpenAIRequest,
+  parseResponse: parseOpenAIResponse,
+  parseStreamDelta: parseOpenAIStreamDelta,
+  isTruncated: isOpenAITruncated,
+  parseUsage: parseOpenAIUsage
+})
+
+// OpenAI互換のカスタムエンドポイント（Ollama / vLLM / LM Studio など）
+registerProvider({
+  id: 'custom',
+  label: 'Custom',
+  models: [],
+  defaultModel: '',
+  maxTemperature: 2,
+  // PDFはfileパーツに対応しないサーバーが多いため、抽出したテキストのみ渡す
+  capabilities: { vision: true, documents: false, streaming: true },
+  customEndpoint: true,
+  buildRequest: buildOpenAIRequest,
+  parseResponse: parseOpenAIResponse,
+  parseStreamDelta: parseOpenAIStreamDelta,
+  isTruncated: isOpenAITruncated,
+  parseUsage: parseOpenAIUsage
+})
+
+/**
+ * Google Gemini APIリクエストを作成（generateContent）
+ */
+function buildGeminiRequest(
+  apiKey: string,
+  messages: ConversationMessage[],
+  attachments: Attachments,
+  options: GenerationOptions,
+  stream: boolean
+): ProviderRequest {
+  // 画像・PDFはinline_dataとして添付
+  const { images, documents } = attachments
+  const attachmentParts = [
+    ...images.map(image => ({
+      inline_data: { mime_type: image.mediaType, data: image.base64 }
+    })),
+    ...documents.map(doc => ({
+      inline_data: { mime_type: 'application/pdf', data: doc.base64 }
+    }))
+  ]
+
+  const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent'
+
+  return {
+    // APIキーはURLに残らないようヘッダーで渡す
+    url: `https://generativelanguage.googleapis.com/v1beta/models/${options.model}:${method}`,
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey
+      },
+      body: JSON.stringify({
+        // Geminiではアシスタントの発言をmodelロールで表す
+        contents: messages.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }, ...(message.attachments ? attachmentParts : [])]
+        })),
+        generationConfig: {
+          temperature: options.temperature,
+          maxOutputTokens: options.maxTokens
+        }
+      })
+    }
+  }
+}
+
+// Google Gemini
+registerProvider({
+  id: 'gemini',
+  label: 'Gemini',
+  models: [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 0.3, output: 2.5 } },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 1.25, output: 10 } },
+    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', contextWindow: 1048576, maxOutputTokens: 8192, price: { input: 0.1, output: 0.4 } }
+  ],
+  defaultModel: 'gemini-2.5-flash',
+  maxTemperature: 2,
+  capabilities: { vision: true, documents: true, streaming: true },
+  serverKeyName: 'GEMINI_API_KEY',
+  buildRequest: buildGeminiRequest,
+  parseResponse: (data) => {
+    const candidate = data?.candidates?.[0]
+    if (!candidate) throw unexpectedResponseError('Gemini')
+    return candidate.content?.parts?.[0]?.text || ''
+  },
+  parseStreamDelta: (event) => event.candidates?.[0]?.content?.parts?.[0]?.text,
+  isTruncated: (data) => data.candidates?.[0]?.finishReason === 'MAX_TOKENS',
+  // ストリームでは各イベントにその時点までの累計が入る（思考トークンも出力として課金される）
+  parseUsage: (data) => data.usageMetadata && {
+    inputTokens: data.usageMetadata.promptTokenCount,
+    outputTokens: (data.usageMetadata.candidatesTokenCount ?? 0) + (data.usageMetadata.thoughtsTokenCount ?? 0)
+  }
+})
+
+/**
+ * Anthropic Claude APIリクエストを作成（Messages）
+ */
+function buildClaudeRequest(
+  apiKey: string,
+  messages: ConversationMessage[],
+  attachments: Attachments,
+  options: GenerationOptions,
+  stream: boolean
+): ProviderRequest {
+  // 画像はimage、PDFはdocumentブロックとして、テキストより前に添付
+  const { images, documents } = attachments
+  const toContent = (text: string) => images.length > 0 || documents.length > 0
+    ? [
+        ...documents.map(doc => ({
+          type: 'document',
+          source: { type: 'base64', media_type: 'application/pdf', data: doc.base64 }
+        })),
+        ...images.map(image => ({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mediaType, data: image.base64 }
+        })),
+        { type: 'text', text: text }
+      ]
+    : text
+
+  return {
+    url: 'https://api.anthropic.com/v1/messages',
+    init: {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: options.model,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        system: SYSTEM_PROMPT,
+        messages: messages.map(message => ({
+          role: message.role,
+          content: message.attachments ? toContent(message.content) : message.content
+        })),
+        stream: stream
+      })
+    }
+  }
+}
+
+// Anthropic Claude
+registerProvider({
+  id: 'claude',
+  label: 'Claude',
+  models: [
+    { id: 'claude-opus-4-5', label: 'Claude Opus 4.5', contextWindow: 200000, maxOutputTokens: 64000, price: { input: 5, output: 25 } },
+    { id: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5', contextWindow: 200000, maxOutputTokens: 64000, price: { input: 3, output: 15 } },
+    { id: 'claude-haiku-4-5', label: 'Claude Haiku 4.5', contextWindow: 200000, maxOutputTokens: 64000, price: { input: 1, output: 5 } }
+  ],
+  defaultModel: 'claude-opus-4-5',
+  maxTemperature: 1,
+  capabilities: { vision: true, documents: true, streaming: true },
+  serverKeyName: 'ANTHROPIC_API_KEY',
+  buildRequest: buildClaudeRequest,
+  parseResponse: (data) => {
+    if (!Array.isArray(data?.content)) throw unexpectedResponseError('Claude')
+    return data.content[0]?.text || ''
+  },
+  parseStreamDelta: (event) => event.type === 'content_block_delta' ? event.delta?.text : undefined,
+  // 一括レスポンスはstop_reason、ストリームはmessage_deltaイベントのdelta.stop_reason
+  isTruncated: (data) => (data.stop_reason ?? data.delta?.stop_reason) === 'max_tokens',
+  // ストリームはmessage_startイベントのmessage.usageと、message_deltaイベントのusage（出力トークンの累計）
+  parseUsage: (data) => {
+    const usage = data.usage ?? data.message?.usage
+    return usage && { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens }
+  }
+})
+
+/**
+ * AIの出力からファイルを抽出
+ *
+ * <<<FILE: パス>>> 〜 <<<END FILE>>> 形式のブロックをファイルとして扱う。
+ * ブロックがない場合は従来どおり単一のHTMLとしてindex.htmlに割り当てる
+ */
+function extractCode(text: string): ExtractedFiles {
+  const { files, deleted } = extractFileBlocks(text)
+  if (Object.keys(files).length === 0 && deleted.length === 0) {
+    return { files: { [SITE_ENTRY_FILE]: extractHTML(text) }, deleted: [] }
+  }
+  return { files, deleted }
+}
+
+/**
+ * FILEブロックとDELETEマーカーのみを抽出（ブロックがなければ空）
+ */
+function extractFileBlocks(text: string): ExtractedFiles {
+  const files: SiteFiles = {}
+  for (const match of text.matchAll(FILE_BLOCK_PATTERN)) {
+    const path = match[1]
+    if (SITE_FILE_PATTERN.test(path)) {
+      files[path] = stripCodeFence(match[2])
+    }
+  }
+
+  const deleted = [...text.matchAll(DELETE_MARKER_PATTERN)]
+    .map(match => match[1])
+    .filter(path => SITE_FILE_PATTERN.test(path) && path !== SITE_ENTRY_FILE)
+
+  return { files, deleted }
+}
+
+/**
+ * 単一のHTMLを抽出（コードブロックまたは<!DOCTYPE html>〜</html>）
+ */
+function extractHTML(text: string): string {
+  const codeBlockMatch = text.match(/```(?:html)?\n([\s\S]+?)\n```/)
+  if (codeBlockMatch) {
+    return codeBlockMatch[1].trim()
+  }
+
+  const htmlMatch = text.match(/<!DOCTYPE html[\s\S]+?<\/html>/i)
+  if (htmlMatch) {
+    return htmlMatch[0]
+  }
+
+  return text.trim()
+}
+
+/**
+ * ファイル内容を囲むコードブロック（```css など）を外す
+ */
+function stripCodeFence(content: string): string {
+  const trimmed = content.trim()
+  const fenceMatch = trimmed.match(/^```[\w-]*\n([\s\S]*?)\n?```$/)
+  return fenceMatch ? fenceMatch[1].trim() : trimmed
+}
+
+/**
+ * 保存済みのコードをファイルに分解（マーカーがなければ単一のindex.html）
+ */
+function parseSiteFiles(code: string): SiteFiles {
+  if (!code) return {}
+  if (!code.includes('<<<FILE:')) return { [SITE_ENTRY_FILE]: code }
+  return extractCode(code).files
+}
+
+/**
+ * 保存済みのコードから1ファイルを取り出す（存在しなければundefined）
+ */
+function getSiteFile(code: string, path: string): string | undefined {
+  if (!SITE_FILE_PATTERN.test(path)) return undefined
+  const files = parseSiteFiles(code)
+  return Object.hasOwn(files, path) ? files[path] : undefined
+}
+
+/**
+ * ファイルを表示・保存用の順序に並べる（index.html → 他のページ → CSS → JavaScript）
+ */
+function sortSiteFiles(files: SiteFiles): SiteFiles {
+  const rank = (path: string) =>
+    path === SITE_ENTRY_FILE ? 0 : path.endsWith('.html') ? 1 : path.endsWith('.css') ? 2 : 3
+  const paths = Object.keys(files).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+  return Object.fromEntries(paths.map(path => [path, files[path]]))
+}
+
+/**
+ * ファイルをマーカー形式の1つの文字列にまとめる
+ */
+function formatSiteFiles(files: SiteFiles): string {
+  return Object.entries(sortSiteFiles(files))
+    .map(([path, content]) => `<<<FILE: ${path}>>>\n${content}\n<<<END FILE>>>`)
+    .join('\n\n')
+}
+
+/**
+ * プロジェクトに保存するコードを作成
+ *
+ * index.htmlだけのサイトは従来と同じくHTMLそのものを保存する
+ */
+function serializeSiteFiles(files: SiteFiles): string {
+  const paths = Object.keys(files)
+  if (paths.length === 1 && paths[0] === SITE_ENTRY_FILE) {
+    return files[SITE_ENTRY_FILE]
+  }
+  return formatSiteFiles(files)
+}
+
+/**
+ * AIの出力を既存のファイルに反映し、生成結果とファイル操作の一覧を作成
+ */
+function buildGenerationResult(text: string, existingCode?: string): AppliedOutput {
+  const before = parseSiteFiles(existingCode ?? '')
+  const { files, deleted } = extractCode(text)
+
+  // 修正モードでは出力されなかったファイルをそのまま残す
+  const after: SiteFiles = existingCode ? { ...before, ...files } : files
+  for (const path of deleted) {
+    delete after[path]
+  }
+
+  if (!after[SITE_ENTRY_FILE]) {
+    throw new ApiError('INVALID_OUTPUT', '生成結果にindex.htmlが含まれていません')
+  }
+
+  const sorted = sortSiteFiles(after)
+  return {
+    code: serializeSiteFiles(sorted),
+    files: sorted,
+    operations: diffSiteFiles(before, sorted),
+    mode: 'full'
+  }
+}
+
+/**
+ * 差分編集の出力を既存のファイルに適用
+ *
+ * 置換対象が見つからない・複数に一致するなど、きれいに適用できない場合は例外を投げる
+ */
+function buildPatchResult(text: string, existingCode: string): AppliedOutput {
+  const before = parseSiteFiles(existingCode)
+  const { files, deleted } = extractFileBlocks(text)
+  const edits = parseFileEdits(text)
+
+  if ((text.match(/<<<EDIT:/g) ?? []).length !== edits.length) {
+    throw new Error('差分の形式が正しくありません')
+  }
+  if (edits.length === 0 && Object.keys(files).length === 0 && deleted.length === 0) {
+    throw new Error('差分が出力されませんでした')
+  }
+
+  const after: SiteFiles = { ...before, ...files }
+  for (const path of deleted) {
+    delete after[path]
+  }
+
+  // 変更範囲は文字位置で記録し、後の編集で位置がずれたら補正する
+  const ranges: Record<string, { start: number; end: number }[]> = {}
+  for (const edit of edits) {
+    if (!Object.hasOwn(after, edit.path)) {
+      throw new Error(`${edit.path} が見つかりません`)
+    }
+    const content = after[edit.path]
+    const target = findEditTarget(content, edit)
+    const start = target.start
+    // 行ごと削除する場合は残った改行も取り除く
+    const end = !edit.replace && content[target.end] === '\n' && (start === 0 || content[start - 1] === '\n')
+      ? target.end + 1
+      : target.end
+    after[edit.path] = content.slice(0, start) + edit.replace + content.slice(end)
+
+    const delta = edit.replace.length - (end - start)
+    const merged = { start, end: start + edit.replace.length }
+    const others: { start: number; end: number }[] = []
+    for (const range of ranges[edit.path] ?? []) {
+      if (range.end < start) {
+        others.push(range)
+      } else if (range.start > end) {
+        others.push({ start: range.start + delta, end: range.end + delta })
+      } else {
+        // 重なる範囲はまとめる
+        merged.start = Math.min(merged.start, range.start)
+        merged.end = Math.max(merged.end, range.end + delta)
+      }
+    }
+    ranges[edit.path] = [...others, merged].sort((a, b) => a.start - b.start)
+  }
+
+  if (!after[SITE_ENTRY_FILE]) {
+    throw new Error('生成結果にindex.htmlが含まれていません')
+  }
+
+  const sorted = sortSiteFiles(after)
+  const operations = diffSiteFiles(before, sorted).map(operation => {
+    // FILEブロックで全体を書き換えたファイルは範囲を付けない
+    if (operation.type !== 'modified' || operation.path in files || !ranges[operation.path]) return operation
+    const content = sorted[operation.path]
+    return {
+      ...operation,
+      regions: ranges[operation.path].map(range => ({
+        startLine: lineNumberAt(content, range.start),
+        endLine: lineNumberAt(content, Math.max(range.start, range.end - 1))
+      }))
+    }
+  })
+
+  return { code: serializeSiteFiles(sorted), files: sorted, operations, mode: 'patch' }
+}
+
+/**
+ * 差分編集のブロックを抽出
+ */
+function parseFileEdits(text: string): FileEdit[] {
+  return [...text.matchAll(EDIT_BLOCK_PATTERN)].map(match => ({
+    path: match[1],
+    search: match[2],
+    replace: match[3]
+  }))
+}
+
+/**
+ * 置換対象の位置を探す（1箇所だけに一致する必要がある）
+ *
+ * 完全一致しない場合は、各行の前後の空白を無視して行単位で照合する
+ */
+function findEditTarget(content: string, edit: FileEdit): { start: number; end: number } {
+  if (!edit.search.trim()) {
+    throw new Error(`${edit.path} の置換対象が空です`)
+  }
+
+  const first = content.indexOf(edit.search)
+  if (first !== -1) {
+    if (content.indexOf(edit.search, first + 1) !== -1) {
+      throw new Error(`${edit.path} の置換対象が複数箇所に一致しました`)
+    }
+    return { start: first, end: first + edit.search.length }
+  }
+
+  const lines = content.split('\n')
+  const searchLines = edit.search.split('\n').map(line => line.trim())
+  while (searchLines.length > 0 && !searchLines[searchLines.length - 1]) searchLines.pop()
+  while (searchLines.length > 0 && !searchLines[0]) searchLines.shift()
+
+  const matches: number[] = []
+  for (let i = 0; i + searchLines.length <= lines.length; i++) {
+    if (searchLines.every((line, j) => lines[i + j].trim() === line)) matches.push(i)
+  }
+  if (matches.length === 0) {
+    throw new Error(`${edit.path} に置換対象が見つかりません`)
+  }
+  if (matches.length > 1) {
+    throw new Error(`${edit.path} の置換対象が複数箇所に一致しました`)
+  }
+
+  const start = lines.slice(0, matches[0]).join('\n').length + (matches[0] > 0 ? 1 : 0)
+  const end = start + lines.slice(matches[0], matches[0] + searchLines.length).join('\n').length
+  return { start, end }
+}
+
+/**
+ * 文字位置から行番号（1始まり）を求める
+ */
+function lineNumberAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length
+}
+
+/**
+ * 生成前後のファイルを比較し、作成・変更・削除されたファイルを列挙
+ */
+function diffSiteFiles(before: SiteFiles, after: SiteFiles): FileOperation[] {
+  const operations: FileOperation[] = []
+  for (const [path, content] of Object.entries(after)) {
+    if (!(path in before)) {
+      operations.push({ type: 'created', path })
+    } else if (before[path] !== content) {
+      operations.push({ type: 'modified', path })
+    }
+  }
+  for (const path of Object.keys(before)) {
+    if (!(path in after)) {
+      operations.push({ type: 'deleted', path })
+    }
+  }
+  return operations
+}
+
+/**
+ * ファイルの拡張子からContent-Typeを決定
+ */
+function siteContentType(path: string): string {
+  if (path.endsWith('.css')) return 'text/css; charset=utf-8'
+  if (path.endsWith('.js')) return 'text/javascript; charset=utf-8'
+  return 'text/html; charset=utf-8'
+}
+
+// API: 生成したWebサイトのアクセシビリティ診断（codeはプロジェクトに保存する形式）
+app.post('/api/audit', async (c) => {
+  try {
+    const body = await readJsonBody(c)
+    if (typeof body.code !== 'string' || !body.code) {
+      throw new ApiError('INVALID_INPUT', '診断するWebサイトがありません')
+    }
+    if (new TextEncoder().encode(body.code).length > MAX_PROJECT_CODE_BYTES) {
+      throw new ApiError('INVALID_INPUT', 'コードが大きすぎるため診断できません')
+    }
+    return c.json({ success: true, issues: auditAccessibility(parseSiteFiles(body.code)) })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// アクセシビリティ診断の項目
+type AccessibilityRule =
+  | 'html-lang'
+  | 'img-alt'
+  | 'form-label'
+  | 'heading-order'
+  | 'color-contrast'
+  | 'link-name'
+  | 'button-name'
+
+// アクセシビリティ診断で見つかった問題
+type AccessibilityIssue = {
+  rule: AccessibilityRule
+  file: string
+  // 要素の開始タグがある行（1始まり）
+  line: number
+  // 問題のある要素の開始タグ（長い場合は省略）
+  element: string
+  message: string
+}
+
+// Tailwindの色クラスとその色（#なしの16進数）
+type TailwindColor = {
+  name: string
+  hex: string
+}
+
+// HTMLの開始・終了タグ
+type HtmlTag = {
+  name: string
+  attributes: Record<string, string>
+  closing: boolean
+  // タグの開始・終了位置（文字位置）
+  start: number
+  end: number
+}
+
+// 1回の診断で返す問題の最大数
+const MAX_ACCESSIBILITY_ISSUES = 50
+const MAX_AUDIT_ELEMENT_LENGTH = 120
+const HTML_TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g
+const HTML_ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+// 終了タグを持たない要素
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+// ラベルが不要な（値やボタン名が表示される）input
+const UNLABELED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image'])
+
+// Tailwind CSSの既定のカラーパレット（50, 100, 200, …, 900, 950）
+const TAILWIND_SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950']
+const TAILWIND_PALETTE: Record<string, string[]> = {
+  slate: ['f8fafc', 'f1f5f9', 'e2e8f0', 'cbd5e1', '94a3b8', '64748b', '475569', '334155', '1e293b', '0f172a', '020617'],
+  gray: ['f9fafb', 'f3f4f6', 'e5e7eb', 'd1d5db', '9ca3af', '6b7280', '4b5563', '374151', '1f2937', '111827', '030712'],
+  zinc: ['fafafa', 'f4f4f5', 'e4e4e7', 'd4d4d8', 'a1a1aa', '71717a', '52525b', '3f3f46', '27272a', '18181b', '09090b'],
+  neutral: ['fafafa', 'f5f5f5', 'e5e5e5', 'd4d4d4', 'a3a3a3', '737373', '525252', '404040', '262626', '171717', '0a0a0a'],
+  stone: ['fafaf9', 'f5f5f4', 'e7e5e4', 'd6d3d1', 'a8a29e', '78716c', '57534e', '44403c', '292524', '1c1917', '0c0a09'],
+  red: ['fef2f2', 'fee2e2', 'fecaca', 'fca5a5', 'f87171', 'ef4444', 'dc2626', 'b91c1c', '991b1b', '7f1d1d', '450a0a'],
+  orange: ['fff7ed', 'ffedd5', 'fed7aa', 'fdba74', 'fb923c', 'f97316', 'ea580c', 'c2410c', '9a3412', '7c2d12', '431407'],
+  amber: ['fffbeb', 'fef3c7', 'fde68a', 'fcd34d', 'fbbf24', 'f59e0b', 'd97706', 'b45309', '92400e', '78350f', '451a03'],
+  yellow: ['fefce8', 'fef9c3', 'fef08a', 'fde047', 'facc15', 'eab308', 'ca8a04', 'a16207', '854d0e', '713f12', '422006'],
+  lime: ['f7fee7', 'ecfccb', 'd9f99d', 'bef264', 'a3e635', '84cc16', '65a30d', '4d7c0f', '3f6212', '365314', '1a2e05'],
+  green: ['f0fdf4', 'dcfce7', 'bbf7d0', '86efac', '4ade80', '22c55e', '16a34a', '15803d', '166534', '14532d', '052e16'],
+  emerald: ['ecfdf5', 'd1fae5', 'a7f3d0', '6ee7b7', '34d399', '10b981', '059669', '047857', '065f46', '064e3b', '022c22'],
+  teal: ['f0fdfa', 'ccfbf1', '99f6e4', '5eead4', '2dd4bf', '14b8a6', '0d9488', '0f766e', '115e59', '134e4a', '042f2e'],
+  cyan: ['ecfeff', 'cffafe', 'a5f3fc', '67e8f9', '22d3ee', '06b6d4', '0891b2', '0e7490', '155e75', '164e63', '083344'],
+  sky: ['f0f9ff', 'e0f2fe', 'bae6fd', '7dd3fc', '38bdf8', '0ea5e9', '0284c7', '0369a1', '075985', '0c4a6e', '082f49'],
+  blue: ['eff6ff', 'dbeafe', 'bfdbfe', '93c5fd', '60a5fa', '3b82f6', '2563eb', '1d4ed8', '1e40af', '1e3a8a', '172554'],
+  indigo: ['eef2ff', 'e0e7ff', 'c7d2fe', 'a5b4fc', '818cf8', '6366f1', '4f46e5', '4338ca', '3730a3', '312e81', '1e1b4b'],
+  violet: ['f5f3ff', 'ede9fe', 'ddd6fe', 'c4b5fd', 'a78bfa', '8b5cf6', '7c3aed', '6d28d9', '5b21b6', '4c1d95', '2e1065'],
+  purple: ['faf5ff', 'f3e8ff', 'e9d5ff', 'd8b4fe', 'c084fc', 'a855f7', '9333ea', '7e22ce', '6b21a8', '581c87', '3b0764'],
+  fuchsia: ['fdf4ff', 'fae8ff', 'f5d0fe', 'f0abfc', 'e879f9', 'd946ef', 'c026d3', 'a21caf', '86198f', '701a75', '4a044e'],
+  pink: ['fdf2f8', 'fce7f3', 'fbcfe8', 'f9a8d4', 'f472b6', 'ec4899', 'db2777', 'be185d', '9d174d', '831843', '500724'],
+  rose: ['fff1f2', 'ffe4e6', 'fecdd3', 'fda4af', 'fb7185', 'f43f5e', 'e11d48', 'be123c', '9f1239', '881337', '4c0519']
+}
+
+/**
+ * 生成したWebサイトのHTMLファイルをアクセシビリティの観点で診断する
+ *
+ * 画像の代替テキスト・フォームのラベル・見出しの順序・lang属性・Tailwindの色の組み合わせのコントラスト・
+ * 名前のないリンクとボタンを確認する（スクリプトで追加される要素やCSSファイルの指定は対象外）
+ */
+function auditAccessibility(files: SiteFiles): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = []
+  for (const [path, content] of Object.entries(sortSiteFiles(files))) {
+    if (!path.endsWith('.html')) continue
+    issues.push(...auditHtmlDocument(path, content))
+  }
+  return issues.slice(0, MAX_ACCESSIBILITY_ISSUES)
+}
+
+/**
+ * 1つのHTMLファイルを診断する
+ */
+function auditHtmlDocument(path: string, html: string): AccessibilityIssue[] {
+  // コメントとscript・styleの中身はタグとして読まないよう、位置を保ったまま空白にする
+  const source = html.replace(/<!--[\s\S]*?-->|<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, match => match.replace(/[^\n]/g, ' '))
+  const tags = scanHtmlTags(source)
+  const issues: AccessibilityIssue[] = []
+  const seen = new Set<string>()
+  const report = (rule: AccessibilityRule, tag: HtmlTag, message: string) => {
+    // 同じ色の組み合わせなどが繰り返し使われている場合は最初の1か所だけ報告する
+    const key = rule === 'color-contrast' ? `${rule}:${message}` : `${rule}:${tag.start}`
+    if (seen.has(key)) return
+    seen.add(key)
+    const element = html.slice(tag.start, tag.end).replace(/\s+/g, ' ')
+    issues.push({
+      rule,
+      file: path,
+      line: lineNumberAt(html, tag.start),
+      element: element.length > MAX_AUDIT_ELEMENT_LENGTH ? element.slice(0, MAX_AUDIT_ELEMENT_LENGTH - 1) + '…' : element,
+      message
+    })
+  }
+
+  const labelTargets = new Set(tags.filter(tag => tag.name === 'label' && !tag.closing && tag.attributes.for).map(tag => tag.attributes.for))
+  const hasName = (tag: HtmlTag) =>
+    ['aria-label', 'aria-labelledby', 'title'].some(name => tag.attributes[name]?.trim())
+
+  // 開いている要素と、親要素から受け継ぐ背景色（Tailwindのbg-*クラス）
+  const stack: { name: string; background?: TailwindColor }[] = []
+  const lowerSource = source.toLowerCase()
+  let previousHeading = 0
+  let hasH1 = false
+  let firstHeading: HtmlTag | undefined
+
+  for (const tag of tags) {
+    if (tag.closing) {
+      const index = stack.map(entry => entry.name).lastIndexOf(tag.name)
+      if (index >= 0) stack.length = index
+      continue
+    }
+
+    const { name, attributes } = tag
+    if (name === 'html' && !attributes.lang?.trim()) {
+      report('html-lang', tag, 'html要素にlang属性（ページの言語）がありません')
+    }
+
+    if (name === 'img' && attributes.alt === undefined && attributes['aria-hidden'] !== 'true' && attributes.role !== 'presentation') {
+      report('img-alt', tag, '画像にalt属性（代替テキスト）がありません。装飾目的の画像は alt="" にしてください')
+    }
+
+    if ((name === 'input' && !UNLABELED_INPUT_TYPES.has((attributes.type ?? 'text').toLowerCase())) || name === 'select' || name === 'textarea') {
+      const labelled = hasName(tag) ||
+        (attributes.id !== undefined && labelTargets.has(attributes.id)) ||
+        stack.some(entry => entry.name === 'label')
+      if (!labelled) {
+        report('form-label', tag, 'フォームの入力欄にラベルがありません（label要素またはaria-labelで名前を付けてください）')
+      }
+    }
+
+    const heading = /^h([1-6])$/.exec(name)
+    if (heading) {
+      const level = Number(heading[1])
+      if (level === 1) hasH1 = true
+      firstHeading ??= tag
+      if (previousHeading && level > previousHeading + 1) {
+        report('heading-order', tag, `見出しのレベルが飛んでいます（h${previousHeading}の次にh${level}）`)
+      }
+      previousHeading = level
+    }
+
+    if ((name === 'a' && attributes.href !== undefined) || name === 'button') {
+      const closeIndex = lowerSource.indexOf(`</${name}`, tag.end)
+      const inner = source.slice(tag.end, closeIndex >= 0 ? closeIndex : tag.end)
+      if (!hasName(tag) && !accessibleText(inner)) {
+        report(name === 'a' ? 'link-name' : 'button-name', tag, name === 'a'
+          ? 'リンクにテキストがありません（アイコンだけのリンクにはaria-labelを付けてください）'
+          : 'ボタンにテキストがありません（アイコンだけのボタンにはaria-labelを付けてください）')
+      }
+    }
+
+    const classes = (attributes.class ?? '').split(/\s+/)
+    const background = tailwindColor(classes, 'bg') ?? stack[stack.length - 1]?.background
+    const foreground = tailwindColor(classes, 'text')
+    if (foreground && background) {
+      const ratio = contrastRatio(foreground.hex, background.hex)
+      const required = isLargeText(classes) ? 3 : 4.5
+      if (ratio < required) {
+        report('color-contrast', tag,
+          `文字色と背景色のコントラストが不足しています（${foreground.name} / ${background.name}、${ratio.toFixed(2)}:1、必要な比率は${required}:1以上）`)
+      }
+    }
+
+    if (!VOID_ELEMENTS.has(name)) {
+      stack.push({ name, background })
+    }
+  }
+
+  if (firstHeading && !hasH1) {
+    report('heading-order', firstHeading, 'ページにh1見出しがありません')
+  }
+  return issues.sort((a, b) => a.line - b.line)
+}
+
+/**
+ * HTMLのタグを出現順に読み取る
+ */
+function scanHtmlTags(html: string): HtmlTag[] {
+  return [...html.matchAll(HTML_TAG_PATTERN)].map(match => {
+    const attributes: Record<string, string> = {}
+    for (const attribute of match[3].matchAll(HTML_ATTRIBUTE_PATTERN)) {
+      attributes[attribute[1].toLowerCase()] = attribute[2] ?? attribute[3] ?? attribute[4] ?? ''
+    }
+    return {
+      name: match[2].toLowerCase(),
+      attributes,
+      closing: match[1] === '/',
+      start: match.index!,
+      end: match.index! + match[0].length
+    }
+  })
+}
+
+/**
+ * 要素の中身から読み上げられるテキスト（画像のalt・aria-labelを含む）
+ */
+function accessibleText(inner: string): string {
+  return inner
+    .replace(HTML_TAG_PATTERN, match => {
+      const [tag] = scanHtmlTags(match)
+      return ` ${tag?.attributes['aria-label'] ?? tag?.attributes.alt ?? ''} `
+    })
+    .replace(/&nbsp;|&#160;/g, ' ')
+    .trim()
+}
+
+/**
+ * Tailwindの色クラス（text-slate-500 / bg-white など）から色を求める
+ *
+ * hover:などの条件付きのクラスと、不透明度を指定したクラス（/50）は判定しない
+ */
+function tailwindColor(classes: string[], prefix: 'text' | 'bg'): TailwindColor | undefined {
+  for (const name of [...classes].reverse()) {
+    if (!name.startsWith(prefix + '-')) continue
+    const color = name.slice(prefix.length + 1)
+    if (color === 'white') return { name, hex: 'ffffff' }
+    if (color === 'black') return { name, hex: '000000' }
+    const match = /^([a-z]+)-(\d+)$/.exec(color)
+    const shade = match ? TAILWIND_SHADES.indexOf(match[2]) : -1
+    if (match && shade >= 0 && TAILWIND_PALETTE[match[1]]) {
+      return { name, hex: TAILWIND_PALETTE[match[1]][shade] }
+    }
+  }
+  return undefined
+}
+
+/**
+ * 大きな文字か（WCAGでは24px以上、または太字の約19px以上はコントラスト比3:1でよい）
+ */
+function isLargeText(classes: string[]): boolean {
+  const size = classes.find(name => /^text-(?:xl|[2-9]xl)$/.test(name))
+  if (!size) return false
+  return size !== 'text-xl' || classes.some(name => /^font-(?:bold|extrabold|black|semibold)$/.test(name))
+}
+
+/**
+ * 2色のコントラスト比（WCAG 2の相対輝度から計算）
+ */
+function contrastRatio(foreground: string, background: string): number {
+  const luminance = (hex: string) => {
+    const [r, g, b] = [0, 2, 4].map(i => {
+      const value = parseInt(hex.slice(i, i + 2), 16) / 255
+      return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+    })
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b
+  }
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+// API: ページごとの検索エンジン・SNS向けメタデータ（codeはプロジェクトに保存する形式）
+app.post('/api/seo', async (c) => {
+  try {
+    const files = parseSeoCode(await readJsonBody(c))
+    const pages = Object.entries(sortSiteFiles(files))
+      .filter(([path]) => path.endsWith('.html'))
+      .map(([path, html]) => ({ path, metadata: extractPageMetadata(html) }))
+    return c.json({ success: true, pages })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// API: メタデータをページのheadに書き込み、更新後のコードを返す
+app.post('/api/seo/apply', async (c) => {
+  try {
+    const body = await readJsonBody(c)
+    const files = parseSeoCode(body)
+    const path = parseSeoPage(files, body.path)
+    const html = applyPageMetadata(files[path], validatePageMetadata(body.metadata))
+    return c.json({ success: true, code: serializeSiteFiles({ ...files, [path]: html }) })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// API: ページの内容からメタデータをAIに提案させる（生成と同じく利用制限・フォールバックの対象）
+app.post('/api/seo/suggest', async (c) => {
+  try {
+    const body = await readJsonBody(c)
+    const files = parseSeoCode(body)
+    const path = parseSeoPage(files, body.path)
+    const selection = parseProviderSelection(body)
+    // モデルや接続先もここで確認し、利用枠を消費する前に不正な設定を弾く
+    resolveGenerationOptions(selection.provider, selection.settings, { images: [], documents: [] })
+    // プロンプトはページから組み立てる（見出し・本文は長さを制限済みなので、ユーザー入力の文字数制限は当てはめない）
+    const prompt = buildSeoPrompt(path, files[path])
+
+    const candidates = await resolveProviderCandidates(c.env, selection, await resolveApiKey(c.env, selection.provider, selection.apiKey))
+    const quota = await loadQuota(c, selection.projectId)
+    const exceeded = await consumeQuota(c.env, quota)
+    if (exceeded) return quotaExceededResponse(c, exceeded, quota)
+
+    const failedProviders: { provider: string; error: string }[] = []
+    const usageLog: UsageEntry[] = []
+    let result: MetadataSuggestion
+    let usage: UsageReport
+    try {
+      result = await withProviderFallback(
+        candidates,
+        (candidate) => suggestPageMetadata(candidate, prompt, usageLog),
+        async (failed, _next, error) => failedProviders.push({ provider: failed.id, error: error.message })
+      )
+    } finally {
+      usage = await recordUsageLog(c.env, quota, usageLog, selection.projectId)
+    }
+
+    return c.json({
+      success: true,
+      metadata: result.metadata,
+      provider: result.provider,
+      model: result.model,
+      usage,
+      failedProviders,
+      quota: buildQuotaReport(quota)
+    })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// ページのメタデータ（空文字は未設定）
+type PageMetadata = {
+  title: string
+  description: string
+  // 正規URL（og:urlにも使う）
+  canonical: string
+  ogTitle: string
+  ogDescription: string
+  ogImage: string
+  ogType: string
+  twitterCard: string
+  // 構造化データ（JSON-LD）
+  structuredData: string
+}
+
+// AIが提案したメタデータ
+type MetadataSuggestion = Pick<GenerationResult, 'usage' | 'provider' | 'model'> & {
+  metadata: Partial<PageMetadata>
+}
+
+// metaタグで表す項目（twitter:*はOpen Graphの値を使い、同じ項目では先に書いたタグを読み込む）
+const SEO_META_TAGS: { field: keyof PageMetadata; attribute: 'name' | 'property'; key: string }[] = [
+  { field: 'description', attribute: 'name', key: 'description' },
+  { field: 'ogTitle', attribute: 'property', key: 'og:title' },
+  { field: 'ogDescription', attribute: 'property', key: 'og:description' },
+  { field: 'ogImage', attribute: 'property', key: 'og:image' },
+  { field: 'ogType', attribute: 'property', key: 'og:type' },
+  { field: 'canonical', attribute: 'property', key: 'og:url' },
+  { field: 'twitterCard', attribute: 'name', key: 'twitter:card' },
+  { field: 'ogTitle', attribute: 'name', key: 'twitter:title' },
+  { field: 'ogDescription', attribute: 'name', key: 'twitter:description' },
+  { field: 'ogImage', attribute: 'name', key: 'twitter:image' }
+]
+const SEO_TEXT_FIELDS = ['title', 'description', 'ogTitle', 'ogDescription'] as const
+const SEO_URL_FIELDS = ['canonical', 'ogImage'] as const
+const MAX_SEO_TEXT_LENGTH = 300
+const MAX_SEO_URL_LENGTH = 2000
+const MAX_STRUCTURED_DATA_LENGTH = 10000
+const OG_TYPES = ['website', 'article', 'profile', 'product']
+const TWITTER_CARDS = ['summary', 'summary_large_image']
+// AIに渡すページ本文の最大文字数
+const SEO_PAGE_TEXT_LENGTH = 4000
+// AIに渡す見出し・タイトル・画像の説明それぞれの最大文字数と、見出し全体の最大文字数
+const SEO_HEADING_LENGTH = 100
+const SEO_HEADINGS_TOTAL_LENGTH = 1000
+// これより長い画像URLはog:imageの候補としてAIに渡さない
+const SEO_IMAGE_URL_LENGTH = 500
+const STRUCTURED_DATA_PATTERN = /<script\b[^>]*\btype\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/i
+
+/**
+ * メタデータを扱うサイトのコードを検証し、ファイルに分解する
+ */
+function parseSeoCode(body: Record<string, any>): SiteFiles {
+  if (typeof body.code !== 'string' || !body.code) {
+    throw new ApiError('INVALID_INPUT', 'Webサイトがありません')
+  }
+  if (new TextEncoder().encode(body.code).length > MAX_PROJECT_CODE_BYTES) {
+    throw new ApiError('INVALID_INPUT', 'コードが大きすぎます')
+  }
+  return parseSiteFiles(body.code)
+}
+
+/**
+ * メタデータを扱うページ（HTMLファイル）を検証する
+ */
+function parseSeoPage(files: SiteFiles, path: unknown): string {
+  if (typeof path !== 'string' || !SITE_FILE_PATTERN.test(path) || !path.endsWith('.html')) {
+    throw new ApiError('INVALID_INPUT', 'ページの指定が不正です')
+  }
+  if (!Object.hasOwn(files, path)) {
+    throw new ApiError('NOT_FOUND', 'ページが見つかりません')
+  }
+  return path
+}
+
+/**
+ * ページのhead要素からメタデータを読み取る
+ */
+function extractPageMetadata(html: string): PageMetadata {
+  const head = html.slice(0, headEnd(html) ?? html.length)
+  const metadata: PageMetadata = {
+    title: decodeHtmlEntities(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(head)?.[1] ?? '').trim(),
+    description: '',
+    canonical: '',
+    ogTitle: '',
+    ogDescription: '',
+    ogImage: '',
+    ogType: '',
+    twitterCard: '',
+    structuredData: STRUCTURED_DATA_PATTERN.exec(head)?.[1].trim() ?? ''
+  }
+
+  const tags = scanHtmlTags(head)
+  const canonical = tags.find(isCanonicalLink)
+  if (canonical) metadata.canonical = decodeHtmlEntities(canonical.attributes.href ?? '').trim()
+  for (const { field, attribute, key } of SEO_META_TAGS) {
+    const tag = tags.find(tag => tag.name === 'meta' && tag.attributes[attribute]?.toLowerCase() === key)
+    if (tag && !metadata[field]) metadata[field] = decodeHtmlEntities(tag.attributes.content ?? '').trim()
+  }
+  return metadata
+}
+
+/**
+ * メタデータをページのhead要素に書き込む（既存のタグは置き換え、空の項目はタグを削除する）
+ */
+function applyPageMetadata(html: string, metadata: PageMetadata): string {
+  if (headEnd(html) === undefined) {
+    throw new ApiError('INVALID_INPUT', 'ページにhead要素がないため、メタデータを書き込めません')
+  }
+  const findTag = (match: (tag: HtmlTag) => boolean) => (head: string) => scanHtmlTags(head).find(match)
+  const findPattern = (pattern: RegExp) => (head: string) => {
+    const found = pattern.exec(head)
+    return found ? { start: found.index, end: found.index + found[0].length } : undefined
+  }
+
+  let result = setHeadElement(html, findPattern(/<title\b[^>]*>[\s\S]*?<\/title\s*>/i),
+    metadata.title && `<title>${escapeHtmlText(metadata.title)}</title>`)
+  result = setHeadElement(result, findTag(isCanonicalLink),
+    metadata.canonical && `<link rel="canonical" href="${escapeHtmlText(metadata.canonical)}">`)
+  for (const { field, attribute, key } of SEO_META_TAGS) {
+    result = setHeadElement(result, findTag(tag => tag.name === 'meta' && tag.attributes[attribute]?.toLowerCase() === key),
+      metadata[field] && `<meta ${attribute}="${key}" content="${escapeHtmlText(metadata[field])}">`)
+  }
+  return setHeadElement(result, findPattern(STRUCTURED_DATA_PATTERN),
+    metadata.structuredData && `<script type="application/ld+json">\n${metadata.structuredData}\n</script>`)
+}
+
+/**
+ * head要素内の要素を置き換える（見つからなければ</head>の直前に追加し、elementが空なら削除する）
+ */
+function setHeadElement(html: string, find: (head: string) => { start: number; end: number } | undefined, element: string): string {
+  const end = headEnd(html)!
+  const found = find(html.slice(0, end))
+  if (found) {
+    if (element) return html.slice(0, found.start) + element + html.slice(found.end)
+    // 削除した要素の行が空行として残らないようにする
+    const lineStart = html.slice(0, found.start).search(/[ \t]*$/)
+    const lineEnd = html.slice(found.end).match(/^[ \t]*\n?/)![0].length + found.end
+    return html.slice(0, lineStart) + html.slice(lineEnd)
+  }
+  if (!element) return html
+
+  // </head>が行頭にあれば、その1段深いインデントで前の行に追加する
+  const lineStart = html.lastIndexOf('\n', end - 1) + 1
+  const indent = html.slice(lineStart, end)
+  return /^[ \t]*$/.test(indent)
+    ? html.slice(0, lineStart) + `${indent}  ${element}\n` + html.slice(lineStart)
+    : html.slice(0, end) + element + html.slice(end)
+}
+
+/**
+ * </head>の位置（なければundefined）
+ */
+function headEnd(html: string): number | undefined {
+  const index = html.search(/<\/head\s*>/i)
+  return index >= 0 ? index : undefined
+}
+
+function isCanonicalLink(tag: HtmlTag): boolean {
+  return tag.name === 'link' && (tag.attributes.rel ?? '').toLowerCase().split(/\s+/).includes('canonical')
+}
+
+/**
+ * 入力されたメタデータを検証する
+ */
+function validatePageMetadata(value: unknown): PageMetadata {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError('INVALID_INPUT', 'メタデータの形式が不正です')
+  }
+  const input = value as Record<string, unknown>
+  const field = (key: keyof PageMetadata) => {
+    const text = input[key] ?? ''
+    if (typeof text !== 'string') {
+      throw new ApiError('INVALID_INPUT', `${key}の形式が不正です`)
+    }
+    return text.trim()
+  }
+
+  const metadata = {} as PageMetadata
+  for (const key of SEO_TEXT_FIELDS) {
+    metadata[key] = field(key).replace(/\s+/g, ' ')
+    if (metadata[key].length > MAX_SEO_TEXT_LENGTH) {
+      throw new ApiError('INVALID_INPUT', `${key}は${MAX_SEO_TEXT_LENGTH}文字以内にしてください`)
+    }
+  }
+  for (const key of SEO_URL_FIELDS) {
+    metadata[key] = field(key)
+    if (metadata[key] && (metadata[key].length > MAX_SEO_URL_LENGTH || !/^https?:\/\/[^\s"<>]+$/i.test(metadata[key]))) {
+      throw new ApiError('INVALID_INPUT', `${key}にはhttp://またはhttps://で始まるURLを指定してください`)
+    }
+  }
+
+  metadata.ogType = field('ogType')
+  if (metadata.ogType && !OG_TYPES.includes(metadata.ogType)) {
+    throw new ApiError('INVALID_INPUT', `ogTypeには次のいずれかを指定してください: ${OG_TYPES.join(', ')}`)
+  }
+  metadata.twitterCard = field('twitterCard')
+  if (metadata.twitterCard && !TWITTER_CARDS.includes(metadata.twitterCard)) {
+    throw new ApiError('INVALID_INPUT', `twitterCardには次のいずれかを指定してください: ${TWITTER_CARDS.join(', ')}`)
+  }
+
+  metadata.structuredData = field('structuredData')
+  if (metadata.structuredData.length > MAX_STRUCTURED_DATA_LENGTH) {
+    throw new ApiError('INVALID_INPUT', `構造化データは${MAX_STRUCTURED_DATA_LENGTH}文字以内にしてください`)
+  }
+  if (metadata.structuredData) {
+    metadata.structuredData = formatStructuredData(metadata.structuredData)
+  }
+  return metadata
+}
+
+/**
+ * 構造化データ（JSON-LD）を整形する（scriptタグを閉じないよう<はエスケープする）
+ */
+function formatStructuredData(text: string): string {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ApiError('INVALID_INPUT', '構造化データがJSONとして読み取れません')
+  }
+  if (!data || typeof data !== 'object') {
+    throw new ApiError('INVALID_INPUT', '構造化データにはJSONのオブジェクトまたは配列を指定してください')
+  }
+  return JSON.stringify(data, null, 2).replace(/</g, '\\u003c')
+}
+
+/**
+ * メタデータを提案させるプロンプト（ページの見出し・本文・画像を渡す）
+ */
+function buildSeoPrompt(path: string, html: string): string {
+  const title = extractPageMetadata(html).title.slice(0, SEO_HEADING_LENGTH)
+  const body = html.slice(headEnd(html) ?? 0)
+    .replace(/<!--[\s\S]*?-->|<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, ' ')
+  const tags = scanHtmlTags(body)
+  const headings = tags.filter(tag => /^h[1-3]$/.test(tag.name) && !tag.closing)
+    .map(tag => accessibleText(body.slice(tag.end, body.toLowerCase().indexOf(`</${tag.name}`, tag.end)))
+      .replace(/\s+/g, ' ').trim().slice(0, SEO_HEADING_LENGTH))
+    .filter(Boolean)
+    .slice(0, 20)
+  let headingsLength = 0
+  const includedHeadings = headings.filter(heading => (headingsLength += heading.length) <= SEO_HEADINGS_TOTAL_LENGTH)
+  const images = tags.filter(tag => tag.name === 'img' && /^https?:\/\//i.test(tag.attributes.src ?? '') &&
+    (tag.attributes.src ?? '').length <= SEO_IMAGE_URL_LENGTH)
+    .map(tag => {
+      const alt = (tag.attributes.alt ?? '').replace(/\s+/g, ' ').trim().slice(0, SEO_HEADING_LENGTH)
+      return `${tag.attributes.src}${alt ? `（${alt}）` : ''}`
+    })
+    .slice(0, 10)
+  const text = decodeHtmlEntities(accessibleText(body)).replace(/\s+/g, ' ').slice(0, SEO_PAGE_TEXT_LENGTH)
+
+  return `次のWebページの内容から、検索エンジンとSNSでの表示に使うメタデータを提案してください。
+
+【ページ】${path}
+【現在のタイトル】${title || '（なし）'}
+【見出し】
+${includedHeadings.map(heading => `- ${heading}`).join('\n') || '（なし）'}
+【本文（抜粋）】
+${text || '（なし）'}
+【画像】
+${images.map(image => `- ${image}`).join('\n') || '（なし）'}
+
+【出力形式】
+次のキーを持つJSONオブジェクトのみを出力してください（説明文やコードブロックは不要です）。
+- title: ページのタイトル（30文字前後。サイト名が分かれば含める）
+- description: 検索結果に表示する説明文（120文字前後）
+- ogTitle / ogDescription: SNSで共有したときのタイトルと説明文
+- ogType: ${OG_TYPES.join(' / ')} のいずれか
+- ogImage: 上の画像から選んだSNS用の画像のURL（適切なものがなければ空文字）
+- twitterCard: 画像があれば summary_large_image、なければ summary
+- structuredData: ページの内容に合ったschema.orgの構造化データ（JSON-LDのオブジェクト）`
+}
+
+/**
+ * 1つのプロバイダーでメタデータを提案させる（提案を読み取れなくても使用量はusageLogに残る）
+ */
+async function suggestPageMetadata(candidate: ProviderCandidate, prompt: string, usageLog: UsageEntry[]): Promise<MetadataSuggestion> {
+  const { provider } = candidate
+  const attachments: Attachments = { images: [], documents: [] }
+  const options = resolveGenerationOptions(provider, candidate.settings, attachments)
+  const messages: ConversationMessage[] = [{ role: 'user', content: prompt }]
+  const output = await callProvider(provider, candidate.apiKey, messages, attachments, options)
+
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, estimated: false }
+  addRequestUsage(usage, messages, output)
+  usageLog.push({ usage, provider: provider.id, model: options.model })
+  return { metadata: parseSuggestedMetadata(output.text), usage, provider: provider.id, model: options.model }
+}
+
+/**
+ * AIが出力したJSONからメタデータの提案を取り出す（形式が合わない項目は捨てる）
+ */
+function parseSuggestedMetadata(text: string): Partial<PageMetadata> {
+  const json = stripCodeFence(text)
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json.slice(json.indexOf('{'), json.lastIndexOf('}') + 1))
+  } catch {
+    parsed = null
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new ApiError('INVALID_OUTPUT', 'AIの提案を読み取れませんでした。もう一度お試しください')
+  }
+  const data = parsed as Record<string, unknown>
+
+  const metadata: Partial<PageMetadata> = {}
+  for (const key of SEO_TEXT_FIELDS) {
+    const text = data[key]
+    if (typeof text === 'string' && text.trim()) {
+      metadata[key] = text.trim().replace(/\s+/g, ' ').slice(0, MAX_SEO_TEXT_LENGTH)
+    }
+  }
+  const { ogImage, ogType, twitterCard, structuredData } = data
+  if (typeof ogImage === 'string' && /^https?:\/\/[^\s"<>]+$/i.test(ogImage.trim())) {
+    metadata.ogImage = ogImage.trim()
+  }
+  if (typeof ogType === 'string' && OG_TYPES.includes(ogType)) metadata.ogType = ogType
+  if (typeof twitterCard === 'string' && TWITTER_CARDS.includes(twitterCard)) metadata.twitterCard = twitterCard
+  if (structuredData && typeof structuredData === 'object') {
+    metadata.structuredData = JSON.stringify(structuredData, null, 2)
+  }
+  return metadata
+}
+
+/**
+ * HTMLのテキスト・属性値に入れる文字をエスケープ
+ */
+function escapeHtmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * よく使われる文字参照を元の文字に戻す
+ */
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&nbsp;|&#160;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+// API: サイトの多言語版を作る（レイアウトはそのままにテキストだけを翻訳し、全ページに言語切り替えを付ける）
+// 元のページを編集した後に同じ指定で呼び出すと多言語版を作り直し、翻訳メモリにない（変更された）テキストだけをAIに翻訳させる
+app.post('/api/translate', async (c) => {
+  try {
+    const body = await readJsonBody(c)
+    const files = parseSeoCode(body)
+    const options = parseTranslateOptions(body)
+    const memory = validateTranslationMemory(body.memory)
+    const selection = parseProviderSelection(body)
+    // モデルや接続先もここで確認し、利用枠を消費する前に不正な設定を弾く
+    resolveGenerationOptions(selection.provider, selection.settings, { images: [], documents: [] })
+    const pages = extractLocalizedPages(files, options)
+
+    const pageBytes = pages.reduce((total, page) => total + new TextEncoder().encode(page.html).length, 0)
+    if (pageBytes * (options.locales.length + 1) > MAX_PROJECT_CODE_BYTES) {
+      throw new ApiError('INVALID_INPUT', '翻訳後のコードが大きすぎます。翻訳する言語を減らしてください')
+    }
+
+    const texts = [...new Set(pages.flatMap(translatableTexts))]
+    const pending = options.locales
+      .map(locale => ({ locale, texts: texts.filter(text => lookupTranslation(memory, locale, text) === undefined) }))
+      .filter(item => item.texts.length > 0)
+
+    let quota: QuotaCounter[] = []
+    let usage: UsageReport | null = null
+    const batches: TranslationBatch[] = []
+    const usageLog: UsageEntry[] = []
+    const failedProviders: { provider: string; error: string }[] = []
+    if (pending.length > 0) {
+      let candidates = await resolveProviderCandidates(c.env, selection, await resolveApiKey(c.env, selection.provider, selection.apiKey))
+      quota = await loadQuota(c, selection.projectId)
+      const exceeded = await consumeQuota(c.env, quota)
+      if (exceeded) return quotaExceededResponse(c, exceeded, quota)
+
+      try {
+        for (const { locale, texts } of pending) {
+          for (const batch of batchTranslationTexts(texts)) {
+            const result = await withProviderFallback(
+              candidates,
+              (candidate) => requestTranslations(candidate, batch, options.sourceLocale, locale, usageLog),
+              async (failed, _next, error) => failedProviders.push({ provider: failed.id, error: error.message })
+            )
+            // 切り替えた後のプロバイダーで残りも翻訳する
+            candidates = candidates.slice(candidates.findIndex(candidate => candidate.provider.id === result.provider))
+            batches.push(result)
+            memory[locale] = {
+              ...memory[locale],
+              ...Object.fromEntries(batch.map((text, i) => [text, result.translations[i] || text]))
+            }
+          }
+        }
+      } finally {
+        // 途中で失敗しても、それまでの翻訳（読み取れなかった出力を含む）に使ったトークンは記録する
+        usage = await recordUsageLog(c.env, quota, usageLog, selection.projectId)
+      }
+    }
+
+    const localized = buildLocalizedSite(files, pages, options, memory)
+    const code = serializeSiteFiles(localized)
+    if (new TextEncoder().encode(code).length > MAX_PROJECT_CODE_BYTES) {
+      throw new ApiError('INVALID_INPUT', '翻訳後のコードが大きすぎます。翻訳する言語を減らしてください')
+    }
+
+    const localization: LocalizationSettings = {
+      sourceLocale: options.sourceLocale,
+      locales: options.locales,
+      memory: pruneTranslationMemory(memory, options.locales, texts)
+    }
+    const last = batches[batches.length - 1]
+    return c.json({
+      success: true,
+      code,
+      operations: diffSiteFiles(files, localized),
+      localization,
+      usage,
+      provider: last?.provider,
+      model: last?.model,
+      failedProviders,
+      quota: quota.length > 0 ? buildQuotaReport(quota) : undefined
+    })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// 多言語版の作成の指定
+type TranslateOptions = {
+  // 元のページの言語
+  sourceLocale: string
+  // 翻訳先の言語（元のページの言語を除く）
+  locales: string[]
+  // 公開中のサイトのURL（末尾は/。指定するとhreflangと正規URLを絶対URLにする）
+  siteUrl?: string
+}
+
+// 翻訳メモリ（翻訳先の言語 → 元のテキスト → 訳文）
+type TranslationMemory = Record<string, Record<string, string>>
+
+// プロジェクトに保存する多言語化の設定（元のページを編集した後の同期に使う）
+type LocalizationSettings = {
+  sourceLocale: string
+  locales: string[]
+  memory: TranslationMemory
+}
+
+// HTMLのテキストノードまたは属性値
+type HtmlValue = {
+  // 値の開始・終了位置（属性値は引用符を含まない）
+  start: number
+  end: number
+  // 属性値なら、その要素の開始タグと属性名
+  tag?: HtmlTag
+  attribute?: string
+  // 引用符で囲まれていない属性値か（書き換えるときは引用符で囲む）
+  unquoted: boolean
+  // 翻訳しない要素（code・svg・translate="no"など）の中か
+  notranslate: boolean
+}
+
+// 多言語版の元になるページ
+type LocalizedPage = {
+  path: string
+  // 言語切り替えを取り除いたHTML
+  html: string
+  values: HtmlValue[]
+}
+
+// AIがまとめて翻訳した結果（textsと同じ順番）
+type TranslationBatch = Pick<GenerationResult, 'usage' | 'provider' | 'model'> & {
+  translations: string[]
+}
+
+// ページの言語とhreflangで示す言語ごとのURL
+type AlternatePage = {
+  locale: string
+  path: string
+}
+
+const MAX_TRANSLATION_LOCALES = 10
+const MAX_LOCALE_LENGTH = 35
+// 翻訳メモリの最大サイズ（JSONの文字数）と、1件のテキスト・訳文の最大文字数
+const MAX_TRANSLATION_MEMORY_LENGTH = 4000000
+const MAX_TRANSLATION_TEXT_LENGTH = 2000
+// 1回の依頼で翻訳させるテキストの最大文字数・件数
+const TRANSLATION_BATCH_CHARS = 3000
+const TRANSLATION_BATCH_SIZE = 100
+// 多言語版のページのhtml要素に付け、値に元のページのパスを入れる属性
+const I18N_SOURCE_ATTRIBUTE = 'data-i18n-source'
+const LANGUAGE_SWITCHER_PATTERN = /[ \t]*<!-- language-switcher -->[\s\S]*?<!-- \/language-switcher -->[ \t]*\n?/g
+// 中のテキストを翻訳しない要素
+const NOTRANSLATE_ELEMENTS = new Set(['code', 'kbd', 'samp', 'var', 'pre', 'textarea', 'svg', 'math'])
+// 翻訳する属性（inputのvalueとmetaのcontentは種類を見て判断する）
+const TRANSLATABLE_ATTRIBUTES = new Set(['alt', 'title', 'placeholder', 'aria-label'])
+const TRANSLATABLE_INPUT_TYPES = new Set(['submit', 'button', 'reset'])
+const TRANSLATABLE_META = new Set(['description', 'og:title', 'og:description', 'twitter:title', 'twitter:description'])
+// 同じサイト内のページへのリンク（./about.html#team など）
+const LOCAL_PAGE_LINK_PATTERN = /^(?:\.\/)?([A-Za-z0-9_-]+\.html)([?#].*)?$/
+
+/**
+ * 多言語版の作成の指定を検証する（翻訳先の重複と元の言語は除く）
+ */
+function parseTranslateOptions(body: Record<string, any>): TranslateOptions {
+  const sourceLocale = parseLocale(body.sourceLocale)
+  if (!Array.isArray(body.locales)) {
+    throw new ApiError('INVALID_INPUT', 'localesには翻訳先の言語の配列を指定してください')
+  }
+  const locales = [...new Set(body.locales.map(parseLocale))].filter(locale => locale !== sourceLocale)
+  if (locales.length > MAX_TRANSLATION_LOCALES) {
+    throw new ApiError('INVALID_INPUT', `翻訳先の言語は最大${MAX_TRANSLATION_LOCALES}件までです`)
+  }
+
+  const { siteUrl } = body
+  if (siteUrl != null && (typeof siteUrl !== 'string' || siteUrl.length > MAX_SEO_URL_LENGTH || !/^https?:\/\/[^\s"<>]+$/i.test(siteUrl))) {
+    throw new ApiError('INVALID_INPUT', 'siteUrlにはhttp(s)のURLを指定してください')
+  }
+  return { sourceLocale, locales, siteUrl: siteUrl ? siteUrl.replace(/\/?$/, '/') : undefined }
+}
+
+/**
+ * 言語の指定（BCP 47の言語タグ）を検証し、正規の形（zh-Hant など）にする
+ */
+function parseLocale(value: unknown): string {
+  if (typeof value === 'string' && value.length <= MAX_LOCALE_LENGTH) {
+    try {
+      const [locale] = Intl.getCanonicalLocales(value)
+      if (locale) return locale
+    } catch {
+      // 言語タグとして読めない値は下で不正とする
+    }
+  }
+  throw new ApiError('INVALID_INPUT', `言語の指定が不正です: ${String(value).slice(0, MAX_LOCALE_LENGTH)}`)
+}
+
+/**
+ * 入力された翻訳メモリを検証する（長すぎるテキスト・訳文は捨てる）
+ */
+function validateTranslationMemory(value: unknown): TranslationMemory {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError('INVALID_INPUT', '翻訳メモリの形式が不正です')
+  }
+  if (JSON.stringify(value).length > MAX_TRANSLATION_MEMORY_LENGTH) {
+    throw new ApiError('INVALID_INPUT', '翻訳メモリが大きすぎます')
+  }
+
+  const memory: TranslationMemory = {}
+  for (const [locale, translations] of Object.entries(value)) {
+    if (!translations || typeof translations !== 'object' || Array.isArray(translations)) {
+      throw new ApiError('INVALID_INPUT', '翻訳メモリの形式が不正です')
+    }
+    memory[parseLocale(locale)] = Object.fromEntries(Object.entries(translations).filter((entry): entry is [string, string] =>
+      typeof entry[1] === 'string' && entry[0].length <= MAX_TRANSLATION_TEXT_LENGTH && entry[1].length <= MAX_TRANSLATION_TEXT_LENGTH))
+  }
+  if (Object.keys(memory).length > MAX_TRANSLATION_LOCALES) {
+    throw new ApiError('INVALID_INPUT', `翻訳メモリの言語は最大${MAX_TRANSLATION_LOCALES}件までです`)
+  }
+  return memory
+}
+
+/**
+ * プロジェクトに保存する多言語化の設定を検証する
+ */
+function validateLocalizationSettings(value: unknown): LocalizationSettings | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError('INVALID_INPUT', '多言語化の設定の形式が不正です')
+  }
+  const { sourceLocale, locales } = parseTranslateOptions(value)
+  return { sourceLocale, locales, memory: validateTranslationMemory((value as Record<string, unknown>).memory) }
+}
+
+function lookupTranslation(memory: TranslationMemory, locale: string, text: string): string | undefined {
+  const translations = memory[locale]
+  return translations && Object.hasOwn(translations, text) ? translations[text] : undefined
+}
+
+/**
+ * 返す翻訳メモリを、いまのページで使っている翻訳先の言語とテキストだけにする
+ */
+function pruneTranslationMemory(memory: TranslationMemory, locales: string[], texts: string[]): TranslationMemory {
+  return Object.fromEntries(locales.map(locale => [
+    locale,
+    Object.fromEntries(texts.flatMap(text => {
+      const translation = lookupTranslation(memory, locale, text)
+      return translation === undefined ? [] : [[text, translation]]
+    }))
+  ]))
+}
+
+/**
+ * 多言語版の元になるページ（以前に作った多言語版を除くHTMLページ）を読み取る
+ */
+function extractLocalizedPages(files: SiteFiles, options: TranslateOptions): LocalizedPage[] {
+  const pages = Object.entries(sortSiteFiles(files))
+    .filter(([path, html]) => path.endsWith('.html') && htmlElement(html)?.attributes[I18N_SOURCE_ATTRIBUTE] === undefined)
+    .map(([path, html]): LocalizedPage => {
+      if (!htmlElement(html) || headEnd(html) === undefined) {
+        throw new ApiError('INVALID_INPUT', `${path}にhtml要素またはhead要素がないため翻訳できません`)
+      }
+      const source = html.replace(LANGUAGE_SWITCHER_PATTERN, '')
+      return { path, html: source, values: scanHtmlValues(source) }
+    })
+  if (pages.length === 0) {
+    throw new ApiError('INVALID_INPUT', '翻訳するページがありません')
+  }
+
+  for (const page of pages) {
+    for (const locale of options.locales) {
+      const path = localizedPagePath(page.path, locale)
+      if (pages.some(other => other.path === path)) {
+        throw new ApiError('INVALID_INPUT', `${path}は既にあるため、${page.path}の${locale}版を作れません`)
+      }
+    }
+  }
+  return pages
+}
+
+/**
+ * 多言語版のページのパス（index.html → index-en.html）
+ */
+function localizedPagePath(path: string, locale: string): string {
+  return `${path.slice(0, -'.html'.length)}-${locale.toLowerCase()}.html`
+}
+
+/**
+ * 最初のhtml要素の開始タグ
+ */
+function htmlElement(html: string): HtmlTag | undefined {
+  const match = /<html\b[^>]*>/i.exec(html)
+  const tag = match ? scanHtmlTags(match[0])[0] : undefined
+  return match && tag ? { ...tag, start: match.index, end: match.index + match[0].length } : undefined
+}
+
+/**
+ * html要素の属性を設定する（同じ名前の属性は置き換える）
+ */
+function setHtmlAttributes(html: string, attributes: Record<string, string>): string {
+  const element = htmlElement(html)!
+  const kept = [...html.slice(element.start + '<html'.length, element.end - 1).matchAll(HTML_ATTRIBUTE_PATTERN)]
+    .filter(attribute => !Object.hasOwn(attributes, attribute[1].toLowerCase()))
+    .map(attribute => attribute[0])
+  const added = Object.entries(attributes).map(([name, value]) => `${name}="${escapeHtmlText(value)}"`)
+  return html.slice(0, element.start) + `<html ${[...kept, ...added].join(' ')}>` + html.slice(element.end)
+}
+
+/**
+ * HTMLのテキストノードと属性値を出現順に読み取る（DOCTYPE・コメント・script・styleは除く）
+ */
+function scanHtmlValues(html: string): HtmlValue[] {
+  // 除く部分はNUL文字で埋め、前後のテキストとつながらないようにする
+  const masked = html.replace(/<!--[\s\S]*?-->|<![^>]*>|<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, match => '\0'.repeat(match.length))
+  const values: HtmlValue[] = []
+  // 翻訳しない要素の中にいる間は、その要素名と入れ子の深さを持つ
+  let skip: { name: string; depth: number } | undefined
+  let textStart = 0
+
+  for (const tag of scanHtmlTags(masked)) {
+    for (const text of masked.slice(textStart, tag.start).matchAll(/[^\0]+/g)) {
+      const start = textStart + text.index!
+      values.push({ start, end: start + text[0].length, unquoted: false, notranslate: Boolean(skip) })
+    }
+    textStart = tag.end
+    if (tag.closing) {
+      if (skip?.name === tag.name && --skip.depth === 0) skip = undefined
+      continue
+    }
+
+    const notranslate = Boolean(skip) || tag.attributes.translate?.toLowerCase() === 'no' ||
+      (tag.attributes.class ?? '').split(/\s+/).includes('notranslate')
+    const offset = tag.start + 1 + tag.name.length
+    for (const attribute of masked.slice(offset, tag.end).matchAll(HTML_ATTRIBUTE_PATTERN)) {
+      const value = attribute[2] ?? attribute[3] ?? attribute[4]
+      if (value === undefined) continue
+      const end = offset + attribute.index! + attribute[0].length - (attribute[4] === undefined ? 1 : 0)
+      values.push({
+        start: end - value.length,
+        end,
+        tag,
+        attribute: attribute[1].toLowerCase(),
+        unquoted: attribute[4] !== undefined,
+        notranslate
+      })
+    }
+
+    if (skip?.name === tag.name) {
+      skip.depth++
+    } else if (!skip && (notranslate || NOTRANSLATE_ELEMENTS.has(tag.name)) &&
+      !VOID_ELEMENTS.has(tag.name) && masked[tag.end - 2] !== '/') {
+      skip = { name: tag.name, depth: 1 }
+    }
+  }
+  return values
+}
+
+/**
+ * 翻訳するテキストノード・属性値か
+ */
+function isTranslatableValue(value: HtmlValue): boolean {
+  if (value.notranslate) return false
+  const { tag, attribute } = value
+  if (!tag || !attribute) return true
+  if (TRANSLATABLE_ATTRIBUTES.has(attribute)) return true
+  if (tag.name === 'input' && attribute === 'value') {
+    return TRANSLATABLE_INPUT_TYPES.has((tag.attributes.type ?? '').toLowerCase())
+  }
+  if (tag.name === 'meta' && attribute === 'content') {
+    return TRANSLATABLE_META.has((tag.attributes.name ?? tag.attributes.property ?? '').toLowerCase())
+  }
+  return false
+}
+
+/**
+ * テキストノード・属性値の翻訳元のテキスト（文字参照を戻し、空白をまとめる）
+ */
+function htmlValueText(html: string, value: HtmlValue): string {
+  return decodeHtmlEntities(html.slice(value.start, value.end)).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * ページで翻訳するテキスト（文字を含まない数字や記号だけのものは除く）
+ */
+function translatableTexts(page: LocalizedPage): string[] {
+  return page.values
+    .filter(isTranslatableValue)
+    .map(value => htmlValueText(page.html, value))
+    .filter(text => /\p{L}/u.test(text) && text.length <= MAX_TRANSLATION_TEXT_LENGTH)
+}
+
+/**
+ * 翻訳するテキストを、1回の依頼で送る量ごとに分ける
+ */
+function batchTranslationTexts(texts: string[]): string[][] {
+  const batches: string[][] = []
+  let length = 0
+  for (const text of texts) {
+    const batch = batches[batches.length - 1]
+    if (batch && batch.length < TRANSLATION_BATCH_SIZE && length + text.length <= TRANSLATION_BATCH_CHARS) {
+      batch.push(text)
+      length += text.length
+    } else {
+      batches.push([text])
+      length = text.length
+    }
+  }
+  return batches
+}
+
+/**
+ * 言語の名前（表示に使う言語で。分からなければ言語タグのまま）
+ */
+function localeName(locale: string, displayLocale: string): string {
+  try {
+    return new Intl.DisplayNames([displayLocale], { type: 'language' }).of(locale) ?? locale
+  } catch {
+    return locale
+  }
+}
+
+/**
+ * テキストをまとめて翻訳させるプロンプト
+ */
+function buildTranslationPrompt(texts: string[], sourceLocale: string, locale: string): string {
+  return `Webサイトのテキストを${localeName(sourceLocale, 'ja')}（${sourceLocale}）から${localeName(locale, 'ja')}（${locale}）に翻訳してください。
+
+【ルール】
+- 入力はページに出てくる順に並んだテキスト（見出し・本文・ボタン・画像の説明など）です。前後の文脈を踏まえ、Webサイトとして自然な表現にしてください
+- 1つの文がリンクや強調の前後で複数のテキストに分かれていることがあります。分かれたまま、それぞれを翻訳してください
+- 固有名詞・ブランド名・URL・メールアドレス・数値はそのまま残してください
+- HTMLタグやMarkdownは加えないでください
+
+【出力形式】
+入力と同じ順番・同じ件数の文字列のJSON配列のみを出力してください（説明文やコードブロックは不要です）。
+
+【入力】
+${JSON.stringify(texts, null, 2)}`
+}
+
+/**
+ * 1つのプロバイダーでテキストをまとめて翻訳させる（訳文を読み取れなくても使用量はusageLogに残る）
+ */
+async function requestTranslations(
+  candidate: ProviderCandidate,
+  texts: string[],
+  sourceLocale: string,
+  locale: string,
+  usageLog: UsageEntry[]
+): Promise<TranslationBatch> {
+  const { provider } = candidate
+  const attachments: Attachments = { images: [], documents: [] }
+  const options = resolveGenerationOptions(provider, candidate.settings, attachments)
+  const messages: ConversationMessage[] = [{ role: 'user', content: buildTranslationPrompt(texts, sourceLocale, locale) }]
+  const output = await callProvider(provider, candidate.apiKey, messages, attachments, options)
+
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, estimated: false }
+  addRequestUsage(usage, messages, output)
+  usageLog.push({ usage, provider: provider.id, model: options.model })
+  return { translations: parseTranslations(output.text, texts.length), usage, provider: provider.id, model: options.model }
+}
+
+/**
+ * AIが出力したJSON配列から訳文を取り出す（件数が合わなければ読み取れないものとする）
+ */
+function parseTranslations(text: string, count: number): string[] {
+  const json = stripCodeFence(text)
+  let data: unknown
+  try {
+    data = JSON.parse(json.slice(json.indexOf('['), json.lastIndexOf(']') + 1))
+  } catch {
+    data = null
+  }
+  if (!Array.isArray(data) || data.length !== count || data.some(item => typeof item !== 'string')) {
+    throw new ApiError('INVALID_OUTPUT', '翻訳結果を読み取れませんでした。もう一度お試しください')
+  }
+  return data.map((item: string) => item.replace(/\s+/g, ' ').trim().slice(0, MAX_TRANSLATION_TEXT_LENGTH))
+}
+
+/**
+ * 元のページと翻訳メモリから、多言語版を含むサイトを組み立てる
+ *
+ * 多言語版は毎回元のページから作り直し、元のページにもlang・hreflang・言語切り替えを付ける（翻訳先がなければ取り除く）
+ */
+function buildLocalizedSite(files: SiteFiles, pages: LocalizedPage[], options: TranslateOptions, memory: TranslationMemory): SiteFiles {
+  // 以前に作った多言語版は含めない（元のページはすべてpagesにある）
+  const site: SiteFiles = Object.fromEntries(Object.entries(files).filter(([path]) => !path.endsWith('.html')))
+  const locales = [options.sourceLocale, ...options.locales]
+  const paths = new Set(pages.map(page => page.path))
+
+  for (const page of pages) {
+    const alternates: AlternatePage[] = options.locales.length === 0 ? [] : locales.map(locale => ({
+      locale,
+      path: locale === options.sourceLocale ? page.path : localizedPagePath(page.path, locale)
+    }))
+    site[page.path] = localizePageMarkup(setHtmlAttributes(page.html, { lang: options.sourceLocale }), options.sourceLocale, alternates, options)
+
+    for (const locale of options.locales) {
+      const path = localizedPagePath(page.path, locale)
+      const html = setHtmlAttributes(translatePage(page, locale, memory, paths), {
+        lang: locale,
+        [I18N_SOURCE_ATTRIBUTE]: page.path
+      })
+      // 正規URLは多言語版自身のURLにする（元のページのURLのままだと検索エンジンに重複とみなされる）
+      const url = options.siteUrl && publishedSiteUrl(options.siteUrl, path)
+      const withCanonical = setHeadElement(
+        setHeadElement(html, head => scanHtmlTags(head).find(isCanonicalLink), url ? `<link rel="canonical" href="${escapeHtmlText(url)}">` : ''),
+        head => scanHtmlTags(head).find(tag => tag.name === 'meta' && tag.attributes.property?.toLowerCase() === 'og:url'),
+        url ? `<meta property="og:url" content="${escapeHtmlText(url)}">` : ''
+      )
+      site[path] = localizePageMarkup(withCanonical, locale, alternates, options)
+    }
+  }
+  return sortSiteFiles(site)
+}
+
+/**
+ * 公開サイトでのページのURL（index.htmlはサイトのURLそのもの）
+ */
+function publishedSiteUrl(siteUrl: string, path: string): string {
+  return siteUrl + (path === SITE_ENTRY_FILE ? '' : path)
+}
+
+/**
+ * ページのテキストを訳文に置き換え、サイト内のページへのリンクを同じ言語の版に向ける
+ */
+function translatePage(page: LocalizedPage, locale: string, memory: TranslationMemory, paths: Set<string>): string {
+  let result = ''
+  let last = 0
+  for (const value of page.values) {
+    const raw = page.html.slice(value.start, value.end)
+    let replacement: string | undefined
+    if ((value.tag?.name === 'a' || value.tag?.name === 'area') && value.attribute === 'href') {
+      const link = LOCAL_PAGE_LINK_PATTERN.exec(raw)
+      if (link && paths.has(link[1])) replacement = localizedPagePath(link[1], locale) + (link[2] ?? '')
+    } else if (isTranslatableValue(value)) {
+      const translation = lookupTranslation(memory, locale, htmlValueText(page.html, value))
+      if (translation !== undefined) replacement = escapeTranslation(translation, value, raw)
+    }
+    if (replacement === undefined) continue
+    result += page.html.slice(last, value.start) + replacement
+    last = value.end
+  }
+  return result + page.html.slice(last)
+}
+
+/**
+ * 訳文をHTMLに書き込める形にする（テキストノードは前後の空白を残し、文字参照はそのまま使う）
+ */
+function escapeTranslation(translation: string, value: HtmlValue, raw: string): string {
+  const escaped = translation.replace(/&(?!#?\w+;)/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  if (!value.tag) return raw.match(/^\s*/)![0] + escaped + raw.match(/\s*$/)![0]
+  const attribute = escaped.replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+  return value.unquoted ? `"${attribute}"` : attribute
+}
+
+/**
+ * ページのhreflangと言語切り替えを付け直す
+ */
+function localizePageMarkup(html: string, locale: string, alternates: AlternatePage[], options: TranslateOptions): string {
+  const findAlternate = (head: string) => scanHtmlTags(head).find(tag => tag.name === 'link' &&
+    tag.attributes.hreflang !== undefined && (tag.attributes.rel ?? '').toLowerCase().split(/\s+/).includes('alternate'))
+  let result = html.replace(LANGUAGE_SWITCHER_PATTERN, '')
+  while (findAlternate(result.slice(0, headEnd(result)))) {
+    result = setHeadElement(result, findAlternate, '')
+  }
+  if (alternates.length === 0) return result
+
+  // 言語が合わない場合に表示するページ（x-default）は元のページにする
+  const url = (path: string) => options.siteUrl ? publishedSiteUrl(options.siteUrl, path) : path
+  for (const alternate of [...alternates, { locale: 'x-default', path: alternates[0].path }]) {
+    result = setHeadElement(result, () => undefined,
+      `<link rel="alternate" hreflang="${alternate.locale}" href="${escapeHtmlText(url(alternate.path))}">`)
+  }
+  return insertLanguageSwitcher(result, buildLanguageSwitcher(alternates, locale))
+}
+
+/**
+ * 言語切り替え（各言語の名前はその言語で表示し、いまのページの言語にaria-currentを付ける）
+ */
+function buildLanguageSwitcher(alternates: AlternatePage[], current: string): string {
+  const links = alternates.map(({ locale, path }) => {
+    const style = locale === current
+      ? 'padding:.25rem .75rem;border-radius:9999px;background:#7c3aed;color:#fff;text-decoration:none'
+      : 'padding:.25rem .75rem;border-radius:9999px;color:#334155;text-decoration:none'
+    return `  <a href="${path}" hreflang="${locale}" lang="${locale}"${locale === current ? ' aria-current="page"' : ''} style="${style}">${escapeHtmlText(localeName(locale, locale))}</a>`
+  })
+  return [
+    '<!-- language-switcher -->',
+    '<nav aria-label="Language" translate="no" style="position:fixed;right:1rem;bottom:1rem;z-index:50;display:flex;gap:.25rem;padding:.25rem;border-radius:9999px;background:rgba(255,255,255,.95);box-shadow:0 1px 4px rgba(15,23,42,.2);font:14px/1.5 system-ui,sans-serif">',
+    ...links,
+    '</nav>',
+    '<!-- /language-switcher -->'
+  ].join('\n')
+}
+
+/**
+ * 言語切り替えを</body>の直前に入れる（</body>が行頭にあれば、その1段深いインデントで前の行に入れる）
+ */
+function insertLanguageSwitcher(html: string, switcher: string): string {
+  const end = html.search(/<\/body\s*>/i)
+  if (end < 0) return `${html.replace(/\n?$/, '\n')}${switcher}\n`
+
+  const lineStart = html.lastIndexOf('\n', end - 1) + 1
+  const indent = html.slice(lineStart, end)
+  if (!/^[ \t]*$/.test(indent)) return html.slice(0, end) + switcher + html.slice(end)
+  const lines = switcher.split('\n').map(line => `${indent}  ${line}`).join('\n')
+  return html.slice(0, lineStart) + lines + '\n' + html.slice(lineStart)
+}
+
+// API: プロジェクト管理（KVに保存）
+
+// プロジェクト一覧
+app.get('/api/projects', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const projects = await listProjects(kv)
+  return c.json({ success: true, projects })
+})
+
+// プロジェクト作成
+app.post('/api/projects', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  try {
+    const input = validateProjectInput(await readJsonBody(c))
+    const now = new Date().toISOString()
+    const project: Project = {
+      id: crypto.randomUUID(),
+      name: input.name ?? '新規プロジェクト',
+      code: input.code ?? null,
+      messages: input.messages ?? [],
+      settings: input.settings ?? {},
+      currentVersion: input.currentVersion ?? null,
+      published: null,
+      shares: [],
+      createdAt: now,
+      updatedAt: now
+    }
+    await saveProject(kv, project)
+
+    return c.json({ success: true, project }, 201)
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// プロジェクト読み込み
+app.get('/api/projects/:id', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+  return c.json({ success: true, project })
+})
+
+// プロジェクト更新（名前変更・コード・チャット履歴・設定の保存）
+app.put('/api/projects/:id', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+
+  try {
+    const input = validateProjectInput(await readJsonBody(c))
+    const updated: Project = {
+      ...project,
+      ...input,
+      updatedAt: new Date().toISOString()
+    }
+    await saveProject(kv, updated)
+
+    return c.json({ success: true, project: updated })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// プロジェクト削除
+app.delete('/api/projects/:id', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+  await kv.delete(PROJECT_KEY_PREFIX + project.id)
+
+  // 公開中のサイト・共有リンク・バージョン履歴も削除
+  if (project.published) {
+    await kv.delete(PUBLISHED_KEY_PREFIX + project.published.slug)
+  }
+  await Promise.all((project.shares ?? []).map(share => kv.delete(SHARE_KEY_PREFIX + share.token)))
+  const versions = await listVersions(kv, project.id)
+  await Promise.all(versions.map(v => kv.delete(versionKey(project.id, v.number))))
+
+  return c.json({ success: true })
+})
+
+// バージョン履歴一覧
+app.get('/api/projects/:id/versions', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+
+  const versions = await listVersions(kv, project.id)
+  return c.json({ success: true, versions })
+})
+
+// バージョン取得（コードを含む）
+app.get('/api/projects/:id/versions/:number', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const version = await kv.get<VersionSnapshot>(
+    versionKey(c.req.param('id'), Number(c.req.param('number'))),
+    'json'
+  )
+  if (!version) {
+    return apiError(c, 'NOT_FOUND', 'バージョンが見つかりません')
+  }
+  return c.json({ success: true, version })
+})
+
+// バージョン保存（番号はクライアントが採番するため、同じ番号への再送は上書き）
+app.put('/api/projects/:id/versions/:number', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+
+  try {
+    const number = Number(c.req.param('number'))
+    if (!Number.isInteger(number) || number < 1) {
+      throw new ApiError('INVALID_INPUT', 'バージョン番号が不正です')
+    }
+
+    const body = await readJsonBody(c)
+    const { code } = validateProjectInput({ code: body?.code })
+    if (!code) {
+      throw new ApiError('INVALID_INPUT', 'コードを指定してください')
+    }
+
+    const version: VersionSnapshot = {
+      number,
+      prompt: typeof body.prompt === 'string' ? body.prompt.slice(0, MAX_VERSION_PROMPT_LENGTH) : '',
+      source: body.source === 'manual' || body.source === 'template' ? body.source : 'ai',
+      createdAt: typeof body.createdAt === 'string' ? body.createdAt : new Date().toISOString(),
+      code
+    }
+    await saveVersion(kv, project.id, version)
+
+    return c.json({ success: true, version: toVersionSummary(version) })
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// チャット履歴の1メッセージ
+type ChatMessage = {
+  role: 'user' | 'ai'
+  text: string
+  // 生成が完了した応答に付ける、AIへ会話履歴として渡す結果の要約
+  summary?: string
+  // 生成が完了した応答に付ける、その生成の使用量と料金の概算
+  usage?: UsageReport
+}
+
+/**
+ * チャット履歴に保存する使用量を検証（不正なら保存しない）
+ */
+function validateUsageReport(value: unknown): UsageReport | undefined {
+  if (typeof value !== 'object' || value === null) return undefined
+  const { inputTokens, outputTokens, estimated, cost } = value as Record<string, unknown>
+  const isCount = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0
+  if (!isCount(inputTokens) || !isCount(outputTokens)) return undefined
+  return {
+    inputTokens,
+    outputTokens,
+    estimated: estimated === true,
+    cost: isCount(cost) ? cost : null
+  }
+}
+
+// プロジェクトごとの生成設定（APIキーは保存しない）
+type ProjectSettings = {
+  aiProvider?: string
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  // 選択中のデザインテーマ（プリセットまたはカスタムテーマのID）
+  themeId?: string
+  // このプロジェクトで作成したカスタムテーマ
+  customThemes?: DesignTheme[]
+  // 選択中のプロバイダーが使えない場合に切り替えるプロバイダー（優先順）
+  fallbackProviders?: string[]
+  // 多言語版の言語と翻訳メモリ（元のページを編集した後に多言語版を同期するのに使う）
+  localization?: LocalizationSettings
+}
+
+// 保存されるプロジェクト
+type Project = {
+  id: string
+  name: string
+  code: string | null
+  messages: ChatMessage[]
+  settings: ProjectSettings
+  // 現在表示中のバージョン番号（未生成ならnull）
+  currentVersion: number | null
+  // 公開状態（未公開ならnull）
+  published: PublishInfo | null
+  // 発行済みの共有リンク
+  shares: ShareInfo[]
+  createdAt: string
+  updatedAt: string
+}
+
+// プロジェクトの公開状態
+type PublishInfo = {
+  slug: string
+  publishedAt: string
+  // ワーカーのサイトマップ一覧（/sitemap.xml）に載せるか（未指定は載せない）
+  listed?: boolean
+}
+
+// 公開サイトのKVのメタデータ（サイトマップ一覧に載せるサイトだけに付ける）
+type PublishedSiteListing = {
+  listed: true
+  publishedAt: string
+}
+
+// 公開中のサイト
+type PublishedSite = PublishInfo & {
+  projectId: string
+  html: string
+  etag: string
+}
+
+// 共有リンク（一覧表示用）
+type ShareInfo = {
+  token: string
+  createdAt: string
+  expiresAt: string | null
+  hasPasscode: boolean
+}
+
+// 共有リンク（KVに保存する内容）
+type ShareLink = ShareInfo & {
+  projectId: string
+  passcodeHash: string | null
+  salt: string
+}
+
+// 生成ごとのスナップショット
+type VersionSnapshot = {
+  number: number
+  prompt: string
+  code: string
+  // ai: AIによる生成 / manual: コードタブでの手動編集 / template: テンプレートから作成（未指定の古い履歴はai）
+  source?: 'ai' | 'manual' | 'template'
+  createdAt: string
+}
+
+// 履歴一覧用のメタデータ（KVのmetadataに保存）
+type VersionSummary = Omit<VersionSnapshot, 'code'>
+
+// 一覧表示用のメタデータ（KVのmetadataに保存）
+type ProjectSummary = {
+  id: string
+  name: string
+  updatedAt: string
+}
+
+const PROJECT_KEY_PREFIX = 'project:'
+const MAX_PROJECT_NAME_LENGTH = 100
+const MAX_PROJECT_CODE_BYTES = 2 * 1024 * 1024
+const MAX_PROJECT_MESSAGES = 200
+const VERSION_KEY_PREFIX = 'project-version:'
+const MAX_VERSION_PROMPT_LENGTH = 1000
+const VERSION_SUMMARY_PROMPT_LENGTH = 100
+
+/**
+ * KV未設定時のレスポンス
+ */
+function kvUnavailable(c: Context) {
+  return apiError(c, 'STORAGE_UNAVAILABLE', 'KVが設定されていないため、保存機能は利用できません')
+}
+
+/**
+ * プロジェクト作成・更新の入力を検証（指定されたフィールドのみ返す）
+ */
+function validateProjectInput(body: any): Partial<Pick<Project, 'name' | 'code' | 'messages' | 'settings' | 'currentVersion'>> {
+  const input: Partial<Pick<Project, 'name' | 'code' | 'messages' | 'settings' | 'currentVersion'>> = {}
+
+  if (body?.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new ApiError('INVALID_INPUT', 'プロジェクト名を入力してください')
+    }
+    if (body.name.length > MAX_PROJECT_NAME_LENGTH) {
+      throw new ApiError('INVALID_INPUT', `プロジェクト名は${MAX_PROJECT_NAME_LENGTH}文字以内にしてください`)
+    }
+    input.name = body.name.trim()
+  }
+
+  if (body?.code !== undefined) {
+    if (body.code !== null && typeof body.code !== 'string') {
+      throw new ApiError('INVALID_INPUT', 'コードの形式が不正です')
+    }
+    if (body.code && new TextEncoder().encode(body.code).length > MAX_PROJECT_CODE_BYTES) {
+      throw new ApiError('INVALID_INPUT', 'コードが大きすぎるため保存できません')
+    }
+    input.code = body.code
+  }
+
+  if (body?.messages !== undefined) {
+    if (!Array.isArray(body.messages)) {
+      throw new ApiError('INVALID_INPUT', 'チャット履歴の形式が不正です')
+    }
+    input.messages = body.messages
+      .filter((m: any) => (m?.role === 'user' || m?.role === 'ai') && typeof m.text === 'string')
+      .slice(-MAX_PROJECT_MESSAGES)
+      .map((m: any): ChatMessage => typeof m.summary === 'string'
+        ? { role: m.role, text: m.text, summary: m.summary.slice(0, MAX_HISTORY_MESSAGE_LENGTH), usage: validateUsageReport(m.usage) }
+        : { role: m.role, text: m.text })
+  }
+
+  if (body?.settings !== undefined) {
+    const settings = body.settings ?? {}
+    input.settings = {
+      aiProvider: typeof settings.aiProvider === 'string' ? settings.aiProvider : undefined,
+      model: typeof settings.model === 'string' ? settings.model : undefined,
+      temperature: typeof settings.temperature === 'number' ? settings.temperature : undefined,
+      maxTokens: typeof settings.maxTokens === 'number' ? settings.maxTokens : undefined,
+      themeId: typeof settings.themeId === 'string' ? settings.themeId.slice(0, MAX_THEME_ID_LENGTH) : undefined,
+      customThemes: validateCustomThemes(settings.customThemes),
+      fallbackProviders: parseFallbackProviders(settings.fallbackProviders),
+      localization: validateLocalizationSettings(settings.localization)
+    }
+  }
+
+  if (body?.currentVersion !== undefined) {
+    if (body.currentVersion !== null && (!Number.isInteger(body.currentVersion) || body.currentVersion < 1)) {
+      throw new ApiError('INVALID_INPUT', 'バージョン番号が不正です')
+    }
+    input.currentVersion = body.currentVersion
+  }
+
+  return input
+}
+
+/**
+ * プロジェクトに保存するカスタムテーマを検証
+ */
+function validateCustomThemes(themes: unknown): DesignTheme[] | undefined {
+  if (themes === undefined || themes === null) return undefined
+  if (!Array.isArray(themes)) {
+    throw new ApiError('INVALID_INPUT', 'カスタムテーマの形式が不正です')
+  }
+  if (themes.length > MAX_CUSTOM_THEMES) {
+    throw new ApiError('INVALID_INPUT', `カスタムテーマは最大${MAX_CUSTOM_THEMES}件までです`)
+  }
+  return themes.map(theme => {
+    const validated = validateDesignTheme(theme)
+    if (!validated) {
+      throw new ApiError('INVALID_INPUT', 'カスタムテーマの形式が不正です')
+    }
+    return validated
+  })
+}
+
+/**
+ * プロジェクト一覧を取得（更新日時の新しい順）
+ */
+async function listProjects(kv: KVNamespace): Promise<ProjectSummary[]> {
+  const projects: ProjectSummary[] = []
+  let cursor: string | undefined
+
+  do {
+    const result = await kv.list<ProjectSummary>({ prefix: PROJECT_KEY_PREFIX, cursor })
+    for (const key of result.keys) {
+      if (key.metadata) projects.push(key.metadata)
+    }
+    cursor = result.list_complete ? undefined : result.cursor
+  } while (cursor)
+
+  return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * プロジェクトを読み込む
+ */
+async function loadProject(kv: KVNamespace, id: string): Promise<Project | null> {
+  return kv.get<Project>(PROJECT_KEY_PREFIX + id, 'json')
+}
+
+/**
+ * プロジェクトを保存（一覧用のメタデータも更新）
+ */
+async function saveProject(kv: KVNamespace, project: Project): Promise<void> {
+  const summary: ProjectSummary = {
+    id: project.id,
+    name: project.name,
+    updatedAt: project.updatedAt
+  }
+  await kv.put(PROJECT_KEY_PREFIX + project.id, JSON.stringify(project), { metadata: summary })
+}
+
+/**
+ * バージョンのKVキー
+ */
+function versionKey(projectId: string, number: number): string {
+  return `${VERSION_KEY_PREFIX}${projectId}:${number}`
+}
+
+/**
+ * スナップショットから一覧用のメタデータを作成
+ *
+ * KVのmetadataは1024バイトまでのため、プロンプトは先頭のみ残す
+ */
+function toVersionSummary(version: VersionSnapshot): VersionSummary {
+  return {
+    number: version.number,
+    prompt: version.prompt.length > VERSION_SUMMARY_PROMPT_LENGTH
+      ? version.prompt.slice(0, VERSION_SUMMARY_PROMPT_LENGTH) + '…'
+      : version.prompt,
+    source: version.source,
+    createdAt: version.createdAt
+  }
+}
+
+/**
+ * バージョン履歴を取得（番号の昇順）
+ */
+async function listVersions(kv: KVNamespace, projectId: string): Promise<VersionSummary[]> {
+  const versions: VersionSummary[] = []
+  let cursor: string | undefined
+
+  do {
+    const result = await kv.list<VersionSummary>({ prefix: `${VERSION_KEY_PREFIX}${projectId}:`, cursor })
+    for (const key of result.keys) {
+      if (key.metadata) versions.push(key.metadata)
+    }
+    cursor = result.list_complete ? undefined : result.cursor
+  } while (cursor)
+
+  return versions.sort((a, b) => a.number - b.number)
+}
+
+/**
+ * バージョンを保存
+ */
+async function saveVersion(kv: KVNamespace, projectId: string, version: VersionSnapshot): Promise<void> {
+  await kv.put(versionKey(projectId, version.number), JSON.stringify(version), {
+    metadata: toVersionSummary(version)
+  })
+}
+
+// 公開サイトの配信（ページ間の相対リンクが解決されるよう末尾にスラッシュを付ける）
+app.get('/p/:slug', (c) => {
+  return c.redirect(`/p/${c.req.param('slug')}/`, 301)
+})
+
+app.get('/p/:slug/', async (c) => {
+  return servePublishedSite(c, c.req.param('slug'), SITE_ENTRY_FILE)
+})
+
+// 公開サイトのサイトマップ（noindexのページを除くHTMLページの一覧）
+app.get('/p/:slug/sitemap.xml', async (c) => {
+  const site = await loadPublishedSite(c.env, c.req.param('slug'))
+  if (!site) return c.html(getNotFoundPageHTML(), 404)
+
+  const lastmod = site.publishedAt.slice(0, 10)
+  const urls = Object.entries(sortSiteFiles(parseSiteFiles(site.html)))
+    .filter(([path, html]) => path.endsWith('.html') && !isNoindexPage(html))
+    .map(([path]) => {
+      const loc = new URL(`/p/${site.slug}/${path === SITE_ENTRY_FILE ? '' : path}`, c.req.url).toString()
+      return `  <url>\n    <loc>${escapeHtmlText(loc)}</loc>\n    <lastmod>${lastmod}</lastmod>\n  </url>`
+    })
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join('\n')}\n</urlset>\n`
+  return c.body(xml, 200, {
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Cache-Control': 'public, max-age=0, s-maxage=60, must-revalidate'
+  })
+})
+
+app.get('/p/:slug/:path', async (c) => {
+  return servePublishedSite(c, c.req.param('slug'), c.req.param('path'))
+})
+
+// ワーカー全体のrobots.txt（公開サイトのみクロールを許可し、サイトマップ一覧を示す）
+app.get('/robots.txt', (c) => {
+  const sitemap = new URL('/sitemap.xml', c.req.url).toString()
+  return c.text(`User-agent: *\nAllow: /p/\nDisallow: /api/\nDisallow: /s/\n\nSitemap: ${sitemap}\n`, 200, {
+    'Cache-Control': 'public, max-age=3600'
+  })
+})
+
+// 公開サイトのサイトマップ一覧（sitemap index）
+// 公開時に一覧に載せると指定したサイトだけを含める（URLを知っている人にだけ共有したいサイトは載せない）
+app.get('/sitemap.xml', async (c) => {
+  const sitemaps: string[] = []
+  const kv = c.env.KV
+  if (kv) {
+    let cursor: string | undefined
+    do {
+      const page = await kv.list<PublishedSiteListing>({ prefix: PUBLISHED_KEY_PREFIX, cursor })
+      for (const { name, metadata } of page.keys) {
+        if (!metadata?.listed) continue
+        const loc = new URL(`/p/${name.slice(PUBLISHED_KEY_PREFIX.length)}/sitemap.xml`, c.req.url).toString()
+        sitemaps.push(`  <sitemap>\n    <loc>${escapeHtmlText(loc)}</loc>\n    <lastmod>${metadata.publishedAt.slice(0, 10)}</lastmod>\n  </sitemap>`)
+      }
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+  }
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${sitemaps.join('\n')}\n</sitemapindex>\n`
+  return c.body(xml, 200, {
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Cache-Control': 'public, max-age=0, s-maxage=300'
+  })
+})
+
+/**
+ * 公開中のサイトを読み込む（KVがない・公開されていなければundefined）
+ */
+async function loadPublishedSite(env: Env, slug: string): Promise<PublishedSite | undefined> {
+  return await env.KV?.get<PublishedSite>(PUBLISHED_KEY_PREFIX + slug, 'json') ?? undefined
+}
+
+/**
+ * 検索エンジンに登録しないよう指定されたページか（<meta name="robots" content="noindex">）
+ */
+function isNoindexPage(html: string): boolean {
+  return scanHtmlTags(html.slice(0, headEnd(html) ?? html.length))
+    .some(tag => tag.name === 'meta' && tag.attributes.name?.toLowerCase() === 'robots' &&
+      /\bnoindex\b/i.test(tag.attributes.content ?? ''))
+}
+
+/**
+ * 公開サイトのファイルを配信
+ */
+async function servePublishedSite(c: Context<{ Bindings: Env }>, slug: string, path: string) {
+  const kv = c.env.KV
+  if (!kv) return c.notFound()
+
+  const site = await kv.get<PublishedSite>(PUBLISHED_KEY_PREFIX + slug, 'json')
+  const content = site ? getSiteFile(site.html, path) : undefined
+  if (!site || content === undefined) {
+    return c.html(getNotFoundPageHTML(), 404)
+  }
+
+  // 再公開がすぐに反映されるよう、ETagで再検証させる
+  const etag = `"${site.etag.slice(1, -1)}-${path}"`
+  const headers = {
+    'Content-Type': siteContentType(path),
+    'Cache-Control': 'public, max-age=0, s-maxage=60, must-revalidate',
+    'ETag': etag,
+    'Last-Modified': new Date(site.publishedAt).toUTCString(),
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': GENERATED_SITE_CSP
+  }
+  if (c.req.header('If-None-Match') === etag) {
+    return c.body(null, 304, headers)
+  }
+  return c.body(content, 200, headers)
+}
+
+// API: サイトを公開（公開済みなら同じスラッグで再公開）
+app.post('/api/projects/:id/publish', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+  if (!project.code) {
+    return apiError(c, 'INVALID_INPUT', '公開するWebサイトがありません')
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const requested = typeof body?.slug === 'string' && body.slug.trim() ? body.slug.trim().toLowerCase() : null
+  if (body?.listed != null && typeof body.listed !== 'boolean') {
+    return apiError(c, 'INVALID_INPUT', 'listedには真偽値を指定してください')
+  }
+  const slug = requested ?? project.published?.slug ?? createSlug(project.name)
+  if (!SLUG_PATTERN.test(slug)) {
+    return apiError(c, 'INVALID_INPUT', 'URLには英小文字・数字・ハイフンのみ使用できます（3〜48文字）')
+  }
+
+  // 他のプロジェクトが使用中のスラッグは使えない
+  const existing = await kv.get<PublishedSite>(PUBLISHED_KEY_PREFIX + slug, 'json')
+  if (existing && existing.projectId !== project.id) {
+    return apiError(c, 'CONFLICT', 'このURLは既に使用されています')
+  }
+
+  // スラッグを変更した場合は古いURLを停止
+  if (project.published && project.published.slug !== slug) {
+    await kv.delete(PUBLISHED_KEY_PREFIX + project.published.slug)
+  }
+
+  const published: PublishInfo = { slug, publishedAt: new Date().toISOString(), listed: body?.listed === true }
+  const site: PublishedSite = {
+    ...published,
+    projectId: project.id,
+    html: project.code,
+    etag: `"${await sha256Hex(project.code)}"`
+  }
+  const listing: PublishedSiteListing | undefined = published.listed
+    ? { listed: true, publishedAt: published.publishedAt }
+    : undefined
+  await kv.put(PUBLISHED_KEY_PREFIX + slug, JSON.stringify(site), listing ? { metadata: listing } : undefined)
+  await saveProject(kv, { ...project, published })
+
+  return c.json({ success: true, published, url: new URL(`/p/${slug}/`, c.req.url).toString() })
+})
+
+// API: 公開を停止
+app.delete('/api/projects/:id/publish', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+
+  if (project.published) {
+    await kv.delete(PUBLISHED_KEY_PREFIX + project.published.slug)
+    await saveProject(kv, { ...project, published: null })
+  }
+
+  return c.json({ success: true })
+})
+
+// 共有リンクの閲覧（公開サイトと同じく末尾にスラッシュを付ける）
+app.get('/s/:token', (c) => {
+  return c.redirect(`/s/${c.req.param('token')}/`, 301)
+})
+
+app.get('/s/:token/', async (c) => {
+  return serveSharedProject(c, c.req.param('token'), SITE_ENTRY_FILE)
+})
+
+app.get('/s/:token/:path', async (c) => {
+  return serveSharedProject(c, c.req.param('token'), c.req.param('path'))
+})
+
+// 共有リンクのパスコード送信（パスコード画面を表示したURLへ戻す）
+app.post('/s/:token', async (c) => {
+  return verifySharePasscode(c, c.req.param('token'), '')
+})
+
+app.post('/s/:token/', async (c) => {
+  return verifySharePasscode(c, c.req.param('token'), '')
+})
+
+app.post('/s/:token/:path', async (c) => {
+  return verifySharePasscode(c, c.req.param('token'), c.req.param('path'))
+})
+
+/**
+ * 共有リンクのパスコードを確認し、認証済みのCookieを発行
+ */
+async function verifySharePasscode(c: Context<{ Bindings: Env }>, token: string, path: string) {
+  const kv = c.env.KV
+  if (!kv) return c.notFound()
+
+  const share = await loadShareLink(kv, token)
+  if (!share) {
+    return c.html(getNotFoundPageHTML(), 404)
+  }
+
+  // 総当たりを防ぐため、間違いが続いたリンクはしばらく受け付けない
+  const failureKey = SHARE_FAILURE_KEY_PREFIX + token
+  const failures = Number(await kv.get(failureKey)) || 0
+  if (failures >= MAX_PASSCODE_FAILURES) {
+    return c.html(getPasscodePageHTML('パスコードの入力に続けて失敗したため、しばらく入力できません。時間をおいてお試しください'), 429, {
+      ...SHARE_PAGE_HEADERS,
+      'Retry-After': String(PASSCODE_LOCKOUT_SECONDS)
+    })
+  }
+
+  const form = await c.req.parseBody()
+  const passcode = typeof form.passcode === 'string' ? form.passcode : ''
+  if (!share.passcodeHash || !timingSafeEqual(await hashPasscode(passcode, share.salt), share.passcodeHash)) {
+    // 最後の失敗から一定時間で数え直す
+    await kv.put(failureKey, String(failures + 1), { expirationTtl: PASSCODE_LOCKOUT_SECONDS })
+    return c.html(getPasscodePageHTML('パスコードが正しくありません'), 401, SHARE_PAGE_HEADERS)
+  }
+  if (failures > 0) await kv.delete(failureKey)
+
+  // 認証済みの印として、パスコードのハッシュから作った値をCookieに保存
+  setCookie(c, shareCookieName(token), await shareCookieValue(share), {
+    path: `/s/${token}`,
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === 'https:',
+    sameSite: 'Lax',
+    maxAge: share.expiresAt
+      ? Math.max(Math.floor((Date.parse(share.expiresAt) - Date.now()) / 1000), 1)
+      : 60 * 60 * 24 * 30
+  })
+  return c.redirect(`/s/${token}/${path}`, 303)
+}
+
+// API: 共有リンク一覧
+app.get('/api/projects/:id/shares', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+
+  return c.json({ success: true, shares: activeShares(project) })
+})
+
+// API: 共有リンクを発行
+app.post('/api/projects/:id/shares', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const expiresIn = body?.expiresIn ?? null
+  if (expiresIn !== null && !SHARE_EXPIRY_OPTIONS.includes(expiresIn)) {
+    return apiError(c, 'INVALID_INPUT', '有効期限の指定が不正です')
+  }
+  const passcode = typeof body?.passcode === 'string' ? body.passcode : ''
+  if (passcode && (passcode.length < 4 || passcode.length > 64)) {
+    return apiError(c, 'INVALID_INPUT', 'パスコードは4〜64文字で入力してください')
+  }
+
+  const now = Date.now()
+  const salt = crypto.randomUUID()
+  const share: ShareLink = {
+    token: crypto.randomUUID().replace(/-/g, ''),
+    projectId: project.id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: expiresIn ? new Date(now + expiresIn * 1000).toISOString() : null,
+    hasPasscode: Boolean(passcode),
+    passcodeHash: passcode ? await hashPasscode(passcode, salt) : null,
+    salt
+  }
+
+  // 期限付きのリンクはKVの有効期限でも自動削除する
+  await kv.put(SHARE_KEY_PREFIX + share.token, JSON.stringify(share), expiresIn ? { expirationTtl: expiresIn } : {})
+  await saveProject(kv, { ...project, shares: [...activeShares(project), toShareInfo(share)] })
+
+  return c.json({
+    success: true,
+    share: toShareInfo(share),
+    url: new URL(`/s/${share.token}`, c.req.url).toString()
+  }, 201)
+})
+
+// API: 共有リンクを無効化
+app.delete('/api/projects/:id/shares/:token', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const project = await loadProject(kv, c.req.param('id'))
+  if (!project) {
+    return apiError(c, 'NOT_FOUND', 'プロジェクトが見つかりません')
+  }
+
+  const token = c.req.param('token')
+  if (!(project.shares ?? []).some(share => share.token === token)) {
+    return apiError(c, 'NOT_FOUND', '共有リンクが見つかりません')
+  }
+
+  await kv.delete(SHARE_KEY_PREFIX + token)
+  await saveProject(kv, {
+    ...project,
+    shares: activeShares(project).filter(share => share.token !== token)
+  })
+
+  return c.json({ success: true })
+})
+
+const PUBLISHED_KEY_PREFIX = 'published:'
+const SHARE_KEY_PREFIX = 'share:'
+const SHARE_FAILURE_KEY_PREFIX = 'share-failures:'
+
+// 生成サイトはアプリと同じオリジンで配信するため、sandboxで別オリジン扱いにして
+// アプリのlocalStorage（APIキー）やCookieに触れないようにする
+const GENERATED_SITE_CSP = 'sandbox allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox allow-modals'
+
+// パスコードの試行制限：続けて5回間違えると、最後の失敗から15分間は入力を受け付けない
+const MAX_PASSCODE_FAILURES = 5
+const PASSCODE_LOCKOUT_SECONDS = 15 * 60
+
+// 共有リンクの有効期限の選択肢（秒）：1時間・1日・7日・30日
+const SHARE_EXPIRY_OPTIONS = [3600, 86400, 604800, 2592000]
+
+// 共有ページは検索エンジンやキャッシュに残さない
+const SHARE_PAGE_HEADERS = {
+  'Cache-Control': 'private, no-store',
+  'X-Robots-Tag': 'noindex, nofollow',
+  'Referrer-Policy': 'no-referrer'
+}
+
+/**
+ * 共有リンクのプロジェクトのファイルを読み取り専用で表示
+ */
+async function serveSharedProject(c: Context<{ Bindings: Env }>, token: string, path: string) {
+  const kv = c.env.KV
+  if (!kv) return c.notFound()
+
+  const share = await loadShareLink(kv, token)
+  if (!share) {
+    return c.html(getNotFoundPageHTML(), 404)
+  }
+
+  if (share.passcodeHash && !timingSafeEqual(getCookie(c, shareCookieName(token)) ?? '', await shareCookieValue(share))) {
+    return c.html(getPasscodePageHTML(), 401, SHARE_PAGE_HEADERS)
+  }
+
+  const project = await loadProject(kv, share.projectId)
+  const content = project?.code ? getSiteFile(project.code, path) : undefined
+  if (content === undefined) {
+    return c.html(getNotFoundPageHTML(), 404)
+  }
+
+  return c.body(content, 200, {
+    ...SHARE_PAGE_HEADERS,
+    'Content-Type': siteContentType(path),
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': GENERATED_SITE_CSP
+  })
+}
+
+/**
+ * 共有リンクを読み込む（期限切れならnull）
+ */
+async function loadShareLink(kv: KVNamespace, token: string): Promise<ShareLink | null> {
+  const share = await kv.get<ShareLink>(SHARE_KEY_PREFIX + token, 'json')
+  if (!share) return null
+  if (share.expiresAt && Date.parse(share.expiresAt) <= Date.now()) return null
+  return share
+}
+
+/**
+ * 期限切れを除いた共有リンク一覧
+ */
+function activeShares(project: Project): ShareInfo[] {
+  const now = Date.now()
+  return (project.shares ?? []).filter(share => !share.expiresAt || Date.parse(share.expiresAt) > now)
+}
+
+/**
+ * 共有リンクから一覧表示用の情報を取り出す
+ */
+function toShareInfo(share: ShareLink): ShareInfo {
+  return {
+    token: share.token,
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    hasPasscode: share.hasPasscode
+  }
+}
+
+/**
+ * パスコードのハッシュ（PBKDF2-SHA256）
+ */
+async function hashPasscode(passcode: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: 100000 },
+    key,
+    256
+  )
+  return [...new Uint8Array(bits)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 文字列を一定時間で比較（異なる文字が見つかっても途中で打ち切らず、最後まで比べる）
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * パスコード認証済みを示すCookieの名前
+ */
+function shareCookieName(token: string): string {
+  return `share_${token}`
+}
+
+/**
+ * パスコード認証済みを示すCookieの値（パスコードを変えると無効になる）
+ */
+async function shareCookieValue(share: ShareLink): Promise<string> {
+  return sha256Hex(`${share.token}:${share.passcodeHash}`)
+}
+
+/**
+ * 共有リンクのパスコード入力ページ
+ */
+function getPasscodePageHTML(error = ''): string {
+  return getStatusPageHTML('🔒', 'パスコードが必要です', 'このページを表示するには共有者から受け取ったパスコードを入力してください', `
+    <form method="post" class="mt-6 flex items-center justify-center gap-2">
+      <input type="password" name="passcode" required autofocus class="px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+      <button type="submit" class="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg">表示</button>
+    </form>
+    ${error ? `<p class="mt-3 text-sm text-red-500">${error}</p>` : ''}`)
+}
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,46}[a-z0-9])$/
+
+/**
+ * プロジェクト名から公開用のスラッグを作成（英数字以外は除き、衝突しにくいよう乱数を付ける）
+ */
+function createSlug(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32)
+  const suffix = crypto.randomUUID().slice(0, 8)
+  return base ? `${base}-${suffix}` : `site-${suffix}`
+}
+
+/**
+ * SHA-256のハッシュ値（16進数）
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// スターターテンプレート
+type SiteTemplate = {
+  id: string
+  name: string
+  description: string
+  category: string
+  // 組み込みのテンプレートか（falseならチームで保存したテンプレート）
+  builtIn: boolean
+  code: string
+  createdAt?: string
+}
+
+// 一覧表示用のテンプレート情報（KVのmetadataにも保存）
+type TemplateSummary = Omit<SiteTemplate, 'code'> & {
+  thumbnailUrl: string
+}
+
+// サムネイルの構成（SVGのワイヤーフレームとして描く）
+type TemplateThumbnail = {
+  layout: 'landing' | 'portfolio' | 'restaurant' | 'pricing' | 'blog'
+  // 背景・メイン・アクセント
+  colors: [string, string, string]
+}
+
+// 組み込みのテンプレート定義
+type BuiltInTemplate = Omit<SiteTemplate, 'builtIn' | 'code' | 'createdAt'> & {
+  thumbnail: TemplateThumbnail
+  files: SiteFiles
+}
+
+const TEMPLATE_KEY_PREFIX = 'template:'
+const MAX_TEMPLATE_NAME_LENGTH = 50
+// KVのmetadataは1024バイトまでのため、説明は短く制限する
+const MAX_TEMPLATE_DESCRIPTION_LENGTH = 120
+const USER_TEMPLATE_CATEGORY = 'チーム'
+const USER_TEMPLATE_THUMBNAIL: TemplateThumbnail = { layout: 'landing', colors: ['#f8fafc', '#64748b', '#a855f7'] }
+
+const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    id: 'landing',
+    name: 'ランディングページ',
+    description: 'ヒーロー、特徴、お客様の声、CTAを備えたサービス紹介ページ',
+    category: 'ビジネス',
+    thumbnail: { layout: 'landing', colors: ['#f0f9ff', '#0284c7', '#f59e0b'] },
+    files: {
+      'index.html': `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>Flowly - チームの仕事をもっとなめらかに</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-sky-50 text-slate-700">
+  <header class="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between">
+    <a href="#" class="text-xl font-bold text-sky-700">Flowly</a>
+    <nav class="hidden md:flex gap-8 text-sm">
+      <a href="#features" class="hover:text-sky-700">特徴</a>
+      <a href="#voices" class="hover:text-sky-700">導入事例</a>
+      <a href="#contact" class="hover:text-sky-700">お問い合わせ</a>
+    </nav>
+    <a href="#contact" class="px-4 py-2 text-sm text-white bg-sky-600 hover:bg-sky-700 rounded-full">無料で始める</a>
+  </header>
+
+  <section class="max-w-6xl mx-auto px-6 py-20 text-center">
+    <h1 class="text-4xl md:text-5xl font-bold text-slate-900 leading-tight">チームの仕事を、<br class="md:hidden" />もっとなめらかに。</h1>
+    <p class="mt-6 text-lg text-slate-500">タスク管理・ドキュメント・チャットをひとつに。Flowlyはチームの「いま」を見える化します。</p>
+    <div class="mt-10 flex flex-col sm:flex-row gap-4 justify-center">
+      <a href="#contact" class="px-8 py-3 text-white bg-sky-600 hover:bg-sky-700 rounded-full font-medium">14日間無料で試す</a>
+      <a href="#features" class="px-8 py-3 text-sky-700 bg-white border border-sky-200 hover:bg-sky-100 rounded-full font-medium">機能を見る</a>
+    </div>
+  </section>
+
+  <section id="features" class="bg-white py-20">
+    <div class="max-w-6xl mx-auto px-6 grid md:grid-cols-3 gap-8">
+      <div class="p-6 rounded-2xl bg-sky-50">
+        <div class="w-12 h-12 flex items-center justify-center rounded-xl bg-sky-600 text-white text-2xl">✓</div>
+        <h3 class="mt-4 text-lg font-bold text-slate-900">タスクを一元管理</h3>
+        <p class="mt-2 text-sm text-slate-500">担当者と期限がひと目でわかるボードで、抜け漏れを防ぎます。</p>
+      </div>
+      <div class="p-6 rounded-2xl bg-sky-50">
+        <div class="w-12 h-12 flex items-center justify-center rounded-xl bg-sky-600 text-white text-2xl">✎</div>
+        <h3 class="mt-4 text-lg font-bold text-slate-900">ドキュメントを共同編集</h3>
+        <p class="mt-2 text-sm text-slate-500">議事録も仕様書も、チーム全員でリアルタイムに書けます。</p>
+      </div>
+      <div class="p-6 rounded-2xl bg-sky-50">
+        <div class="w-12 h-12 flex items-center justify-center rounded-xl bg-sky-600 text-white text-2xl">⚡</div>
+        <h3 class="mt-4 text-lg font-bold text-slate-900">自動化で時短</h3>
+        <p class="mt-2 text-sm text-slate-500">定型業務はワークフローに任せて、本当に大事な仕事に集中。</p>
+      </div>
+    </div>
+  </section>
+
+  <section id="voices" class="max-w-6xl mx-auto px-6 py-20 grid md:grid-cols-2 gap-8">
+    <blockquote class="p-6 bg-white rounded-2xl shadow-sm">
+      <p>「会議の時間が半分になり、開発に使える時間が増えました。」</p>
+      <footer class="mt-4 text-sm text-slate-400">株式会社サンプル　開発部 部長</footer>
+    </blockquote>
+    <blockquote class="p-6 bg-white rounded-2xl shadow-sm">
+      <p>「リモートでもチームの状況がすぐにわかるので安心です。」</p>
+      <footer class="mt-4 text-sm text-slate-400">サンプル合同会社　代表</footer>
+    </blockquote>
+  </section>
+
+  <section id="contact" class="bg-sky-600 py-16 text-center text-white">
+    <h2 class="text-3xl font-bold">今日から、チームを変えよう。</h2>
+    <p class="mt-4 text-sky-100">クレジットカード登録不要。1分で始められます。</p>
+    <a href="#" class="inline-block mt-8 px-8 py-3 text-sky-700 bg-white hover:bg-amber-100 rounded-full font-medium">無料アカウントを作成</a>
+  </section>
+
+  <footer class="py-8 text-center text-sm text-slate-400">&copy; 2025 Flowly Inc.</footer>
+</body>
+</html>`
+    }
+  },
+  {
+    id: 'portfolio',
+    name: 'ポートフォリオ',
+    description: 'クリエイター向けの作品ギャラリーとプロフィール、連絡先',
+    category: '個人',
+    thumbnail: { layout: 'portfolio', colors: ['#ffffff', '#111827', '#ef4444'] },
+    files: {
+      'index.html': `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>Aoi Sato - Photographer</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-white text-gray-900">
+  <header class="max-w-6xl mx-auto px-6 py-8 flex items-center justify-between">
+    <a href="#" class="text-lg font-bold tracking-widest">AOI SATO</a>
+    <nav class="flex gap-6 text-sm text-gray-500">
+      <a href="#works" class="hover:text-gray-900">Works</a>
+      <a href="#about" class="hover:text-gray-900">About</a>
+      <a href="#contact" class="hover:text-gray-900">Contact</a>
+    </nav>
+  </header>
+
+  <section class="max-w-6xl mx-auto px-6 py-16">
+    <p class="text-sm text-red-500 tracking-widest">PHOTOGRAPHER</p>
+    <h1 class="mt-4 text-4xl md:text-6xl font-bold leading-tight">日常のなかの、<br />静かな光を撮る。</h1>
+  </section>
+
+  <section id="works" class="max-w-6xl mx-auto px-6 pb-20 grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+    <figure class="group">
+      <div class="aspect-[4/5] bg-gray-200 group-hover:opacity-80 transition"></div>
+      <figcaption class="mt-2 text-sm text-gray-500">Morning Window / 2024</figcaption>
+    </figure>
+    <figure class="group">
+      <div class="aspect-[4/5] bg-gray-300 group-hover:opacity-80 transition"></div>
+      <figcaption class="mt-2 text-sm text-gray-500">Seaside / 2024</figcaption>
+    </figure>
+    <figure class="group">
+      <div class="aspect-[4/5] bg-gray-200 group-hover:opacity-80 transition"></div>
+      <figcaption class="mt-2 text-sm text-gray-500">Old Town / 2023</figcaption>
+    </figure>
+    <figure class="group">
+      <div class="aspect-[4/5] bg-gray-300 group-hover:opacity-80 transition"></div>
+      <figcaption class="mt-2 text-sm text-gray-500">Rain / 2023</figcaption>
+    </figure>
+    <figure class="group">
+      <div class="aspect-[4/5] bg-gray-200 group-hover:opacity-80 transition"></div>
+      <figcaption class="mt-2 text-sm text-gray-500">Forest / 2022</figcaption>
+    </figure>
+    <figure class="group">
+      <div class="aspect-[4/5] bg-gray-300 group-hover:opacity-80 transition"></div>
+      <figcaption class="mt-2 text-sm text-gray-500">Night Walk / 2022</figcaption>
+    </figure>
+  </section>
+
+  <section id="about" class="bg-gray-50 py-20">
+    <div class="max-w-3xl mx-auto px-6">
+      <h2 class="text-2xl font-bold">About</h2>
+      <p class="mt-6 leading-relaxed text-gray-600">東京を拠点に活動するフォトグラファー。広告・雑誌の撮影のほか、風景やポートレートの作品を発表しています。</p>
+    </div>
+  </section>
+
+  <section id="contact" class="max-w-3xl mx-auto px-6 py-20 text-center">
+    <h2 class="text-2xl font-bold">Contact</h2>
+    <p class="mt-4 text-gray-500">撮影のご依頼・ご相談はお気軽にどうぞ。</p>
+    <a href="mailto:hello@example.com" class="inline-block mt-8 px-8 py-3 text-white bg-gray-900 hover:bg-red-500 transition">hello@example.com</a>
+  </section>
+
+  <footer class="py-8 text-center text-xs text-gray-400">&copy; 2025 Aoi Sato</footer>
+</body>
+</html>`
+    }
+  },
+  {
+    id: 'restaurant',
+    name: 'レストラン',
+    description: 'メニュー、店舗情報、予約導線を備えた飲食店のサイト',
+    category: '店舗',
+    thumbnail: { layout: 'restaurant', colors: ['#fefce8', '#78350f', '#ea580c'] },
+    files: {
+      'index.html': `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>Trattoria Sole - 街角のイタリアン</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-yellow-50 text-stone-700">
+  <header class="absolute inset-x-0 top-0 z-10">
+    <div class="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between text-white">
+      <a href="#" class="text-xl font-serif font-bold">Trattoria Sole</a>
+      <nav class="hidden md:flex gap-8 text-sm">
+        <a href="#menu">メニュー</a>
+        <a href="#access">アクセス</a>
+        <a href="#reserve">ご予約</a>
+      </nav>
+    </div>
+  </header>
+
+  <section class="relative h-[70vh] flex items-center justify-center bg-gradient-to-br from-amber-900 to-orange-700 text-center text-white">
+    <div class="px-6">
+      <p class="text-sm tracking-[0.3em]">SINCE 2010</p>
+      <h1 class="mt-4 text-4xl md:text-6xl font-serif font-bold">街角で味わう、本場の味。</h1>
+      <a href="#reserve" class="inline-block mt-10 px-8 py-3 bg-orange-600 hover:bg-orange-700 rounded">席を予約する</a>
+    </div>
+  </section>
+
+  <section id="menu" class="max-w-4xl mx-auto px-6 py-20">
+    <h2 class="text-3xl font-serif font-bold text-center text-amber-900">Menu</h2>
+    <div class="mt-12 grid md:grid-cols-2 gap-x-12 gap-y-6">
+      <div class="flex justify-between border-b border-amber-200 pb-2"><span>マルゲリータ</span><span class="text-orange-600">¥1,600</span></div>
+      <div class="flex justify-between border-b border-amber-200 pb-2"><span>カルボナーラ</span><span class="text-orange-600">¥1,500</span></div>
+      <div class="flex justify-between border-b border-amber-200 pb-2"><span>本日の鮮魚のアクアパッツァ</span><span class="text-orange-600">¥2,400</span></div>
+      <div class="flex justify-between border-b border-amber-200 pb-2"><span>生ハムとルッコラのサラダ</span><span class="text-orange-600">¥1,200</span></div>
+      <div class="flex justify-between border-b border-amber-200 pb-2"><span>ティラミス</span><span class="text-orange-600">¥700</span></div>
+      <div class="flex justify-between border-b border-amber-200 pb-2"><span>グラスワイン（赤・白）</span><span class="text-orange-600">¥800</span></div>
+    </div>
+  </section>
+
+  <section id="access" class="bg-white py-20">
+    <div class="max-w-4xl mx-auto px-6 grid md:grid-cols-2 gap-12">
+      <div>
+        <h2 class="text-2xl font-serif font-bold text-amber-900">Access</h2>
+        <dl class="mt-6 space-y-3 text-sm">
+          <div><dt class="font-bold">住所</dt><dd>東京都渋谷区サンプル町1-2-3</dd></div>
+          <div><dt class="font-bold">営業時間</dt><dd>11:30〜14:30 / 17:30〜22:00</dd></div>
+          <div><dt class="font-bold">定休日</dt><dd>月曜日</dd></div>
+        </dl>
+      </div>
+      <div class="aspect-video bg-stone-200 rounded flex items-center justify-center text-sm text-stone-500">地図</div>
+    </div>
+  </section>
+
+  <section id="reserve" class="py-20 text-center">
+    <h2 class="text-2xl font-serif font-bold text-amber-900">ご予約</h2>
+    <p class="mt-4">お電話またはWebからご予約いただけます。</p>
+    <a href="tel:0300000000" class="inline-block mt-8 px-8 py-3 text-white bg-amber-900 hover:bg-orange-600 rounded">03-0000-0000</a>
+  </section>
+
+  <footer class="py-8 text-center text-xs text-stone-400">&copy; 2025 Trattoria Sole</footer>
+</body>
+</html>`
+    }
+  },
+  {
+    id: 'saas-pricing',
+    name: 'SaaS 料金プラン',
+    description: '3つのプランの比較表とよくある質問を載せた料金ページ',
+    category: 'ビジネス',
+    thumbnail: { layout: 'pricing', colors: ['#0f172a', '#6366f1', '#22d3ee'] },
+    files: {
+      'index.html': `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>料金プラン - Cloudnote</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-slate-900 text-slate-300">
+  <header class="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between">
+    <a href="#" class="text-xl font-bold text-white">Cloudnote</a>
+    <a href="#" class="px-4 py-2 text-sm text-white bg-indigo-500 hover:bg-indigo-600 rounded-lg">ログイン</a>
+  </header>
+
+  <section class="max-w-6xl mx-auto px-6 py-16 text-center">
+    <h1 class="text-4xl font-bold text-white">シンプルな料金プラン</h1>
+    <p class="mt-4 text-slate-400">すべてのプランで14日間の無料トライアルをご利用いただけます。</p>
+
+    <div class="mt-16 grid md:grid-cols-3 gap-6 text-left">
+      <div class="p-8 rounded-2xl bg-slate-800">
+        <h2 class="text-lg font-bold text-white">Free</h2>
+        <p class="mt-4 text-4xl font-bold text-white">¥0<span class="text-sm font-normal text-slate-400">/月</span></p>
+        <ul class="mt-8 space-y-3 text-sm">
+          <li>✓ ノート100件まで</li>
+          <li>✓ 1ユーザー</li>
+          <li>✓ 基本的な検索</li>
+        </ul>
+        <a href="#" class="block mt-8 py-2 text-center rounded-lg border border-slate-600 hover:bg-slate-700">無料で始める</a>
+      </div>
+      <div class="p-8 rounded-2xl bg-indigo-500 text-white ring-4 ring-cyan-400/40">
+        <p class="text-xs font-bold tracking-widest text-cyan-200">人気No.1</p>
+        <h2 class="mt-2 text-lg font-bold">Pro</h2>
+        <p class="mt-4 text-4xl font-bold">¥1,200<span class="text-sm font-normal text-indigo-100">/月</span></p>
+        <ul class="mt-8 space-y-3 text-sm">
+          <li>✓ ノート無制限</li>
+          <li>✓ 5ユーザーまで</li>
+          <li>✓ 全文検索・AI要約</li>
+          <li>✓ 優先サポート</li>
+        </ul>
+        <a href="#" class="block mt-8 py-2 text-center rounded-lg bg-white text-indigo-600 font-medium hover:bg-cyan-50">Proを試す</a>
+      </div>
+      <div class="p-8 rounded-2xl bg-slate-800">
+        <h2 class="text-lg font-bold text-white">Enterprise</h2>
+        <p class="mt-4 text-4xl font-bold text-white">お見積り</p>
+        <ul class="mt-8 space-y-3 text-sm">
+          <li>✓ ユーザー数無制限</li>
+          <li>✓ SSO・監査ログ</li>
+          <li>✓ 専任サポート</li>
+        </ul>
+        <a href="#" class="block mt-8 py-2 text-center rounded-lg border border-slate-600 hover:bg-slate-700">お問い合わせ</a>
+      </div>
+    </div>
+  </section>
+
+  <section class="max-w-3xl mx-auto px-6 py-16">
+    <h2 class="text-2xl font-bold text-white text-center">よくある質問</h2>
+    <div class="mt-8 space-y-4">
+      <details class="p-5 rounded-xl bg-slate-800">
+        <summary class="cursor-pointer font-medium text-white">途中でプランを変更できますか？</summary>
+        <p class="mt-3 text-sm">はい。いつでもアップグレード・ダウングレードでき、料金は日割りで計算されます。</p>
+      </details>
+      <details class="p-5 rounded-xl bg-slate-800">
+        <summary class="cursor-pointer font-medium text-white">支払い方法は何がありますか？</summary>
+        <p class="mt-3 text-sm">クレジットカードと請求書払い（Enterpriseのみ）に対応しています。</p>
+      </details>
+    </div>
+  </section>
+
+  <footer class="py-8 text-center text-xs text-slate-500">&copy; 2025 Cloudnote</footer>
+</body>
+</html>`
+    }
+  },
+  {
+    id: 'blog',
+    name: 'ブログ',
+    description: '記事一覧と記事ページ、共通のスタイルシートからなる2ページ構成のブログ',
+    category: '個人',
+    thumbnail: { layout: 'blog', colors: ['#fafaf9', '#0f766e', '#f97316'] },
+    files: {
+      'index.html': `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>ことのは日記</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+  <link rel="stylesheet" href="styles.css" />
+</head>
+<body class="bg-stone-50 text-stone-700">
+  <header class="border-b border-stone-200 bg-white">
+    <div class="max-w-5xl mx-auto px-6 py-5 flex items-center justify-between">
+      <a href="index.html" class="text-xl font-bold text-teal-700">ことのは日記</a>
+      <nav class="flex gap-6 text-sm">
+        <a href="index.html" class="hover:text-teal-700">記事一覧</a>
+        <a href="post.html" class="hover:text-teal-700">最新記事</a>
+      </nav>
+    </div>
+  </header>
+
+  <main class="max-w-5xl mx-auto px-6 py-12 grid md:grid-cols-3 gap-10">
+    <div class="md:col-span-2 space-y-8">
+      <article class="post-card">
+        <div class="aspect-video bg-teal-100 rounded-lg"></div>
+        <p class="mt-4 text-xs text-orange-500">2025.04.12 ・ 暮らし</p>
+        <h2 class="mt-1 text-xl font-bold"><a href="post.html" class="hover:text-teal-700">春の朝、ベランダで育てるハーブのこと</a></h2>
+        <p class="mt-2 text-sm text-stone-500">小さなプランターから始めたハーブ栽培。失敗から学んだ育て方のコツをまとめました。</p>
+      </article>
+      <article class="post-card">
+        <div class="aspect-video bg-orange-100 rounded-lg"></div>
+        <p class="mt-4 text-xs text-orange-500">2025.03.28 ・ 読書</p>
+        <h2 class="mt-1 text-xl font-bold"><a href="post.html" class="hover:text-teal-700">今月読んでよかった3冊</a></h2>
+        <p class="mt-2 text-sm text-stone-500">小説からエッセイまで、心に残った本を紹介します。</p>
+      </article>
+    </div>
+    <aside class="space-y-6">
+      <div class="p-5 bg-white rounded-lg border border-stone-200">
+        <h3 class="font-bold">プロフィール</h3>
+        <p class="mt-2 text-sm text-stone-500">日々の暮らしと本のことを書いています。</p>
+      </div>
+      <div class="p-5 bg-white rounded-lg border border-stone-200">
+        <h3 class="font-bold">カテゴリー</h3>
+        <ul class="mt-2 text-sm space-y-1 text-teal-700">
+          <li>暮らし</li>
+          <li>読書</li>
+          <li>旅</li>
+        </ul>
+      </div>
+    </aside>
+  </main>
+
+  <footer class="py-8 text-center text-xs text-stone-400">&copy; 2025 ことのは日記</footer>
+</body>
+</html>`,
+      'post.html': `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>春の朝、ベランダで育てるハーブのこと - ことのは日記</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+  <link rel="stylesheet" href="styles.css" />
+</head>
+<body class="bg-stone-50 text-stone-700">
+  <header class="border-b border-stone-200 bg-white">
+    <div class="max-w-5xl mx-auto px-6 py-5 flex items-center justify-between">
+      <a href="index.html" class="text-xl font-bold text-teal-700">ことのは日記</a>
+      <nav class="flex gap-6 text-sm">
+        <a href="index.html" class="hover:text-teal-700">記事一覧</a>
+        <a href="post.html" class="hover:text-teal-700">最新記事</a>
+      </nav>
+    </div>
+  </header>
+
+  <main class="max-w-2xl mx-auto px-6 py-12">
+    <p class="text-xs text-orange-500">2025.04.12 ・ 暮らし</p>
+    <h1 class="mt-2 text-3xl font-bold leading-snug">春の朝、ベランダで育てるハーブのこと</h1>
+    <div class="mt-8 aspect-video bg-teal-100 rounded-lg"></div>
+    <div class="article-body mt-8">
+      <p>去年の春、小さなプランターでバジルとミントを育て始めました。最初は水をあげすぎて枯らしてしまったこともあります。</p>
+      <h2>日当たりと風通し</h2>
+      <p>ハーブは日当たりのよい場所を好みます。ベランダでは、午前中に日が当たる位置がおすすめです。</p>
+      <h2>水やりのタイミング</h2>
+      <p>土の表面が乾いてから、鉢底から流れるくらいたっぷりと。毎日決まった時間にあげる必要はありません。</p>
+    </div>
+    <a href="index.html" class="inline-block mt-12 text-sm text-teal-700 hover:underline">← 記事一覧へ戻る</a>
+  </main>
+
+  <footer class="py-8 text-center text-xs text-stone-400">&copy; 2025 ことのは日記</footer>
+</body>
+</html>`,
+      'styles.css': `.post-card h2 a {
+  transition: color 0.2s;
+}
+
+.article-body p {
+  margin-top: 1.25rem;
+  line-height: 2;
+}
+
+.article-body h2 {
+  margin-top: 2.5rem;
+  padding-left: 0.75rem;
+  border-left: 4px solid #f97316;
+  font-size: 1.25rem;
+  font-weight: 700;
+}`
+    }
+  }
+]
+
+/**
+ * 組み込みのテンプレートを保存形式のテンプレートに変換
+ */
+function toBuiltInSiteTemplate(template: BuiltInTemplate): SiteTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    builtIn: true,
+    code: serializeSiteFiles(template.files)
+  }
+}
+
+/**
+ * 一覧表示用のテンプレート情報
+ */
+function toTemplateSummary(template: Omit<SiteTemplate, 'code'>): TemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    builtIn: template.builtIn,
+    createdAt: template.createdAt,
+    thumbnailUrl: `/api/templates/${encodeURIComponent(template.id)}/thumbnail`
+  }
+}
+
+/**
+ * チームで保存したテンプレートの一覧（新しい順）
+ */
+async function listUserTemplates(kv: KVNamespace): Promise<TemplateSummary[]> {
+  const templates: TemplateSummary[] = []
+  let cursor: string | undefined
+
+  do {
+    const result = await kv.list<TemplateSummary>({ prefix: TEMPLATE_KEY_PREFIX, cursor })
+    for (const key of result.keys) {
+      if (key.metadata) templates.push(key.metadata)
+    }
+    cursor = result.list_complete ? undefined : result.cursor
+  } while (cursor)
+
+  return templates.sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''))
+}
+
+/**
+ * テンプレートを読み込む（組み込み・チームの両方）
+ */
+async function loadTemplate(kv: KVNamespace | undefined, id: string): Promise<SiteTemplate | null> {
+  const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === id)
+  if (builtIn) return toBuiltInSiteTemplate(builtIn)
+  if (!kv) return null
+  return kv.get<SiteTemplate>(TEMPLATE_KEY_PREFIX + id, 'json')
+}
+
+/**
+ * テンプレート保存の入力を検証
+ */
+function validateTemplateInput(body: unknown): Pick<SiteTemplate, 'name' | 'description' | 'code'> {
+  const { name, description, code } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new ApiError('INVALID_INPUT', 'テンプレート名を入力してください')
+  }
+  if (name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+    throw new ApiError('INVALID_INPUT', `テンプレート名は${MAX_TEMPLATE_NAME_LENGTH}文字以内にしてください`)
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new ApiError('INVALID_INPUT', 'テンプレートの説明の形式が不正です')
+  }
+  if ((description ?? '').trim().length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+    throw new ApiError('INVALID_INPUT', `テンプレートの説明は${MAX_TEMPLATE_DESCRIPTION_LENGTH}文字以内にしてください`)
+  }
+  if (typeof code !== 'string' || !code) {
+    throw new ApiError('INVALID_INPUT', 'テンプレートにするWebサイトがありません')
+  }
+  if (new TextEncoder().encode(code).length > MAX_PROJECT_CODE_BYTES) {
+    throw new ApiError('INVALID_INPUT', 'コードが大きすぎるため保存できません')
+  }
+  if (!Object.hasOwn(parseSiteFiles(code), SITE_ENTRY_FILE)) {
+    throw new ApiError('INVALID_INPUT', `テンプレートには${SITE_ENTRY_FILE}が必要です`)
+  }
+
+  return { name: name.trim(), description: (description ?? '').trim(), code }
+}
+
+/**
+ * テンプレートのサムネイル（ナビゲーションと各レイアウトの要素を描いたSVG）
+ */
+function buildTemplateThumbnail({ layout, colors }: TemplateThumbnail): string {
+  const [background, primary, accent] = colors
+  const rect = (x: number, y: number, width: number, height: number, fill: string, rx = 3, opacity = 1) =>
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${rx}" fill="${fill}" fill-opacity="${opacity}"/>`
+
+  let body: string
+  switch (layout) {
+    case 'landing':
+      body = rect(80, 48, 160, 14, primary) + rect(100, 70, 120, 6, primary, 3, 0.4) +
+        rect(125, 86, 70, 14, accent, 7) +
+        [0, 1, 2].map(i => rect(24 + i * 96, 120, 80, 60, primary, 6, 0.15)).join('')
+      break
+    case 'portfolio':
+      body = rect(24, 44, 140, 12, primary) + rect(24, 62, 90, 12, primary) +
+        [0, 1, 2, 3, 4, 5].map(i => rect(24 + (i % 3) * 96, 88 + Math.floor(i / 3) * 54, 80, 46, primary, 0, 0.2 + (i % 2) * 0.15)).join('')
+      break
+    case 'restaurant':
+      body = rect(0, 28, 320, 74, primary, 0) + rect(100, 56, 120, 10, background) + rect(130, 74, 60, 12, accent, 2) +
+        [0, 1, 2, 3].map(i => rect(40 + (i % 2) * 130, 116 + Math.floor(i / 2) * 22, 110, 6, primary, 2, 0.5) +
+          rect(130 + (i % 2) * 130, 116 + Math.floor(i / 2) * 22, 20, 6, accent, 2)).join('')
+      break
+    case 'pricing':
+      body = rect(100, 40, 120, 10, primary, 3, 0.6) +
+        [0, 1, 2].map(i => rect(28 + i * 92, 62 - (i === 1 ? 6 : 0), 80, 116 + (i === 1 ? 12 : 0), i === 1 ? primary : '#ffffff', 6, i === 1 ? 1 : 0.1) +
+          rect(40 + i * 92, 78, 40, 8, i === 1 ? background : accent, 2, 0.8) +
+          rect(40 + i * 92, 156, 56, 10, i === 1 ? accent : primary, 4)).join('')
+      break
+    case 'blog':
+      body = [0, 1].map(i => rect(24, 44 + i * 72, 80, 56, primary, 4, 0.2) +
+        rect(114, 50 + i * 72, 100, 8, primary) + rect(114, 64 + i * 72, 80, 5, accent, 2, 0.7) +
+        rect(114, 76 + i * 72, 90, 5, primary, 2, 0.3)).join('') +
+        rect(236, 44, 60, 60, primary, 4, 0.1) + rect(236, 112, 60, 60, primary, 4, 0.1)
+      break
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 320 200" width="320" height="200">` +
+    rect(0, 0, 320, 200, background, 0) +
+    rect(0, 0, 320, 28, primary, 0, 0.08) + rect(16, 10, 40, 8, primary) +
+    rect(220, 11, 24, 6, primary, 2, 0.5) + rect(252, 11, 24, 6, primary, 2, 0.5) + rect(284, 9, 24, 10, accent, 5) +
+    body +
+    `</svg>`
+}
+
+// API: テンプレート一覧（組み込み＋チームで保存したもの）
+app.get('/api/templates', async (c) => {
+  const builtIn = BUILT_IN_TEMPLATES.map(template => toTemplateSummary({ ...template, builtIn: true }))
+  const kv = c.env.KV
+  const userTemplates = kv ? await listUserTemplates(kv) : []
+
+  return c.json({ success: true, templates: [...builtIn, ...userTemplates] })
+})
+
+// API: テンプレートの取得（コードを含む）
+app.get('/api/templates/:id', async (c) => {
+  const template = await loadTemplate(c.env.KV, c.req.param('id'))
+  if (!template) {
+    return apiError(c, 'NOT_FOUND', 'テンプレートが見つかりません')
+  }
+  return c.json({ success: true, template })
+})
+
+// API: テンプレートのサムネイル
+app.get('/api/templates/:id/thumbnail', async (c) => {
+  const id = c.req.param('id')
+  const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === id)
+  if (!builtIn && !(c.env.KV && await c.env.KV.get(TEMPLATE_KEY_PREFIX + id))) {
+    return c.notFound()
+  }
+
+  return c.body(buildTemplateThumbnail(builtIn ? builtIn.thumbnail : USER_TEMPLATE_THUMBNAIL), 200, {
+    'Content-Type': 'image/svg+xml',
+    'Cache-Control': 'public, max-age=86400'
+  })
+})
+
+// API: 現在のWebサイトをチームのテンプレートとして保存
+app.post('/api/templates', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  try {
+    const input = validateTemplateInput(await readJsonBody(c))
+    const template: SiteTemplate = {
+      id: crypto.randomUUID(),
+      ...input,
+      category: USER_TEMPLATE_CATEGORY,
+      builtIn: false,
+      createdAt: new Date().toISOString()
+    }
+    const summary = toTemplateSummary(template)
+    await kv.put(TEMPLATE_KEY_PREFIX + template.id, JSON.stringify(template), { metadata: summary })
+
+    return c.json({ success: true, template: summary }, 201)
+  } catch (error) {
+    return errorResponse(c, error)
+  }
+})
+
+// API: チームのテンプレートを削除（組み込みのテンプレートは削除できない）
+app.delete('/api/templates/:id', async (c) => {
+  const kv = c.env.KV
+  if (!kv) return kvUnavailable(c)
+
+  const id = c.req.param('id')
+  if (BUILT_IN_TEMPLATES.some(template => template.id === id)) {
+    return apiError(c, 'FORBIDDEN', '組み込みのテンプレートは削除できません')
+  }
+  if (!await kv.get(TEMPLATE_KEY_PREFIX + id)) {
+    return apiError(c, 'NOT_FOUND', 'テンプレートが見つかりません')
+  }
+
+  await kv.delete(TEMPLATE_KEY_PREFIX + id)
+  return c.json({ success: true })
+})
+
+/**
+ * 公開サイト・共有リンクが見つからない場合のページ
+ */
+function getNotFoundPageHTML(): string {
+  return getStatusPageHTML('🔍', 'ページが見つかりません', '公開が停止されたか、URLが間違っている可能性があります')
+}
+
+/**
+ * アイコンとメッセージだけの簡易ページ
+ */
+function getStatusPageHTML(icon: string, title: string, message: string, body = ''): string {
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <meta name="robots" content="noindex" />
+  <title>${title} - Web Readdy AI</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-slate-100 min-h-screen flex items-center justify-center">
+  <div class="text-center text-slate-500">
+    <div class="text-6xl mb-4">${icon}</div>
+    <p class="text-lg">${title}</p>
+    <p class="text-sm mt-2">${message}</p>
+    ${body}
+  </div>
+</body>
+</html>`
+}
+
+/**
+ * メインページのHTML（readdy.ai風レイアウト）
+ */
+function getMainPageHTML(): string {
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>Web Readdy AI</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+  <style>
+    @keyframes spin {
+      from { transform: rotate(0deg); }
+      to { transform: rotate(360deg); }
+    }
+    .animate-spin {
+      animation: spin 1s linear infinite;
+    }
+    .chat-message {
+      animation: fadeIn 0.3s ease-in-out;
+    }
+    @keyframes fadeIn {
+      from { opacity: 0; transform: translateY(10px); }
+      to { opacity: 1; transform: translateY(0); }
+    }
+    .file-operation-item {
+      animation: slideIn 0.3s ease-out;
+    }
+    @keyframes slideIn {
+      from { opacity: 0; transform: translateX(-10px); }
+      to { opacity: 1; transform: translateX(0); }
+    }
+  </style>
+</head>
+<body class="bg-slate-100">
+  <!-- トップナビゲーションバー -->
+  <nav class="h-14 bg-white border-b border-slate-200 flex items-center px-4 gap-4">
+    <!-- ロゴ -->
+    <div class="flex items-center gap-2">
+      <div class="w-8 h-8 bg-gradient-to-br from-purple-500 to-purple-700 flex items-center justify-center text-white font-bold rounded-lg rotate-45">
+        <span class="-rotate-45">R</span>
+      </div>
+      <span class="font-bold text-lg text-slate-800">Web Readdy AI</span>
+    </div>
 
     <!-- プロジェクト名 -->
     <div class="relative flex items-center gap-2 ml-4">
@@ -318,637 +6313,3527 @@ function getMainPageHTML(): string {
         </svg>
       </button>
       <!-- プロジェクトドロップダウン -->
-      <div id="project-dropdown" class="hidden absolute top-full left-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-lg p-2 min-w-[200px] z-50">
+      <div id="project-dropdown" class="hidden absolute top-full left-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-lg p-2 min-w-[260px] z-50">
+        <!-- 保存済みプロジェクト一覧 -->
+        <div id="project-list" class="max-h-64 overflow-y-auto"></div>
+        <div class="border-t border-slate-100 my-1"></div>
         <button onclick="createNewProject()" class="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-md">
           <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 4v16m8-8H4"/>
           </svg>
           新規プロジェクト作成
         </button>
+        <button onclick="openTemplateGallery()" class="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-md">
+          <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"/>
+          </svg>
+          テンプレートから作成
+        </button>
+        <button onclick="saveAsTemplate()" class="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-md">
+          <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"/>
+          </svg>
+          テンプレートとして保存
+        </button>
+      </div>
+    </div>
+
+    <!-- 右側 -->
+    <div class="flex-1"></div>
+    <div class="flex items-center gap-2">
+      <!-- SEOボタン -->
+      <button onclick="openSeoDialog()" class="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors border border-slate-200" title="検索エンジン・SNS向けのメタデータ">
+        SEO
+      </button>
+      <button onclick="openTranslateDialog()" class="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors border border-slate-200" title="サイトの多言語版を作成">
+        翻訳
+      </button>
+      <!-- Shareボタン -->
+      <button onclick="shareProject()" class="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors border border-slate-200">
+        <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"/>
+        </svg>
+        Share
+      </button>
+      <!-- Downloadボタン -->
+      <button onclick="downloadCode()" class="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors border border-slate-200">
+        <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/>
+        </svg>
+        Download
+      </button>
+      <!-- Publishボタン -->
+      <button onclick="openPublishDialog()" class="px-4 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors">
+        Publish
+      </button>
+      <!-- ヘルプ -->
+      <button class="w-8 h-8 rounded-lg hover:bg-slate-100 flex items-center justify-center text-slate-400 transition-colors">
+        <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/>
+        </svg>
+      </button>
+      <!-- ユーザーアイコン -->
+      <button class="w-8 h-8 rounded-full bg-gradient-to-br from-purple-400 to-purple-600 flex items-center justify-center text-white text-sm font-medium">
+        U
+      </button>
+    </div>
+  </nav>
+
+  <!-- メインコンテンツ -->
+  <div class="flex h-[calc(100vh-3.5rem)]">
+    <!-- 左側：プレビューエリア -->
+    <div class="flex-1 flex flex-col bg-slate-200">
+      <!-- ブラウザ風アドレスバー -->
+      <div class="h-12 bg-white border-b border-slate-200 flex items-center px-4 gap-3">
+        <div class="flex items-center gap-1">
+          <button id="undo-btn" onclick="undoVersion()" class="w-7 h-7 rounded hover:bg-slate-100 flex items-center justify-center text-slate-400 disabled:opacity-40 disabled:hover:bg-transparent" title="前のバージョンに戻す" disabled>
+            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 19l-7-7 7-7"/>
+            </svg>
+          </button>
+          <button id="redo-btn" onclick="redoVersion()" class="w-7 h-7 rounded hover:bg-slate-100 flex items-center justify-center text-slate-400 disabled:opacity-40 disabled:hover:bg-transparent" title="次のバージョンに進む" disabled>
+            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7"/>
+            </svg>
+          </button>
+          <button onclick="refreshPreview()" class="w-7 h-7 rounded hover:bg-slate-100 flex items-center justify-center text-slate-400" title="再読み込み">
+            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/>
+            </svg>
+          </button>
+        </div>
+        <!-- アドレスバー風 -->
+        <div class="flex-1 flex items-center gap-2 px-3 py-1.5 bg-slate-100 rounded-lg text-sm text-slate-500">
+          <svg class="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"/>
+          </svg>
+          <a id="preview-url" target="_blank" rel="noopener" class="truncate">未公開</a>
+          <span id="version-badge" class="hidden ml-auto px-1.5 py-0.5 rounded bg-purple-100 text-purple-600 text-xs font-medium"></span>
+        </div>
+        <!-- ページ選択 -->
+        <div class="relative">
+          <button onclick="togglePageSelector()" class="flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm text-slate-600 hover:bg-slate-100 border border-slate-200 transition-colors" title="プレビューするページ">
+            <svg class="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"/>
+            </svg>
+            <span id="current-page-name" class="font-mono text-xs">index.html</span>
+            <svg class="w-3 h-3 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 9l-7 7-7-7"/>
+            </svg>
+          </button>
+          <div id="page-dropdown" class="hidden absolute right-0 top-full mt-1 w-56 max-h-72 overflow-y-auto bg-white rounded-lg shadow-lg border border-slate-200 py-1 z-50"></div>
+        </div>
+        <!-- ビューポート切り替え -->
+        <div class="flex items-center gap-1">
+          <button onclick="setViewMode('desktop')" id="view-desktop" class="view-mode-btn px-2 py-1 rounded text-sm transition-colors bg-slate-200 text-slate-700">🖥️</button>
+          <button onclick="setViewMode('tablet')" id="view-tablet" class="view-mode-btn px-2 py-1 rounded text-sm transition-colors text-slate-400 hover:bg-slate-200">📱</button>
+          <button onclick="setViewMode('mobile')" id="view-mobile" class="view-mode-btn px-2 py-1 rounded text-sm transition-colors text-slate-400 hover:bg-slate-200">📱</button>
+          <button class="px-2 py-1 rounded text-sm text-slate-400 hover:bg-slate-200 transition-colors">
+            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4"/>
+            </svg>
+          </button>
+        </div>
+        <!-- コード表示切替 -->
+        <button onclick="toggleCodeView()" class="px-2 py-1 rounded text-sm text-slate-400 hover:bg-slate-200 transition-colors">
+          <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"/>
+          </svg>
+        </button>
+      </div>
+
+      <!-- プレビュー本体 -->
+      <div class="flex-1 p-6 flex items-center justify-center">
+        <div id="preview-container" class="bg-white rounded-lg shadow-lg w-full h-full overflow-hidden transition-all duration-300">
+          <!-- 初期表示 -->
+          <div id="preview-placeholder" class="h-full flex flex-col items-center justify-center text-slate-400">
+            <div class="text-6xl mb-4">🎨</div>
+            <p class="text-lg">チャットでWebサイトを作成しましょう</p>
+            <p class="text-sm mt-2">右側のパネルから説明を入力してください</p>
+          </div>
+          <!-- プレビューiframe -->
+          <iframe id="preview-iframe" class="w-full h-full hidden" sandbox="allow-same-origin"></iframe>
+          <!-- コード表示 -->
+          <pre id="code-display" class="w-full h-full p-4 bg-slate-800 text-slate-100 text-sm overflow-auto hidden"><code></code></pre>
+        </div>
+      </div>
+    </div>
+
+    <!-- 右側：チャットパネル -->
+    <div id="side-panel" class="w-96 bg-white border-l border-slate-200 flex flex-col transition-all">
+      <!-- タブヘッダー -->
+      <div class="border-b border-slate-200">
+        <div class="flex">
+          <button onclick="switchTab('chat')" id="tab-chat" class="flex-1 py-3 text-sm font-medium text-purple-600 border-b-2 border-purple-500 transition-colors">チャット</button>
+          <button onclick="switchTab('code')" id="tab-code" class="flex-1 py-3 text-sm font-medium text-slate-500 hover:text-slate-700 transition-colors">コード</button>
+        </div>
+      </div>
+
+      <!-- チャットコンテンツ -->
+      <div id="chat-content" class="flex-1 flex flex-col">
+        <!-- チャットメッセージエリア -->
+        <div id="chat-messages" class="flex-1 overflow-y-auto">
+          <!-- ウェルカムメッセージ -->
+          <div class="p-4">
+            <div class="flex items-start gap-3 mb-4">
+              <!-- ひし形のアバター -->
+              <div class="w-8 h-8 bg-purple-500 flex items-center justify-center text-white text-sm flex-shrink-0 rotate-45">
+                <span class="rotate-[-45deg]">R</span>
+              </div>
+              <div class="flex-1">
+                <p class="text-sm text-slate-600">こんにちは！Readdy AIです。作りたいWebサイトについて教えてください。</p>
+                <button onclick="openTemplateGallery()" class="mt-2 text-xs text-purple-600 hover:underline">テンプレートから始める →</button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <!-- ファイル操作（直近の生成で作成・変更・削除されたファイル） -->
+        <div id="file-operations" class="hidden border-t border-slate-200 px-4 py-2">
+          <button onclick="toggleFileOperations()" class="w-full flex items-center justify-between text-xs font-medium text-slate-500 hover:text-slate-700">
+            <span>ファイル操作</span>
+            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 9l-7 7-7-7"/>
+            </svg>
+          </button>
+          <div id="file-operations-list" class="mt-2 space-y-1 max-h-32 overflow-y-auto"></div>
+        </div>
+
+        <!-- 設定エリア（折りたたみ式） -->
+        <div class="border-t border-slate-200 p-4">
+          <details class="group">
+            <summary class="cursor-pointer text-xs text-slate-500 hover:text-slate-700 flex items-center gap-2">
+              <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"/>
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/>
+              </svg>
+              設定（AIプロバイダー・モデル・デザインテーマ・APIキー）
+            </summary>
+            <div class="mt-3 space-y-3">
+              <!-- AIプロバイダー選択 -->
+              <div>
+                <label class="block text-xs font-medium text-slate-600 mb-2">AIプロバイダー</label>
+                <div class="flex gap-2">
+                  ${listProviders().map((provider, index) => `
+                  <label class="flex-1">
+                    <input type="radio" name="ai-provider" value="${provider.id}"${index === 0 ? ' checked' : ''} class="peer hidden" />
+                    <div class="px-2 py-1.5 text-center text-xs rounded-lg border border-slate-200 cursor-pointer peer-checked:border-purple-500 peer-checked:bg-purple-50 peer-checked:text-purple-600 transition-colors">
+                      ${provider.label}<span data-server-key="${provider.id}" class="hidden ml-0.5 text-green-500" title="サーバーでAPIキーが設定されています">●</span>
+                    </div>
+                  </label>`).join('')}
+                </div>
+              </div>
+              <!-- モデル選択 -->
+              <div id="model-select-group">
+                <label for="model-select" class="block text-xs font-medium text-slate-600 mb-2">モデル</label>
+                <select id="model-select" class="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"></select>
+              </div>
+              <!-- カスタムエンドポイント（OpenAI互換） -->
+              <div id="custom-endpoint-settings" class="hidden space-y-3">
+                <div>
+                  <label for="custom-base-url-input" class="block text-xs font-medium text-slate-600 mb-2">ベースURL</label>
+                  <input type="url" id="custom-base-url-input" placeholder="https://llm.example.com/v1" class="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                  <p class="mt-1 text-xs text-slate-400">サーバーで許可されたホスト（CUSTOM_ENDPOINT_ALLOWED_HOSTS）のURLのみ指定できます。localhostのサーバーはwrangler devでローカル実行している場合のみ使えます</p>
+                </div>
+                <div>
+                  <label for="custom-model-input" class="block text-xs font-medium text-slate-600 mb-2">モデル名</label>
+                  <input type="text" id="custom-model-input" placeholder="llama3.1:8b" class="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                </div>
+                <div>
+                  <label for="custom-api-key-input" class="block text-xs font-medium text-slate-600 mb-2">APIキー<span class="text-slate-400">（任意）</span></label>
+                  <input type="password" id="custom-api-key-input" class="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                  <p class="mt-1 text-xs text-slate-400">このエンドポイント専用のキーです。他のプロバイダーのAPIキーは送信しません</p>
+                </div>
+              </div>
+              <!-- 生成パラメーター -->
+              <div class="flex gap-3">
+                <div class="flex-1">
+                  <label for="temperature-input" class="flex justify-between text-xs font-medium text-slate-600 mb-2">
+                    <span>Temperature</span>
+                    <span id="temperature-value" class="text-slate-400">0.7</span>
+                  </label>
+                  <input type="range" id="temperature-input" min="0" max="2" step="0.1" value="0.7" class="w-full accent-purple-500" />
+                </div>
+                <div class="w-28">
+                  <label for="max-tokens-input" class="block text-xs font-medium text-slate-600 mb-2">最大出力トークン</label>
+                  <input type="number" id="max-tokens-input" min="1000" step="1000" value="8000" class="w-full px-2 py-1 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                </div>
+              </div>
+              <!-- デザインテーマ -->
+              <div>
+                <label for="theme-select" class="block text-xs font-medium text-slate-600 mb-2">デザインテーマ</label>
+                <div class="flex gap-2">
+                  <select id="theme-select" class="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"></select>
+                  <button onclick="toggleThemeEditor()" class="px-2 text-xs text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg border border-slate-200 transition-colors">カスタマイズ</button>
+                </div>
+                <div id="theme-preview" class="mt-2 flex items-center gap-1 text-xs text-slate-400"></div>
+                <div id="theme-editor" class="hidden mt-2 p-3 space-y-2 rounded-lg border border-slate-200 bg-slate-50">
+                  <input type="text" id="theme-name-input" maxlength="50" placeholder="テーマ名" class="w-full px-2 py-1 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                  <div class="flex gap-2">
+                    ${[['primary', 'メイン'], ['secondary', 'サブ'], ['accent', 'アクセント'], ['background', '背景'], ['text', '文字']].map(([key, label]) => `
+                    <label class="flex-1 text-center text-[10px] text-slate-500">
+                      <input type="color" data-theme-color="${key}" class="w-full h-7 rounded cursor-pointer" />
+                      ${label}
+                    </label>`).join('')}
+                  </div>
+                  <div class="flex gap-2">
+                    <input type="text" id="theme-heading-font-input" maxlength="50" placeholder="見出しのフォント" class="flex-1 min-w-0 px-2 py-1 text-xs rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                    <input type="text" id="theme-body-font-input" maxlength="50" placeholder="本文のフォント" class="flex-1 min-w-0 px-2 py-1 text-xs rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                  </div>
+                  <div class="flex gap-2">
+                    <select id="theme-radius-select" title="角丸" class="flex-1 min-w-0 px-1 py-1 text-xs rounded-lg border border-slate-200 bg-white">
+                      <option value="none">角丸なし</option>
+                      <option value="small">角丸：小</option>
+                      <option value="medium">角丸：中</option>
+                      <option value="large">角丸：大</option>
+                      <option value="full">ピル型</option>
+                    </select>
+                    <select id="theme-density-select" title="余白" class="flex-1 min-w-0 px-1 py-1 text-xs rounded-lg border border-slate-200 bg-white">
+                      <option value="compact">余白：狭い</option>
+                      <option value="comfortable">余白：標準</option>
+                      <option value="spacious">余白：広い</option>
+                    </select>
+                    <select id="theme-scheme-select" title="カラーモード" class="flex-1 min-w-0 px-1 py-1 text-xs rounded-lg border border-slate-200 bg-white">
+                      <option value="light">ライト</option>
+                      <option value="dark">ダーク</option>
+                      <option value="auto">自動</option>
+                    </select>
+                  </div>
+                  <div class="flex justify-end gap-2">
+                    <button id="theme-delete-btn" onclick="deleteCustomTheme()" class="hidden px-2 py-1 text-xs text-red-500 hover:bg-red-50 rounded-lg transition-colors">削除</button>
+                    <button id="theme-save-btn" onclick="saveCustomTheme()" class="px-2 py-1 text-xs text-white bg-purple-500 hover:bg-purple-600 rounded-lg transition-colors">カスタムテーマとして保存</button>
+                  </div>
+                </div>
+              </div>
+              <!-- フォールバック -->
+              <div>
+                <label class="block text-xs font-medium text-slate-600 mb-1">フォールバック</label>
+                <p class="mb-2 text-xs text-slate-400">選択中のプロバイダーが混雑やエラーで使えないとき、チェックした順に切り替えます（サーバーのAPIキーと既定のモデルを使用）</p>
+                <div id="fallback-provider-list" class="space-y-1"></div>
+              </div>
+              <!-- 修正モード -->
+              <label class="flex items-start gap-2 text-xs text-slate-600 cursor-pointer">
+                <input type="checkbox" id="patch-edit-input" checked class="mt-0.5 accent-purple-500" />
+                <span>
+                  <span class="font-medium">変更箇所のみ編集する</span>
+                  <span class="block text-slate-400">修正時はAIに差分だけを出力させます。適用できない場合は全体を再生成します</span>
+                </span>
+              </label>
+              <!-- APIキー入力（カスタムエンドポイントは専用のキーを使う） -->
+              <div id="api-key-group">
+                <label class="block text-xs font-medium text-slate-600 mb-2">APIキー<span id="api-key-optional" class="hidden text-slate-400">（任意）</span></label>
+                <input type="password" id="api-key-input" placeholder="sk-..." class="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                <p id="server-key-status" class="hidden mt-1 text-xs text-green-600">✓ サーバーでAPIキーが設定されています。入力した場合は自分のキーが優先されます</p>
+              </div>
+            </div>
+          </details>
+        </div>
+
+        <!-- 入力エリア -->
+        <div class="p-4 border-t border-slate-200">
+          <!-- 入力コンテナ（ボーダー付き） -->
+          <div class="border border-slate-200 rounded-xl focus-within:ring-2 focus-within:ring-purple-500 focus-within:border-transparent transition-all">
+            <!-- 添付ファイル -->
+            <div id="uploaded-files" class="flex flex-wrap gap-1 px-3 pt-2 empty:hidden"></div>
+            <!-- 選択された要素 -->
+            <div id="selected-element" class="flex flex-wrap gap-1 px-3 pt-2 empty:hidden"></div>
+            <!-- テキストエリア -->
+            <textarea id="prompt-input" placeholder="変更内容を具体的かつ明確に教えてください。一度に1つのタスク。" rows="3" class="w-full px-4 pt-3 pb-2 text-sm rounded-t-xl border-0 focus:outline-none resize-none"></textarea>
+
+            <!-- ツールバー（入力欄内） -->
+            <div class="flex items-center justify-between px-3 py-2 border-t border-slate-100">
+              <div class="flex items-center gap-1">
+                <button id="element-picker-btn" onclick="toggleElementPicker()" class="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-md transition-colors border border-dashed border-slate-300" title="プレビューで要素を選択して、その要素だけを修正">
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"/>
+                  </svg>
+                  <span>セレクター</span>
+                </button>
+                <button class="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors" title="コード">
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"/>
+                  </svg>
+                </button>
+                <button class="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors" title="音声入力">
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"/>
+                  </svg>
+                </button>
+                <button onclick="document.getElementById('file-upload').click()" class="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors" title="画像・PDFをアップロード">
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"/>
+                  </svg>
+                </button>
+                <input type="file" accept="image/*,.pdf" multiple class="hidden" id="file-upload" />
+              </div>
+              <!-- 停止ボタン（生成中のみ表示） -->
+              <button id="cancel-btn" onclick="cancelGeneration()" class="hidden p-1.5 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors" title="生成を停止">
+                <svg class="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2"/>
+                </svg>
+              </button>
+              <!-- 送信ボタン -->
+              <button id="send-btn" onclick="handleSend()" class="p-1.5 text-slate-400 hover:text-purple-600 hover:bg-purple-50 rounded-md transition-colors disabled:text-slate-200 disabled:hover:bg-transparent" disabled title="送信">
+                <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 12h14M12 5l7 7-7 7"/>
+                </svg>
+              </button>
+            </div>
+          </div>
+          <!-- 生成APIの残りの利用枠 -->
+          <p id="quota-status" class="hidden mt-1.5 px-1 text-xs text-slate-400"></p>
+        </div>
+      </div>
+
+      <!-- コードタブコンテンツ -->
+      <div id="code-content" class="flex-1 hidden min-h-0">
+        <div class="h-full p-4 flex flex-col gap-3">
+          <!-- バージョン履歴 -->
+          <div class="border border-slate-200 rounded-lg">
+            <div class="flex items-center justify-between px-3 py-2 border-b border-slate-100">
+              <span class="text-xs font-medium text-slate-600">バージョン履歴</span>
+              <div class="flex items-center gap-1">
+                <button onclick="undoVersion()" class="version-undo px-2 py-0.5 text-xs text-slate-500 hover:bg-slate-100 rounded disabled:opacity-40" disabled>↶ 戻す</button>
+                <button onclick="redoVersion()" class="version-redo px-2 py-0.5 text-xs text-slate-500 hover:bg-slate-100 rounded disabled:opacity-40" disabled>進む ↷</button>
+              </div>
+            </div>
+            <div id="version-list" class="max-h-36 overflow-y-auto text-xs">
+              <p class="px-3 py-2 text-slate-400">まだバージョンはありません</p>
+            </div>
+            <!-- 差分比較 -->
+            <div class="flex items-center gap-1 px-3 py-2 border-t border-slate-100">
+              <select id="diff-from" class="flex-1 min-w-0 px-1 py-0.5 text-xs rounded border border-slate-200 bg-white"></select>
+              <span class="text-xs text-slate-400">→</span>
+              <select id="diff-to" class="flex-1 min-w-0 px-1 py-0.5 text-xs rounded border border-slate-200 bg-white"></select>
+              <button id="diff-btn" onclick="toggleVersionDiff()" class="px-2 py-0.5 text-xs text-purple-600 border border-purple-200 hover:bg-purple-50 rounded">差分</button>
+            </div>
+          </div>
+          <!-- コードエディター -->
+          <div id="full-code-display" class="flex-1 min-h-0 flex flex-col bg-slate-800 rounded-lg overflow-hidden">
+            <div class="flex items-center gap-1 px-2 py-1.5 border-b border-slate-700 text-xs">
+              <select id="code-file-select" class="min-w-0 max-w-[9rem] px-1 py-0.5 rounded bg-slate-700 text-slate-100 font-mono" title="編集するファイル"></select>
+              <div class="flex-1 min-w-0 flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-700">
+                <input id="code-search-input" type="search" placeholder="検索" class="flex-1 min-w-0 bg-transparent text-slate-100 placeholder-slate-400 focus:outline-none" />
+                <span id="code-search-count" class="text-slate-400"></span>
+                <button onclick="findInCode(-1)" class="text-slate-400 hover:text-white" title="前を検索（Shift+Enter）">↑</button>
+                <button onclick="findInCode(1)" class="text-slate-400 hover:text-white" title="次を検索（Enter）">↓</button>
+              </div>
+              <button id="code-format-btn" onclick="formatCode()" class="px-2 py-0.5 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40" disabled>整形</button>
+              <button id="code-revert-btn" onclick="revertCodeEdits()" class="px-2 py-0.5 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40" disabled>破棄</button>
+              <button id="code-apply-btn" onclick="applyCodeEdits()" class="px-2 py-0.5 rounded bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-40 disabled:hover:bg-purple-500" title="プレビューに反映して履歴に記録（Ctrl+S）" disabled>適用</button>
+            </div>
+            <div class="relative flex-1 min-h-0">
+              <pre id="code-highlight" aria-hidden="true" class="absolute inset-0 m-0 p-4 overflow-hidden font-mono text-sm leading-5 whitespace-pre text-slate-100 pointer-events-none"><code></code></pre>
+              <textarea id="code-editor" spellcheck="false" placeholder="コードはまだ生成されていません" class="absolute inset-0 w-full h-full m-0 p-4 font-mono text-sm leading-5 whitespace-pre bg-transparent text-transparent caret-white placeholder-slate-400 resize-none focus:outline-none overflow-auto" readonly></textarea>
+            </div>
+            <p id="code-editor-status" class="hidden px-3 py-1 border-t border-slate-700 text-xs text-amber-300">未適用の編集があります</p>
+          </div>
+          <!-- 差分表示（左右比較） -->
+          <div id="diff-view" class="hidden flex-1 min-h-0 overflow-auto rounded-lg border border-slate-200 font-mono text-[11px] leading-5"></div>
+        </div>
+      </div>
+    </div>
+  </div>
+
+  <!-- 公開ダイアログ -->
+  <div id="publish-dialog" class="hidden fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onclick="if (event.target === this) closePublishDialog()">
+    <div class="bg-white rounded-xl shadow-xl w-[28rem] p-5 space-y-4">
+      <div class="flex items-center justify-between">
+        <h2 class="font-bold text-slate-800">サイトを公開</h2>
+        <button onclick="closePublishDialog()" class="text-slate-400 hover:text-slate-600">×</button>
+      </div>
+      <p id="publish-status" class="text-sm text-slate-500">未公開</p>
+      <div>
+        <label for="publish-slug-input" class="block text-xs font-medium text-slate-600 mb-2">公開URL</label>
+        <div class="flex items-center rounded-lg border border-slate-200 focus-within:ring-2 focus-within:ring-purple-500 overflow-hidden">
+          <span id="publish-url-prefix" class="pl-3 text-sm text-slate-400 whitespace-nowrap"></span>
+          <input type="text" id="publish-slug-input" placeholder="自動で決定" class="flex-1 min-w-0 px-1 py-2 text-sm focus:outline-none" />
+        </div>
+      </div>
+      <label class="flex items-start gap-2 text-xs text-slate-600 cursor-pointer">
+        <input type="checkbox" id="publish-listed-input" class="mt-0.5 accent-purple-500" />
+        <span>
+          <span class="font-medium">検索エンジンに知らせる</span>
+          <span class="block text-slate-400">このサイトのサイトマップを、サービス全体のサイトマップ一覧（/sitemap.xml）に載せます</span>
+        </span>
+      </label>
+      <p id="publish-error" class="hidden text-xs text-red-500"></p>
+      <div class="flex items-center gap-2">
+        <button id="publish-btn" onclick="publishSite()" class="px-4 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50">公開する</button>
+        <button id="unpublish-btn" onclick="unpublishSite()" class="hidden px-3 py-1.5 text-sm text-red-500 hover:bg-red-50 rounded-lg border border-red-200 transition-colors">公開を停止</button>
+        <div class="flex-1"></div>
+        <button id="publish-copy-btn" onclick="copyPublishedUrl()" class="hidden px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg border border-slate-200 transition-colors">URLをコピー</button>
+      </div>
+    </div>
+  </div>
+
+  <!-- SEOダイアログ（ページごとのメタデータ） -->
+  <div id="seo-dialog" class="hidden fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onclick="if (event.target === this) closeSeoDialog()">
+    <div class="bg-white rounded-xl shadow-xl w-[36rem] max-w-[95vw] max-h-[90vh] p-5 flex flex-col gap-4">
+      <div class="flex items-center justify-between">
+        <h2 class="font-bold text-slate-800">SEO・SNS設定</h2>
+        <button onclick="closeSeoDialog()" class="text-slate-400 hover:text-slate-600">×</button>
+      </div>
+      <div class="flex items-center gap-2">
+        <label for="seo-page-select" class="text-xs font-medium text-slate-600">ページ</label>
+        <select id="seo-page-select" onchange="selectSeoPage(this.value)" class="flex-1 px-2 py-1.5 text-sm rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"></select>
+        <button id="seo-suggest-btn" onclick="suggestSeoMetadata()" class="px-3 py-1.5 text-sm text-purple-600 hover:bg-purple-50 rounded-lg border border-purple-200 transition-colors disabled:opacity-50">AIで提案</button>
+      </div>
+      <div class="flex-1 min-h-0 overflow-y-auto grid grid-cols-2 gap-3 pr-1">
+        <div class="col-span-2">
+          <label for="seo-title-input" class="block text-xs font-medium text-slate-600 mb-1">タイトル</label>
+          <input type="text" id="seo-title-input" class="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+        </div>
+        <div class="col-span-2">
+          <label for="seo-description-input" class="block text-xs font-medium text-slate-600 mb-1">メタディスクリプション</label>
+          <textarea id="seo-description-input" rows="2" class="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"></textarea>
+        </div>
+        <div class="col-span-2">
+          <label for="seo-canonical-input" class="block text-xs font-medium text-slate-600 mb-1">正規URL（canonical・og:url）</label>
+          <input type="text" id="seo-canonical-input" class="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+        </div>
+        <div>
+          <label for="seo-ogTitle-input" class="block text-xs font-medium text-slate-600 mb-1">OGタイトル</label>
+          <input type="text" id="seo-ogTitle-input" class="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+        </div>
+        <div>
+          <label for="seo-ogImage-input" class="block text-xs font-medium text-slate-600 mb-1">OG画像のURL</label>
+          <input type="text" id="seo-ogImage-input" class="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+        </div>
+        <div class="col-span-2">
+          <label for="seo-ogDescription-input" class="block text-xs font-medium text-slate-600 mb-1">OGディスクリプション</label>
+          <textarea id="seo-ogDescription-input" rows="2" class="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"></textarea>
+        </div>
+        <div>
+          <label for="seo-ogType-input" class="block text-xs font-medium text-slate-600 mb-1">OGタイプ</label>
+          <select id="seo-ogType-input" class="w-full px-2 py-1.5 text-sm rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500">
+            <option value="">指定しない</option>
+            <option value="website">website</option>
+            <option value="article">article</option>
+            <option value="profile">profile</option>
+            <option value="product">product</option>
+          </select>
+        </div>
+        <div>
+          <label for="seo-twitterCard-input" class="block text-xs font-medium text-slate-600 mb-1">Twitterカード</label>
+          <select id="seo-twitterCard-input" class="w-full px-2 py-1.5 text-sm rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500">
+            <option value="">指定しない</option>
+            <option value="summary">summary</option>
+            <option value="summary_large_image">summary_large_image</option>
+          </select>
+        </div>
+        <div class="col-span-2">
+          <label for="seo-structuredData-input" class="block text-xs font-medium text-slate-600 mb-1">構造化データ（JSON-LD）</label>
+          <textarea id="seo-structuredData-input" rows="6" class="w-full px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y font-mono text-xs"></textarea>
+        </div>
+      </div>
+      <p id="seo-status" class="hidden text-xs text-slate-500"></p>
+      <p id="seo-error" class="hidden text-xs text-red-500"></p>
+      <div class="flex items-center gap-2">
+        <p class="flex-1 text-xs text-slate-400">保存するとページのheadに書き込まれます。公開中のサイトには再公開で反映されます。</p>
+        <button id="seo-apply-btn" onclick="applySeoMetadata()" class="px-4 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50">保存</button>
+      </div>
+    </div>
+  </div>
+
+  <!-- 翻訳ダイアログ（多言語版の作成） -->
+  <div id="translate-dialog" class="hidden fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onclick="if (event.target === this) closeTranslateDialog()">
+    <div class="bg-white rounded-xl shadow-xl w-[28rem] max-w-[95vw] p-5 flex flex-col gap-4">
+      <div class="flex items-center justify-between">
+        <h2 class="font-bold text-slate-800">サイトを翻訳</h2>
+        <button onclick="closeTranslateDialog()" class="text-slate-400 hover:text-slate-600">×</button>
+      </div>
+      <div>
+        <label for="translate-source-select" class="block text-xs font-medium text-slate-600 mb-1">元のページの言語</label>
+        <select id="translate-source-select" onchange="renderTranslateLocales()" class="w-full px-2 py-1.5 text-sm rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"></select>
+      </div>
+      <fieldset>
+        <legend class="block text-xs font-medium text-slate-600 mb-1">翻訳先の言語</legend>
+        <div id="translate-locales" class="grid grid-cols-2 gap-1.5"></div>
+      </fieldset>
+      <p id="translate-status" class="hidden text-xs text-slate-500"></p>
+      <p id="translate-error" class="hidden text-xs text-red-500"></p>
+      <div class="flex items-center gap-2">
+        <p class="flex-1 text-xs text-slate-400">レイアウトはそのままにテキストだけを翻訳し、言語ごとのページと言語切り替えを追加します。元のページを編集すると多言語版も更新されます。</p>
+        <button id="translate-btn" onclick="translateSite()" class="px-4 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50">翻訳</button>
+      </div>
+    </div>
+  </div>
+
+  <!-- 共有ダイアログ -->
+  <div id="share-dialog" class="hidden fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onclick="if (event.target === this) closeShareDialog()">
+    <div class="bg-white rounded-xl shadow-xl w-[30rem] p-5 space-y-4">
+      <div class="flex items-center justify-between">
+        <h2 class="font-bold text-slate-800">共有リンク</h2>
+        <button onclick="closeShareDialog()" class="text-slate-400 hover:text-slate-600">×</button>
+      </div>
+      <p class="text-sm text-slate-500">リンクを知っている人は、このプロジェクトを閲覧のみできます。</p>
+      <!-- 発行済みのリンク -->
+      <div id="share-list" class="space-y-2 max-h-56 overflow-y-auto"></div>
+      <!-- 新しいリンクを発行 -->
+      <div class="border-t border-slate-100 pt-4 flex items-end gap-2">
+        <div>
+          <label for="share-expiry-select" class="block text-xs font-medium text-slate-600 mb-2">有効期限</label>
+          <select id="share-expiry-select" class="px-2 py-2 text-sm rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-purple-500">
+            <option value="3600">1時間</option>
+            <option value="86400">1日</option>
+            <option value="604800" selected>7日</option>
+            <option value="2592000">30日</option>
+            <option value="">無期限</option>
+          </select>
+        </div>
+        <div class="flex-1">
+          <label for="share-passcode-input" class="block text-xs font-medium text-slate-600 mb-2">パスコード（任意）</label>
+          <input type="text" id="share-passcode-input" placeholder="なし" autocomplete="off" class="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+        </div>
+        <button id="create-share-btn" onclick="createShareLink()" class="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50">発行</button>
+      </div>
+      <p class="text-xs text-slate-400">パスコードが保護するのは共有リンクの表示だけです。プロジェクトAPIには認証がないため、このアプリにアクセスできる人はプロジェクトの内容を見ることができます</p>
+      <p id="share-error" class="hidden text-xs text-red-500"></p>
+    </div>
+  </div>
+
+  <!-- テンプレートギャラリー -->
+  <div id="template-dialog" class="hidden fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center" onclick="if (event.target === this) closeTemplateGallery()">
+    <div class="bg-white rounded-xl shadow-xl w-[48rem] max-w-[95vw] max-h-[85vh] p-5 flex flex-col gap-4">
+      <div class="flex items-center justify-between">
+        <h2 class="font-bold text-slate-800">テンプレートから作成</h2>
+        <button onclick="closeTemplateGallery()" class="text-slate-400 hover:text-slate-600">×</button>
+      </div>
+      <p class="text-sm text-slate-500">テンプレートを選ぶと新しいプロジェクトとして読み込まれ、最初の要望からそのサイトを修正できます。</p>
+      <div id="template-list" class="grid grid-cols-2 md:grid-cols-3 gap-3 overflow-y-auto"></div>
+    </div>
+  </div>
+
+  <script src="/static/main.js"></script>
+</body>
+</html>`
+}
+
+/**
+ * クライアントサイドスクリプト
+ */
+function getMainJS(): string {
+  return `// クライアントサイドスクリプト
+const state = {
+  aiProvider: localStorage.getItem('aiProvider') || 'openai',
+  apiKey: localStorage.getItem('apiKey') || '',
+  providers: [],
+  providerModels: JSON.parse(localStorage.getItem('providerModels') || '{}'),
+  temperature: parseFloat(localStorage.getItem('temperature') || '0.7'),
+  maxTokens: parseInt(localStorage.getItem('maxTokens') || '8000', 10),
+  editMode: localStorage.getItem('editMode') || 'patch',
+  customBaseUrl: localStorage.getItem('customBaseUrl') || '',
+  customModel: localStorage.getItem('customModel') || '',
+  customApiKey: localStorage.getItem('customApiKey') || '',
+  projectId: localStorage.getItem('currentProjectId'),
+  projectName: '新規プロジェクト',
+  projects: [],
+  projectsEnabled: true,
+  messages: [],
+  versions: [],
+  currentVersion: null,
+  published: null,
+  showDiff: false,
+  uploadedFiles: [],
+  generatedCode: null,
+  isGenerating: false,
+  abortController: null,
+  streamingCode: '',
+  currentPage: 'index.html',
+  selectedElement: null,
+  isPickingElement: false,
+  editorDraft: null,
+  editorBase: null,
+  editorPath: 'index.html',
+  editorSearchIndex: -1,
+  themes: [],
+  defaultThemeId: null,
+  themeId: null,
+  customThemes: [],
+  fallbackProviders: [],
+  templates: [],
+  quota: null,
+  accessibilityIssues: [],
+  seoPages: [],
+  seoPath: 'index.html',
+  // 多言語版の言語と翻訳メモリ（プロジェクトに保存）
+  localization: null,
+  currentViewMode: 'desktop',
+  showCode: false
+}
+
+// 初期化
+document.addEventListener('DOMContentLoaded', async () => {
+  initEventListeners()
+  loadSettings()
+  updateUI()
+  await loadProviders()
+  await loadThemes()
+  await restoreCurrentProject()
+  await loadQuota()
+})
+
+function initEventListeners() {
+  initCodeEditor()
+
+  // プレビュー内のサイト内リンクはページ切り替えとして扱う（srcdocでは相対リンクを開けないため）
+  const previewIframe = document.getElementById('preview-iframe')
+  if (previewIframe) {
+    previewIframe.addEventListener('load', () => {
+      const doc = previewIframe.contentDocument
+      if (!doc) return
+      if (state.isPickingElement) attachElementPicker(doc)
+      doc.addEventListener('click', (e) => {
+        const link = e.target.closest ? e.target.closest('a[href]') : null
+        const path = link ? localPath(link.getAttribute('href')) : null
+        if (path && path.endsWith('.html') && path in currentFiles()) {
+          e.preventDefault()
+          selectPage(path)
+        }
+      })
+    })
+  }
+
+  // AIプロバイダー選択
+  document.querySelectorAll('input[name="ai-provider"]').forEach(radio => {
+    radio.addEventListener('change', (e) => {
+      state.aiProvider = e.target.value
+      localStorage.setItem('aiProvider', e.target.value)
+      renderModelOptions()
+      renderFallbackProviders()
+    })
+  })
+
+  // モデル選択
+  const modelSelect = document.getElementById('model-select')
+  if (modelSelect) {
+    modelSelect.addEventListener('change', (e) => {
+      state.providerModels[state.aiProvider] = e.target.value
+      localStorage.setItem('providerModels', JSON.stringify(state.providerModels))
+      renderModelOptions()
+    })
+  }
+
+  // カスタムエンドポイント
+  const customBaseUrlInput = document.getElementById('custom-base-url-input')
+  if (customBaseUrlInput) {
+    customBaseUrlInput.value = state.customBaseUrl
+    customBaseUrlInput.addEventListener('input', (e) => {
+      state.customBaseUrl = e.target.value.trim()
+      localStorage.setItem('customBaseUrl', state.customBaseUrl)
+    })
+  }
+  const customModelInput = document.getElementById('custom-model-input')
+  if (customModelInput) {
+    customModelInput.value = state.customModel
+    customModelInput.addEventListener('input', (e) => {
+      state.customModel = e.target.value.trim()
+      localStorage.setItem('customModel', state.customModel)
+    })
+  }
+  const customApiKeyInput = document.getElementById('custom-api-key-input')
+  if (customApiKeyInput) {
+    customApiKeyInput.value = state.customApiKey
+    customApiKeyInput.addEventListener('input', (e) => {
+      state.customApiKey = e.target.value
+      localStorage.setItem('customApiKey', e.target.value)
+    })
+  }
+
+  // Temperature
+  const temperatureInput = document.getElementById('temperature-input')
+  if (temperatureInput) {
+    temperatureInput.addEventListener('input', (e) => {
+      state.temperature = parseFloat(e.target.value)
+      localStorage.setItem('temperature', String(state.temperature))
+      const label = document.getElementById('temperature-value')
+      if (label) label.textContent = state.temperature.toFixed(1)
+    })
+  }
+
+  // 最大出力トークン
+  const maxTokensInput = document.getElementById('max-tokens-input')
+  if (maxTokensInput) {
+    maxTokensInput.addEventListener('change', (e) => {
+      const max = parseInt(e.target.max, 10) || Infinity
+      state.maxTokens = Math.min(Math.max(parseInt(e.target.value, 10) || 8000, 1000), max)
+      e.target.value = state.maxTokens
+      localStorage.setItem('maxTokens', String(state.maxTokens))
+    })
+  }
+
+  // 修正モード（差分編集 / 全体を再生成）
+  const patchEditInput = document.getElementById('patch-edit-input')
+  if (patchEditInput) {
+    patchEditInput.checked = state.editMode === 'patch'
+    patchEditInput.addEventListener('change', (e) => {
+      state.editMode = e.target.checked ? 'patch' : 'full'
+      localStorage.setItem('editMode', state.editMode)
+    })
+  }
+
+  // デザインテーマ
+  const themeSelect = document.getElementById('theme-select')
+  if (themeSelect) {
+    themeSelect.addEventListener('change', (e) => {
+      state.themeId = e.target.value
+      renderThemePreview()
+      fillThemeEditor()
+      if (state.projectId) saveCurrentProject()
+    })
+  }
+
+  // APIキー入力
+  const apiKeyInput = document.getElementById('api-key-input')
+  if (apiKeyInput) {
+    apiKeyInput.value = state.apiKey
+    apiKeyInput.addEventListener('input', (e) => {
+      state.apiKey = e.target.value
+      localStorage.setItem('apiKey', e.target.value)
+    })
+  }
+
+  // プロンプト入力
+  const textarea = document.getElementById('prompt-input')
+  if (textarea) {
+    textarea.addEventListener('input', updateSendButton)
+  }
+
+  // ファイルアップロード
+  const fileInput = document.getElementById('file-upload')
+  if (fileInput) {
+    fileInput.addEventListener('change', handleFileUpload)
+  }
+}
+
+function loadSettings() {
+  // AIプロバイダーを復元
+  const providerRadio = document.querySelector(\`input[name="ai-provider"][value="\${state.aiProvider || 'openai'}"]\`)
+  if (providerRadio) {
+    providerRadio.checked = true
+  }
+}
+
+const THEME_PALETTE_KEYS = ['primary', 'secondary', 'accent', 'background', 'text']
+// サーバー側の上限と同じ
+const MAX_CUSTOM_THEMES = 20
+
+// デザインテーマ一覧を取得
+async function loadThemes() {
+  try {
+    const response = await fetch('/api/themes')
+    const data = await response.json()
+    state.themes = data.themes
+    state.defaultThemeId = data.defaultTheme
+    renderThemeOptions()
+  } catch (error) {
+    console.error('Failed to load themes:', error)
+  }
+}
+
+function isCustomTheme(id) {
+  return state.customThemes.some(t => t.id === id)
+}
+
+// 選択中のテーマ（見つからなければ既定のテーマ）
+function currentTheme() {
+  const themes = state.themes.concat(state.customThemes)
+  return themes.find(t => t.id === state.themeId) || themes.find(t => t.id === state.defaultThemeId) || null
+}
+
+// テーマの選択肢（プリセットとこのプロジェクトのカスタムテーマ）
+function renderThemeOptions() {
+  const select = document.getElementById('theme-select')
+  if (!select) return
+
+  const option = t => '<option value="' + escapeHtml(t.id) + '">' + escapeHtml(t.name) + '</option>'
+  select.innerHTML = '<optgroup label="プリセット">' + state.themes.map(option).join('') + '</optgroup>' +
+    (state.customThemes.length > 0 ? '<optgroup label="カスタム">' + state.customThemes.map(option).join('') + '</optgroup>' : '')
+
+  const theme = currentTheme()
+  if (theme) select.value = theme.id
+  renderThemePreview()
+  fillThemeEditor()
+}
+
+// 選択中のテーマの配色とフォント
+function renderThemePreview() {
+  const preview = document.getElementById('theme-preview')
+  const theme = currentTheme()
+  if (!preview || !theme) return
+
+  preview.innerHTML = THEME_PALETTE_KEYS
+    .map(key => '<span class="w-4 h-4 flex-shrink-0 rounded-full border border-slate-200" style="background:' + escapeHtml(theme.palette[key]) + '"></span>')
+    .join('') +
+    '<span class="truncate">' + escapeHtml(theme.typography.headingFont) + ' / ' + escapeHtml(theme.typography.bodyFont) + '</span>'
+}
+
+// 選択中のテーマをカスタマイズ欄に反映（プリセットは複製して編集する）
+function fillThemeEditor() {
+  const theme = currentTheme()
+  if (!theme) return
+
+  const custom = isCustomTheme(theme.id)
+  document.getElementById('theme-name-input').value = custom ? theme.name : theme.name + '（カスタム）'
+  document.querySelectorAll('[data-theme-color]').forEach(input => {
+    input.value = theme.palette[input.dataset.themeColor]
+  })
+  document.getElementById('theme-heading-font-input').value = theme.typography.headingFont
+  document.getElementById('theme-body-font-input').value = theme.typography.bodyFont
+  document.getElementById('theme-radius-select').value = theme.borderRadius
+  document.getElementById('theme-density-select').value = theme.density
+  document.getElementById('theme-scheme-select').value = theme.colorScheme
+  document.getElementById('theme-delete-btn').classList.toggle('hidden', !custom)
+  document.getElementById('theme-save-btn').textContent = custom ? 'テーマを更新' : 'カスタムテーマとして保存'
+}
+
+window.toggleThemeEditor = function() {
+  const editor = document.getElementById('theme-editor')
+  if (editor) editor.classList.toggle('hidden')
+}
+
+// カスタムテーマを保存（カスタムテーマの選択中は上書き、プリセットの選択中は新規作成）
+window.saveCustomTheme = async function() {
+  const name = document.getElementById('theme-name-input').value.trim()
+  const headingFont = document.getElementById('theme-heading-font-input').value.trim()
+  const bodyFont = document.getElementById('theme-body-font-input').value.trim()
+  if (!name || !headingFont || !bodyFont) {
+    alert('テーマ名とフォントを入力してください')
+    return
+  }
+
+  const updating = isCustomTheme(state.themeId)
+  if (!updating && state.customThemes.length >= MAX_CUSTOM_THEMES) {
+    alert('カスタムテーマは最大' + MAX_CUSTOM_THEMES + '件までです')
+    return
+  }
+
+  const palette = {}
+  document.querySelectorAll('[data-theme-color]').forEach(input => {
+    palette[input.dataset.themeColor] = input.value
+  })
+  const theme = {
+    id: updating ? state.themeId : 'custom-' + Date.now().toString(36),
+    name,
+    palette,
+    typography: { headingFont, bodyFont },
+    borderRadius: document.getElementById('theme-radius-select').value,
+    density: document.getElementById('theme-density-select').value,
+    colorScheme: document.getElementById('theme-scheme-select').value
+  }
+
+  state.customThemes = updating
+    ? state.customThemes.map(t => t.id === theme.id ? theme : t)
+    : state.customThemes.concat(theme)
+  state.themeId = theme.id
+  renderThemeOptions()
+  if (state.projectId) await saveCurrentProject()
+}
+
+window.deleteCustomTheme = async function() {
+  const theme = currentTheme()
+  if (!theme || !isCustomTheme(theme.id)) return
+  if (!confirm('カスタムテーマ「' + theme.name + '」を削除しますか？')) return
+
+  state.customThemes = state.customThemes.filter(t => t.id !== theme.id)
+  state.themeId = state.defaultThemeId
+  renderThemeOptions()
+  if (state.projectId) await saveCurrentProject()
+}
+
+// プロバイダー・モデル一覧を取得
+async function loadProviders() {
+  try {
+    const response = await fetch('/api/providers')
+    const data = await response.json()
+    state.providers = data.providers
+    // サーバー側にAPIキーが設定済みのプロバイダーに印を付ける
+    state.providers.forEach(p => {
+      const badge = document.querySelector('[data-server-key="' + p.id + '"]')
+      if (badge) badge.classList.toggle('hidden', !p.serverKey)
+    })
+    renderModelOptions()
+    renderFallbackProviders()
+  } catch (error) {
+    console.error('Failed to load providers:', error)
+  }
+}
+
+// 選択中プロバイダーのモデルと生成パラメーターの範囲を反映
+function renderModelOptions() {
+  const provider = state.providers.find(p => p.id === state.aiProvider)
+  const modelSelect = document.getElementById('model-select')
+  if (!provider || !modelSelect) return
+
+  // カスタムエンドポイントはモデル一覧の代わりにURLとモデル名を入力
+  const modelSelectGroup = document.getElementById('model-select-group')
+  const customSettings = document.getElementById('custom-endpoint-settings')
+  const apiKeyGroup = document.getElementById('api-key-group')
+  const apiKeyOptional = document.getElementById('api-key-optional')
+  if (modelSelectGroup) modelSelectGroup.classList.toggle('hidden', provider.customEndpoint)
+  if (customSettings) customSettings.classList.toggle('hidden', !provider.customEndpoint)
+  if (apiKeyGroup) apiKeyGroup.classList.toggle('hidden', provider.customEndpoint)
+  if (apiKeyOptional) apiKeyOptional.classList.toggle('hidden', !provider.serverKey)
+
+  // サーバー側のキーがあれば入力は不要（入力したキーはサーバーのキーより優先）
+  const serverKeyStatus = document.getElementById('server-key-status')
+  if (serverKeyStatus) serverKeyStatus.classList.toggle('hidden', !provider.serverKey)
+
+  const modelId = provider.models.some(m => m.id === state.providerModels[provider.id])
+    ? state.providerModels[provider.id]
+    : provider.defaultModel
+  state.providerModels[provider.id] = modelId
+  modelSelect.innerHTML = provider.models.map(m => \`
+    <option value="\${m.id}"\${m.id === modelId ? ' selected' : ''}>\${escapeHtml(m.label)}</option>
+  \`).join('')
+
+  const temperatureInput = document.getElementById('temperature-input')
+  if (temperatureInput) {
+    temperatureInput.max = String(provider.maxTemperature)
+    state.temperature = Math.min(state.temperature, provider.maxTemperature)
+    temperatureInput.value = String(state.temperature)
+    const label = document.getElementById('temperature-value')
+    if (label) label.textContent = state.temperature.toFixed(1)
+  }
+
+  const model = provider.models.find(m => m.id === modelId)
+  const maxTokensInput = document.getElementById('max-tokens-input')
+  if (maxTokensInput) {
+    maxTokensInput.max = model ? String(model.maxOutputTokens) : ''
+    maxTokensInput.value = String(model ? Math.min(state.maxTokens, model.maxOutputTokens) : state.maxTokens)
+  }
+}
+
+// フォールバック先の一覧（チェックした順に切り替える。サーバー側のAPIキーがないプロバイダーは選べない）
+function renderFallbackProviders() {
+  const list = document.getElementById('fallback-provider-list')
+  if (!list) return
+
+  const eligible = state.providers.filter(p => !p.customEndpoint)
+  const selected = state.fallbackProviders
+    .map(id => eligible.find(p => p.id === id))
+    .filter(Boolean)
+  const others = eligible.filter(p => !state.fallbackProviders.includes(p.id))
+
+  list.innerHTML = [...selected, ...others].map(p => {
+    const index = state.fallbackProviders.indexOf(p.id)
+    const note = p.id === state.aiProvider ? '（選択中）' : !p.serverKey ? '（サーバーのAPIキーが未設定）' : ''
+    return \`
+      <div class="flex items-center gap-2 text-xs text-slate-600">
+        <input type="checkbox" onchange="toggleFallbackProvider('\${p.id}')" class="accent-purple-500"\${index >= 0 ? ' checked' : ''}\${p.serverKey ? '' : ' disabled'} />
+        <span class="flex-1\${p.serverKey ? '' : ' text-slate-400'}">\${index >= 0 ? (index + 1) + '. ' : ''}\${escapeHtml(p.label)}<span class="text-slate-400">\${note}</span></span>
+        \${index >= 0 ? \`
+          <button onclick="moveFallbackProvider('\${p.id}', -1)" class="px-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"\${index === 0 ? ' disabled' : ''} title="優先度を上げる">↑</button>
+          <button onclick="moveFallbackProvider('\${p.id}', 1)" class="px-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"\${index === state.fallbackProviders.length - 1 ? ' disabled' : ''} title="優先度を下げる">↓</button>
+        \` : ''}
+      </div>
+    \`
+  }).join('')
+}
+
+window.toggleFallbackProvider = function(id) {
+  state.fallbackProviders = state.fallbackProviders.includes(id)
+    ? state.fallbackProviders.filter(p => p !== id)
+    : [...state.fallbackProviders, id]
+  renderFallbackProviders()
+  if (state.projectId) saveCurrentProject()
+}
+
+window.moveFallbackProvider = function(id, delta) {
+  const order = [...state.fallbackProviders]
+  const index = order.indexOf(id)
+  const target = index + delta
+  if (index < 0 || target < 0 || target >= order.length) return
+  order.splice(index, 1)
+  order.splice(target, 0, id)
+  state.fallbackProviders = order
+  renderFallbackProviders()
+  if (state.projectId) saveCurrentProject()
+}
+
+// プロバイダーとモデルの表示名
+function providerDisplayName(providerId, modelId) {
+  const provider = state.providers.find(p => p.id === providerId)
+  if (!provider) return providerId
+  const model = provider.models.find(m => m.id === modelId)
+  return modelId ? provider.label + '・' + (model ? model.label : modelId) : provider.label
+}
+
+// 選択中のプロバイダーがカスタムエンドポイントかどうか
+function isCustomEndpoint() {
+  const provider = state.providers.find(p => p.id === state.aiProvider)
+  return Boolean(provider && provider.customEndpoint)
+}
+
+// 選択中のプロバイダーに送るAPIキー（カスタムエンドポイントには専用のキーだけを送る）
+function currentApiKey() {
+  return isCustomEndpoint() ? state.customApiKey : state.apiKey
+}
+
+// 選択中のプロバイダーにサーバー側のAPIキーが設定されているか
+function hasServerKey() {
+  const provider = state.providers.find(p => p.id === state.aiProvider)
+  return Boolean(provider && provider.serverKey)
+}
+
+function updateUI() {
+  updateSendButton()
+}
+
+function updateSendButton() {
+  const input = document.getElementById('prompt-input')
+  const btn = document.getElementById('send-btn')
+  const cancelBtn = document.getElementById('cancel-btn')
+  if (!btn || !input) return
+
+  btn.disabled = !input.value.trim() || state.isGenerating
+  if (cancelBtn) cancelBtn.classList.toggle('hidden', !state.isGenerating)
+}
+
+// 参考画像・PDFの制限（サーバー側と同じ値）
+const MAX_IMAGES = 4
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024
+const MAX_DOCUMENTS = 2
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024
+
+function handleFileUpload(e) {
+  const files = Array.from(e.target.files || [])
+  const allowedTypes = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
+  const validFiles = files.filter(f => allowedTypes.includes(f.type))
+
+  // 画像・PDFの件数・サイズを事前にチェック
+  const oversized = validFiles.filter(f => f.size > (f.type.startsWith('image/') ? MAX_IMAGE_BYTES : MAX_DOCUMENT_BYTES))
+  if (oversized.length > 0) {
+    alert('ファイルサイズが大きすぎます（画像は最大4MB、PDFは最大10MB）: ' + oversized.map(f => f.name).join(', '))
+  }
+  const accepted = validFiles.filter(f => !oversized.includes(f))
+  const merged = [...state.uploadedFiles, ...accepted]
+  if (merged.filter(f => f.type.startsWith('image/')).length > MAX_IMAGES) {
+    alert('参考画像は最大' + MAX_IMAGES + '枚までです')
+    e.target.value = ''
+    return
+  }
+  if (merged.filter(f => f.type === 'application/pdf').length > MAX_DOCUMENTS) {
+    alert('参考PDFは最大' + MAX_DOCUMENTS + '件までです')
+    e.target.value = ''
+    return
+  }
+
+  state.uploadedFiles = [...state.uploadedFiles, ...accepted]
+  e.target.value = ''
+  updateUploadedFilesDisplay()
+}
+
+function updateUploadedFilesDisplay() {
+  const container = document.getElementById('uploaded-files')
+  if (!container) return
+
+  container.innerHTML = state.uploadedFiles.map((file, index) => \`
+    <span class="inline-flex items-center gap-1 px-2 py-1 bg-slate-100 rounded text-xs text-slate-600">
+      \${file.type.startsWith('image/') ? '🖼️' : '📄'}
+      \${file.name}
+      <button onclick="removeFile(\${index})" class="ml-1 text-slate-400 hover:text-red-500">×</button>
+    </span>
+  \`).join('')
+}
+
+window.removeFile = function(index) {
+  state.uploadedFiles = state.uploadedFiles.filter((_, i) => i !== index)
+  updateUploadedFilesDisplay()
+}
+
+// 要素セレクター
+// プレビューはスクリプトを実行させないsandbox（allow-same-origin）のため、
+// 親ページからiframeのドキュメントにイベントを登録して選択する
+const MAX_ELEMENT_HTML_LENGTH = 20000
+let pickerCleanup = null
+
+window.toggleElementPicker = function() {
+  if (state.isPickingElement) {
+    stopElementPicker()
+    return
+  }
+  if (!state.generatedCode || state.isGenerating) {
+    alert('先にWebサイトを生成してください')
+    return
+  }
+
+  state.isPickingElement = true
+  if (state.showCode) toggleCodeView()
+  updateElementPickerButton()
+
+  const iframe = document.getElementById('preview-iframe')
+  if (iframe && iframe.contentDocument) attachElementPicker(iframe.contentDocument)
+}
+
+function stopElementPicker() {
+  state.isPickingElement = false
+  if (pickerCleanup) pickerCleanup()
+  pickerCleanup = null
+  updateElementPickerButton()
+}
+
+function updateElementPickerButton() {
+  const button = document.getElementById('element-picker-btn')
+  if (!button) return
+  button.classList.toggle('border-purple-500', state.isPickingElement)
+  button.classList.toggle('text-purple-600', state.isPickingElement)
+  button.classList.toggle('bg-purple-50', state.isPickingElement)
+}
+
+// ホバー中の要素を枠で強調し、クリックした要素を選択する
+function attachElementPicker(doc) {
+  if (pickerCleanup) pickerCleanup()
+
+  const overlay = doc.createElement('div')
+  overlay.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;border:2px solid #a855f7;background:rgba(168,85,247,0.12);border-radius:4px;display:none;'
+  const label = doc.createElement('span')
+  label.style.cssText = 'position:absolute;left:-2px;bottom:100%;padding:1px 6px;background:#a855f7;color:#fff;font:12px/1.6 monospace;border-radius:4px 4px 0 0;white-space:nowrap;'
+  overlay.appendChild(label)
+  doc.documentElement.appendChild(overlay)
+
+  let hovered = null
+  const isSelectable = (el) => el && el.nodeType === 1 && el !== doc.body && el !== doc.documentElement && el !== overlay
+
+  const highlight = () => {
+    if (!hovered) {
+      overlay.style.display = 'none'
+      return
+    }
+    const rect = hovered.getBoundingClientRect()
+    overlay.style.display = 'block'
+    overlay.style.top = rect.top + 'px'
+    overlay.style.left = rect.left + 'px'
+    overlay.style.width = rect.width + 'px'
+    overlay.style.height = rect.height + 'px'
+    label.textContent = hovered.tagName.toLowerCase()
+  }
+  const onMouseOver = (e) => {
+    hovered = isSelectable(e.target) ? e.target : null
+    highlight()
+  }
+  const onClick = (e) => {
+    // リンクの遷移やページ切り替えより先に処理する
+    e.preventDefault()
+    e.stopPropagation()
+    if (!isSelectable(e.target)) return
+
+    const html = e.target.outerHTML
+    if (html.length > MAX_ELEMENT_HTML_LENGTH) {
+      alert('この要素は大きすぎます。より小さい要素を選択してください')
+      return
+    }
+    state.selectedElement = { path: state.currentPage, selector: cssPath(e.target), html }
+    stopElementPicker()
+    updateSelectedElementDisplay()
+    const input = document.getElementById('prompt-input')
+    if (input) input.focus()
+  }
+  const onKeyDown = (e) => {
+    if (e.key === 'Escape') stopElementPicker()
+  }
+
+  doc.addEventListener('mouseover', onMouseOver, true)
+  doc.addEventListener('click', onClick, true)
+  doc.addEventListener('keydown', onKeyDown, true)
+  doc.addEventListener('scroll', highlight, true)
+  doc.body.style.cursor = 'crosshair'
+
+  pickerCleanup = () => {
+    doc.removeEventListener('mouseover', onMouseOver, true)
+    doc.removeEventListener('click', onClick, true)
+    doc.removeEventListener('keydown', onKeyDown, true)
+    doc.removeEventListener('scroll', highlight, true)
+    doc.body.style.cursor = ''
+    overlay.remove()
+  }
+}
+
+// 要素を特定するCSSセレクター（一意なidがあればそこを起点にする）
+function cssPath(el) {
+  const doc = el.ownerDocument
+  const parts = []
+  let node = el
+  while (node && node !== doc.body && node !== doc.documentElement) {
+    if (node.id && doc.querySelectorAll('#' + CSS.escape(node.id)).length === 1) {
+      parts.unshift('#' + CSS.escape(node.id))
+      return parts.join(' > ')
+    }
+    const tag = node.tagName.toLowerCase()
+    const siblings = Array.from(node.parentElement.children).filter(child => child.tagName === node.tagName)
+    parts.unshift(siblings.length > 1 ? tag + ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')' : tag)
+    node = node.parentElement
+  }
+  parts.unshift('body')
+  return parts.join(' > ')
+}
+
+function updateSelectedElementDisplay() {
+  const container = document.getElementById('selected-element')
+  if (!container) return
+
+  const element = state.selectedElement
+  if (!element) {
+    container.innerHTML = ''
+    return
+  }
+  const tag = element.html.match(/^<([a-zA-Z0-9-]+)/)
+  container.innerHTML = \`
+    <span class="inline-flex items-center gap-1 max-w-full px-2 py-1 bg-purple-50 border border-purple-200 rounded text-xs text-purple-700" title="\${escapeHtml(element.path + ': ' + element.selector)}">
+      <span class="font-mono">&lt;\${escapeHtml(tag ? tag[1].toLowerCase() : 'element')}&gt;</span>
+      <span class="truncate font-mono text-purple-400">\${escapeHtml(element.selector)}</span>
+      <button onclick="clearSelectedElement()" class="ml-1 text-purple-300 hover:text-red-500">×</button>
+    </span>
+  \`
+}
+
+window.clearSelectedElement = function() {
+  state.selectedElement = null
+  updateSelectedElementDisplay()
+}
+
+// requestを渡すと入力欄の代わりにその要望を送る（{ prompt, editMode }。アクセシビリティの自動修正など）
+async function handleSend(request) {
+  const input = document.getElementById('prompt-input')
+  const prompt = request ? request.prompt : input?.value.trim()
+
+  if (!prompt) {
+    alert('プロンプトを入力してください')
+    return
+  }
+  if (isCustomEndpoint()) {
+    if (!state.customBaseUrl || !state.customModel) {
+      alert('設定からカスタムエンドポイントのベースURLとモデル名を入力してください')
+      return
+    }
+  } else if (!state.apiKey && !hasServerKey()) {
+    alert('設定からAPIキーを入力してください')
+    return
+  }
+
+  if (state.editorDraft && !confirm('コードタブに適用していない編集があります。破棄して送信しますか？')) return
+
+  state.isGenerating = true
+  state.abortController = new AbortController()
+  state.streamingCode = ''
+  state.editorDraft = null
+  updateSendButton()
+  updateCodeTab()
+  stopElementPicker()
+
+  // 完了済みのやり取りを会話履歴として送る（今回の要望を追加する前に取り出す）
+  const history = buildConversationHistory()
+
+  // ユーザーメッセージを追加
+  addChatMessage('user', prompt)
+
+  try {
+    const imageData = await Promise.all(
+      state.uploadedFiles
+        .filter(f => f.type.startsWith('image/'))
+        .map(async f => {
+          const base64 = await fileToBase64(f)
+          return { name: f.name, type: f.type, data: base64 }
+        })
+    )
+    const documentData = await Promise.all(
+      state.uploadedFiles
+        .filter(f => f.type === 'application/pdf')
+        .map(async f => {
+          const base64 = await fileToBase64(f)
+          return { name: f.name, type: f.type, data: base64 }
+        })
+    )
+
+    const response = await fetch('/api/generate/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt: prompt,
+        aiProvider: state.aiProvider,
+        apiKey: currentApiKey(),
+        model: isCustomEndpoint() ? state.customModel : state.providerModels[state.aiProvider],
+        baseUrl: isCustomEndpoint() ? state.customBaseUrl : undefined,
+        temperature: state.temperature,
+        maxTokens: state.maxTokens,
+        images: imageData,
+        documents: documentData,
+        selectedElement: state.generatedCode && !request ? state.selectedElement : null,
+        existingCode: state.generatedCode,
+        editMode: request && request.editMode ? request.editMode : state.editMode,
+        history: history,
+        theme: currentTheme(),
+        fallbackProviders: state.fallbackProviders,
+        projectId: state.projectId
+      }),
+      signal: state.abortController.signal
+    })
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}))
+      addChatMessage('ai', describeError(data, response.statusText))
+      updateQuota(data.quota)
+      return
+    }
+
+    // SSEを読みながらプレビューを逐次更新
+    let result = null
+    let streamError = null
+    await readEventStream(response.body, (event, data) => {
+      if (event === 'chunk') {
+        state.streamingCode += data.text
+        renderStreamingPreview()
+      } else if (event === 'fallback') {
+        // 差分を適用できなかったため、全体の再生成を最初から表示し直す
+        state.streamingCode = ''
+        addChatMessage('ai', '変更箇所を適用できなかったため、全体を再生成しています（' + data.reason + '）')
+      } else if (event === 'provider') {
+        // 別のプロバイダーで最初から生成し直すため、表示中の途中経過を消す
+        state.streamingCode = ''
+        addChatMessage('ai', providerDisplayName(data.failed) + 'を利用できないため、' + providerDisplayName(data.provider) + 'で生成し直しています（' + data.reason + '）')
+      } else if (event === 'continuation') {
+        addChatMessage('ai', '出力が途中で途切れたため、続きを生成しています（' + data.attempt + '回目）')
+      } else if (event === 'done') {
+        result = data
+      } else if (event === 'error') {
+        streamError = data
+      }
+    })
+
+    if (streamError || result === null) {
+      addChatMessage('ai', streamError ? describeError(streamError) : 'エラー: 生成が途中で終了しました')
+      restorePreview()
+      return
+    }
+
+    state.generatedCode = result.code
+    updateQuota(result.quota)
+    // 多言語版があれば元のページの変更を反映してから、バージョンとして記録する
+    const synced = await syncTranslations(result.operations)
+    recordVersion(prompt, state.generatedCode)
+
+    // 送信済みの添付ファイルと選択した要素をクリア
+    state.uploadedFiles = []
+    updateUploadedFilesDisplay()
+    clearSelectedElement()
+
+    // AI応答メッセージ
+    addChatMessage(
+      'ai',
+      (result.mode === 'patch' ? 'Webサイトの変更箇所を修正しました！' : 'Webサイトを生成しました！') +
+        '（' + providerDisplayName(result.provider, result.model) + '）',
+      summarizeGeneration(result),
+      result.usage
+    )
+    if (synced) addChatMessage('ai', synced.text, undefined, synced.usage)
+
+    // ファイル操作表示
+    showFileOperations(result.operations)
+    renderAccessibilityReport(result.accessibility || [])
+
+    // プレビュー更新
+    updatePreview()
+    updateCodeTab()
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      addChatMessage('ai', '生成をキャンセルしました')
+      restorePreview()
+    } else {
+      console.error('Error:', error)
+      addChatMessage('ai', 'エラーが発生しました: ' + error.message)
+    }
+  } finally {
+    state.isGenerating = false
+    state.abortController = null
+    updateSendButton()
+    updateCodeTab()
+
+    // 入力をクリア（入力欄以外から送った要望では書きかけの入力を残す）
+    if (input && !request) input.value = ''
+
+    // プロジェクトを保存
+    saveCurrentProject()
+  }
+}
+
+// APIのエラーをエラーコードに応じた案内にする
+function describeError(data, fallback) {
+  const message = data.error || fallback || '不明なエラー'
+  switch (data.code) {
+    case 'INVALID_INPUT':
+      return '入力内容に問題があります: ' + message
+    case 'AUTH_FAILED':
+      return '認証に失敗しました。設定からAPIキーを確認してください: ' + message
+    case 'RATE_LIMITED':
+      return '利用上限に達しました: ' + message
+    case 'PROVIDER_UNAVAILABLE':
+      return 'AIプロバイダーを利用できませんでした。しばらく待ってから再試行するか、別のプロバイダーを選択してください: ' + message
+    case 'OUTPUT_TRUNCATED':
+      return '生成を完了できませんでした: ' + message
+    case 'INVALID_OUTPUT':
+      return 'AIの出力からWebサイトを作成できませんでした。もう一度送信してください: ' + message
+    default:
+      return 'エラー: ' + message
+  }
+}
+
+// 生成APIの残りの利用枠を取得
+async function loadQuota() {
+  try {
+    const query = state.projectId ? '?projectId=' + encodeURIComponent(state.projectId) : ''
+    const response = await fetch('/api/quota' + query)
+    const data = await response.json()
+    if (data.success) updateQuota(data.quota)
+  } catch (error) {
+    console.error('Failed to load quota:', error)
+  }
+}
+
+function updateQuota(quota) {
+  if (quota) state.quota = quota
+  renderQuota()
+}
+
+// 残りの利用枠をチャット入力欄の下に表示（接続元とプロジェクトのうち少ない方）
+function renderQuota() {
+  const el = document.getElementById('quota-status')
+  if (!el) return
+  const statuses = Object.values(state.quota || {})
+  const remaining = (key) => {
+    const values = statuses.map(s => s.remaining[key]).filter(v => v !== null)
+    return values.length > 0 ? Math.min(...values) : null
+  }
+  const low = statuses.some(s => ['generationsPerDay', 'tokensPerDay'].some(key =>
+    s.remaining[key] !== null && s.remaining[key] <= s.limits[key] * 0.1))
+
+  const parts = []
+  const generations = remaining('generationsPerDay')
+  const tokens = remaining('tokensPerDay')
+  if (generations !== null) parts.push('生成 ' + generations + '回')
+  if (tokens !== null) parts.push('トークン ' + tokens.toLocaleString())
+  let text = parts.length > 0 ? '本日の残り: ' + parts.join('・') : ''
+  if (remaining('requestsPerMinute') === 0) text += (text ? '（' : '') + '1分あたりの上限に達しています' + (text ? '）' : '')
+
+  el.textContent = text
+  el.classList.toggle('hidden', !text)
+  el.classList.toggle('text-amber-600', low)
+  el.classList.toggle('text-slate-400', !low)
+}
+
+// 生成の停止
+window.cancelGeneration = function() {
+  if (state.abortController) state.abortController.abort()
+}
+
+// SSEレスポンスを読み、イベントごとにonEventを呼ぶ
+async function readEventStream(body, onEvent) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    buffer += done ? '\\n\\n' : value
+
+    const events = buffer.split(/\\r?\\n\\r?\\n/)
+    buffer = events.pop() || ''
+
+    for (const raw of events) {
+      let event = 'message'
+      const dataLines = []
+      raw.split(/\\r?\\n/).forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+      })
+      if (dataLines.length > 0) onEvent(event, JSON.parse(dataLines.join('\\n')))
+    }
+    if (done) break
+  }
+}
+
+// ストリーミング中のプレビュー描画（iframeの再描画は間引く）
+let streamRenderTimer = null
+
+// 受信途中のテキストから先頭のコードブロック記法を取り除く
+function stripCodeFence(text) {
+  return text.replace(/^\\s*\`\`\`(?:html)?\\s*\\n?/, '')
+}
+
+// 受信途中のファイルを既存のファイルに重ねる
+function streamingFiles() {
+  const text = stripCodeFence(state.streamingCode)
+  if (text.includes('<<<FILE:')) return { ...currentFiles(), ...parseSiteFiles(text) }
+  // 差分編集の出力は適用されるまでプレビューに反映しない
+  if (text.trimStart().startsWith('<<<')) return currentFiles()
+  return { ...currentFiles(), 'index.html': text }
+}
+
+function renderStreamingPreview() {
+  const code = stripCodeFence(state.streamingCode)
+
+  const editor = document.getElementById('code-editor')
+  if (editor) {
+    editor.value = code
+    renderCodeHighlight()
+  }
+  const codeDisplay = document.querySelector('#code-display code')
+  if (codeDisplay) codeDisplay.textContent = code
+
+  if (streamRenderTimer) return
+  streamRenderTimer = setTimeout(() => {
+    streamRenderTimer = null
+    if (!state.isGenerating) return
+
+    const placeholder = document.getElementById('preview-placeholder')
+    const iframe = document.getElementById('preview-iframe')
+    if (placeholder) placeholder.classList.add('hidden')
+    if (iframe && !state.showCode) {
+      const files = streamingFiles()
+      iframe.classList.remove('hidden')
+      iframe.srcdoc = buildPreviewDocument(files, state.currentPage in files ? state.currentPage : 'index.html')
+    }
+  }, 400)
+}
+
+// 生成前の状態にプレビューを戻す
+function restorePreview() {
+  if (streamRenderTimer) {
+    clearTimeout(streamRenderTimer)
+    streamRenderTimer = null
+  }
+  updateCodeTab()
+
+  if (state.generatedCode) {
+    updatePreview()
+    return
+  }
+  const placeholder = document.getElementById('preview-placeholder')
+  const iframe = document.getElementById('preview-iframe')
+  if (placeholder) placeholder.classList.remove('hidden')
+  if (iframe) iframe.classList.add('hidden')
+}
+
+// チャット履歴に記録して表示（usageは生成の使用量と料金の概算）
+function addChatMessage(role, text, summary, usage) {
+  state.messages.push(summary ? { role, text, summary, usage } : { role, text })
+  renderChatMessage(role, text, usage)
+}
+
+// 生成が完了したやり取り（要望と結果の要約）を会話履歴にする
+// キャンセルやエラーで終わった要望は含めない
+function buildConversationHistory() {
+  const history = []
+  let request = null
+  state.messages.forEach(m => {
+    if (m.role === 'user') {
+      request = m.text
+    } else if (m.summary && request !== null) {
+      history.push({ role: 'user', content: request }, { role: 'assistant', content: m.summary })
+      request = null
+    }
+  })
+  return history
+}
+
+// AIに伝える生成結果の要約
+function summarizeGeneration(result) {
+  const names = { created: '作成', modified: '修正', deleted: '削除' }
+  const changes = Object.keys(names)
+    .map(type => {
+      const paths = result.operations.filter(op => op.type === type).map(op => op.path)
+      return paths.length > 0 ? names[type] + ': ' + paths.join(', ') : null
+    })
+    .filter(Boolean)
+  return 'ご要望に沿ってWebサイトを' + (result.mode === 'patch' ? '修正' : '生成') + 'しました。' +
+    (changes.length > 0 ? '（' + changes.join(' / ') + '）' : '')
+}
+
+// 使用量の表示（推定値を含む場合は「約」を付ける）
+function formatUsage(usage) {
+  const approx = usage.estimated ? '約' : ''
+  const text = '入力 ' + approx + usage.inputTokens.toLocaleString() + ' / 出力 ' + approx + usage.outputTokens.toLocaleString() + ' トークン'
+  if (usage.cost === null || usage.cost === undefined) return text
+  // 1セント未満も桁が分かるように有効数字2桁で表示
+  const cost = usage.cost >= 0.01 || usage.cost === 0 ? usage.cost.toFixed(2) : usage.cost.toPrecision(2)
+  return text + '・約 $' + cost
+}
+
+function renderChatMessage(role, text, usage) {
+  const container = document.getElementById('chat-messages')
+  if (!container) return
+
+  const messageDiv = document.createElement('div')
+  messageDiv.className = 'chat-message'
+
+  if (role === 'user') {
+    messageDiv.innerHTML = \`
+      <div class="flex items-start gap-3 justify-end">
+        <div class="max-w-[80%] px-3 py-2 bg-purple-500 text-white rounded-2xl rounded-tr-sm">
+          <p class="text-sm">\${escapeHtml(text)}</p>
+        </div>
+      </div>
+    \`
+  } else {
+    messageDiv.innerHTML = \`
+      <div class="flex items-start gap-3">
+        <div class="w-8 h-8 bg-purple-500 flex items-center justify-center text-white text-sm flex-shrink-0 rotate-45">
+          <span class="rotate-[-45deg]">R</span>
+        </div>
+        <div class="flex-1">
+          <p class="text-sm text-slate-600">\${escapeHtml(text)}</p>
+          \${usage ? '<p class="mt-1 text-[11px] text-slate-400">' + escapeHtml(formatUsage(usage)) + '</p>' : ''}
+        </div>
       </div>
+    \`
+  }
+
+  container.appendChild(messageDiv)
+  container.scrollTop = container.scrollHeight
+}
+
+// アクセシビリティの自動修正で一度に依頼する問題の数（プロンプトの長さの上限に収める）
+const MAX_ACCESSIBILITY_FIX_ISSUES = 30
+
+// 生成結果のアクセシビリティ診断をチャットに表示（問題がなければ表示しない）
+function renderAccessibilityReport(issues) {
+  state.accessibilityIssues = issues
+  // 前回の診断結果は現在のサイトに当てはまらないため消す
+  document.querySelectorAll('#chat-messages .accessibility-report').forEach(el => el.remove())
+  const container = document.getElementById('chat-messages')
+  if (!container || issues.length === 0) return
+
+  const report = document.createElement('div')
+  report.className = 'chat-message accessibility-report'
+  report.innerHTML = \`
+    <div class="ml-11 p-3 rounded-lg border border-amber-200 bg-amber-50">
+      <p class="text-xs font-medium text-amber-800">アクセシビリティ診断: \${issues.length}件の問題が見つかりました</p>
+      <ul class="mt-2 space-y-1 max-h-40 overflow-y-auto">
+        \${issues.map(issue => \`
+          <li class="text-xs text-slate-600" title="\${escapeHtml(issue.element)}">
+            <span class="font-mono text-slate-400">\${escapeHtml(issue.file)}:\${issue.line}</span>
+            \${escapeHtml(issue.message)}
+          </li>
+        \`).join('')}
+      </ul>
+      <button onclick="fixAccessibilityIssues()" class="mt-2 px-2 py-1 text-xs text-white bg-purple-600 hover:bg-purple-700 rounded-md">これらの問題を修正</button>
+    </div>
+  \`
+  container.appendChild(report)
+  container.scrollTop = container.scrollHeight
+}
+
+// 診断で見つかった問題を、変更箇所のみの修正（差分編集）で直すよう依頼する
+window.fixAccessibilityIssues = function() {
+  if (state.isGenerating || state.accessibilityIssues.length === 0) return
+  const issues = state.accessibilityIssues.slice(0, MAX_ACCESSIBILITY_FIX_ISSUES)
+  const prompt = 'アクセシビリティ診断で見つかった次の問題を修正してください。デザイン・文言・レイアウトは変えず、該当する要素だけを直してください。\\n' +
+    issues.map(issue => '- ' + issue.file + ' ' + issue.line + '行目 ' + issue.element + ': ' + issue.message).join('\\n')
+  renderAccessibilityReport([])
+  handleSend({ prompt, editMode: 'patch' })
+}
+
+const FILE_OPERATION_LABELS = {
+  created: { icon: '✓', label: 'File Created', color: 'text-green-500' },
+  modified: { icon: '✏', label: 'File Modified', color: 'text-blue-500' },
+  deleted: { icon: '✕', label: 'File Deleted', color: 'text-red-500' }
+}
+
+function showFileOperations(operations) {
+  const container = document.getElementById('file-operations')
+  const list = document.getElementById('file-operations-list')
+  if (!container || !list) return
+
+  container.classList.toggle('hidden', operations.length === 0)
+  list.innerHTML = operations.map(op => {
+    const meta = FILE_OPERATION_LABELS[op.type]
+    // 差分編集で変更された行範囲
+    const regions = (op.regions || [])
+      .map(r => r.startLine === r.endLine ? 'L' + r.startLine : 'L' + r.startLine + '–' + r.endLine)
+      .join(', ')
+    return \`
+    <div class="file-operation-item flex items-center gap-2 text-xs text-slate-600">
+      <span class="\${meta.color}">\${meta.icon}</span>
+      <span>\${meta.label}</span>
+      <span class="font-mono text-slate-400">\${escapeHtml(op.path)}</span>
+      \${regions ? \`<span class="ml-auto font-mono text-slate-400" title="変更された行">\${regions}</span>\` : ''}
     </div>
+  \`
+  }).join('')
+}
+
+// 保存済みのコードをファイルに分解（マーカーがなければ単一のindex.html）
+function parseSiteFiles(code) {
+  if (!code) return {}
+  if (!code.includes('<<<FILE:')) return { 'index.html': code }
+
+  const files = {}
+  const pattern = /<<<FILE:\\s*([^>\\n]+?)\\s*>>>\\n?([\\s\\S]*?)(?:<<<END FILE>>>|(?=<<<FILE:|<<<DELETE:|<<<EDIT:)|$)/g
+  for (const match of code.matchAll(pattern)) {
+    files[match[1]] = match[2].trim()
+  }
+  return files
+}
+
+function currentFiles() {
+  return parseSiteFiles(state.generatedCode)
+}
+
+// サイト内の相対リンク（./about.html#top など）をファイル名にする
+function localPath(href) {
+  if (!href) return null
+  const path = href.replace(/^\\.\\//, '').split(/[?#]/)[0]
+  return /^[A-Za-z0-9_-]+\\.(?:html|css|js)$/.test(path) ? path : null
+}
+
+// ページのHTMLに同じサイト内のCSS・JavaScriptを埋め込む（srcdocでは相対パスを読み込めないため）
+function buildPreviewDocument(files, page) {
+  const html = files[page] || ''
+  if (Object.keys(files).length <= 1) return html
+
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  doc.querySelectorAll('link[rel="stylesheet"][href]').forEach(link => {
+    const path = localPath(link.getAttribute('href'))
+    if (!path || !path.endsWith('.css') || !(path in files)) return
+    const style = doc.createElement('style')
+    style.textContent = files[path]
+    link.replaceWith(style)
+  })
+  doc.querySelectorAll('script[src]').forEach(script => {
+    const path = localPath(script.getAttribute('src'))
+    if (!path || !path.endsWith('.js') || !(path in files)) return
+    const inline = doc.createElement('script')
+    inline.textContent = files[path]
+    script.replaceWith(inline)
+  })
+  return '<!DOCTYPE html>\\n' + doc.documentElement.outerHTML
+}
+
+function updatePreview() {
+  const placeholder = document.getElementById('preview-placeholder')
+  const iframe = document.getElementById('preview-iframe')
+  const codeDisplay = document.getElementById('code-display')
+
+  renderPageSelector()
+  if (!state.generatedCode) return
+
+  if (placeholder) placeholder.classList.add('hidden')
+  if (iframe) {
+    iframe.classList.remove('hidden')
+    iframe.srcdoc = buildPreviewDocument(currentFiles(), state.currentPage)
+  }
+  if (codeDisplay) codeDisplay.classList.add('hidden')
+}
+
+window.setViewMode = function(mode) {
+  state.currentViewMode = mode
+  const container = document.getElementById('preview-container')
+  if (!container) return
+
+  // ボタンのスタイル更新
+  document.querySelectorAll('.view-mode-btn').forEach(btn => {
+    btn.className = 'view-mode-btn px-2 py-1 rounded text-sm transition-colors text-slate-400 hover:bg-slate-200'
+  })
+  const activeBtn = document.getElementById('view-' + mode)
+  if (activeBtn) {
+    activeBtn.className = 'view-mode-btn px-2 py-1 rounded text-sm transition-colors bg-slate-200 text-slate-700'
+  }
+
+  // コンテナのサイズ変更
+  switch (mode) {
+    case 'desktop':
+      container.style.maxWidth = '100%'
+      break
+    case 'tablet':
+      container.style.maxWidth = '768px'
+      break
+    case 'mobile':
+      container.style.maxWidth = '375px'
+      break
+  }
+}
+
+window.toggleCodeView = function() {
+  state.showCode = !state.showCode
+  const placeholder = document.getElementById('preview-placeholder')
+  const iframe = document.getElementById('preview-iframe')
+  const codeDisplay = document.getElementById('code-display')
+
+  if (state.showCode) {
+    if (placeholder) placeholder.classList.add('hidden')
+    if (iframe) iframe.classList.add('hidden')
+    if (codeDisplay) codeDisplay.classList.remove('hidden')
+    renderCodeView()
+  } else {
+    updatePreview()
+  }
+}
+
+// プレビュー領域のコード表示（表示中のページを強調表示）
+function renderCodeView() {
+  const code = document.querySelector('#code-display code')
+  if (!code) return
+  code.innerHTML = highlightCode(currentFiles()[state.currentPage] || '', editorLanguage(state.currentPage))
+}
+
+function fileToBase64(file) {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result)
+    reader.onerror = reject
+    reader.readAsDataURL(file)
+  })
+}
+
+function escapeHtml(text) {
+  const div = document.createElement('div')
+  div.textContent = text
+  return div.innerHTML
+}
+
+// タブ切り替え
+window.switchTab = function(tab) {
+  const chatContent = document.getElementById('chat-content')
+  const codeContent = document.getElementById('code-content')
+  const tabChat = document.getElementById('tab-chat')
+  const tabCode = document.getElementById('tab-code')
+
+  if (!chatContent || !codeContent || !tabChat || !tabCode) return
+
+  if (tab === 'chat') {
+    chatContent.classList.remove('hidden')
+    codeContent.classList.add('hidden')
+    tabChat.className = 'flex-1 py-3 text-sm font-medium text-purple-600 border-b-2 border-purple-500 transition-colors'
+    tabCode.className = 'flex-1 py-3 text-sm font-medium text-slate-500 hover:text-slate-700 transition-colors'
+  } else {
+    chatContent.classList.add('hidden')
+    codeContent.classList.remove('hidden')
+    tabChat.className = 'flex-1 py-3 text-sm font-medium text-slate-500 hover:text-slate-700 transition-colors'
+    tabCode.className = 'flex-1 py-3 text-sm font-medium text-purple-600 border-b-2 border-purple-500 transition-colors'
+
+    // コードタブの内容を更新
+    updateCodeTab()
+  }
+}
+
+// コードタブ（エディター）を更新
+// 未適用の編集があり、その元のコードが表示中のままなら編集内容を残す
+function updateCodeTab() {
+  const editor = document.getElementById('code-editor')
+  if (!editor) return
+
+  if (state.editorDraft && state.editorBase !== state.generatedCode) {
+    state.editorDraft = null
+  }
+
+  const files = editorFiles()
+  const paths = Object.keys(files)
+  if (!paths.includes(state.editorPath)) state.editorPath = paths.includes(state.currentPage) ? state.currentPage : 'index.html'
+
+  const select = document.getElementById('code-file-select')
+  if (select) {
+    select.innerHTML = paths.map(path => \`<option value="\${escapeHtml(path)}">\${escapeHtml(path)}</option>\`).join('')
+    select.value = state.editorPath
+    select.disabled = paths.length === 0
+  }
+
+  editor.value = files[state.editorPath] || ''
+  editor.readOnly = !state.generatedCode || state.isGenerating
+  renderCodeHighlight()
+  updateCodeEditorButtons()
+  updateCodeSearch()
+}
+
+// 編集中のファイル（未編集なら表示中のコード）
+function editorFiles() {
+  return state.editorDraft || currentFiles()
+}
+
+function updateCodeEditorButtons() {
+  const dirty = Boolean(state.editorDraft)
+  const applyBtn = document.getElementById('code-apply-btn')
+  const revertBtn = document.getElementById('code-revert-btn')
+  const formatBtn = document.getElementById('code-format-btn')
+  if (applyBtn) applyBtn.disabled = !dirty || state.isGenerating
+  if (revertBtn) revertBtn.disabled = !dirty
+  if (formatBtn) formatBtn.disabled = !state.generatedCode || state.isGenerating
+  const status = document.getElementById('code-editor-status')
+  if (status) status.classList.toggle('hidden', !dirty)
+}
+
+// エディターの内容を強調表示に反映
+function renderCodeHighlight() {
+  const editor = document.getElementById('code-editor')
+  const highlight = document.querySelector('#code-highlight code')
+  if (!editor || !highlight) return
+
+  // 末尾の改行も高さに含めるため、最後に空白を足す
+  highlight.innerHTML = highlightCode(editor.value, editorLanguage(state.editorPath)) + ' '
+  syncCodeHighlightScroll()
+}
+
+function syncCodeHighlightScroll() {
+  const editor = document.getElementById('code-editor')
+  const pre = document.getElementById('code-highlight')
+  if (!editor || !pre) return
+  pre.scrollTop = editor.scrollTop
+  pre.scrollLeft = editor.scrollLeft
+}
+
+function editorLanguage(path) {
+  if (path.endsWith('.css')) return 'css'
+  if (path.endsWith('.js')) return 'js'
+  return 'html'
+}
+
+function initCodeEditor() {
+  const editor = document.getElementById('code-editor')
+  if (!editor) return
+
+  let highlightFrame = null
+  editor.addEventListener('input', () => {
+    if (!state.editorDraft) {
+      state.editorDraft = { ...currentFiles() }
+      state.editorBase = state.generatedCode
+    }
+    state.editorDraft[state.editorPath] = editor.value
+    updateCodeEditorButtons()
+    updateCodeSearch()
+
+    if (highlightFrame) return
+    highlightFrame = requestAnimationFrame(() => {
+      highlightFrame = null
+      renderCodeHighlight()
+    })
+  })
+  editor.addEventListener('scroll', syncCodeHighlightScroll)
+  editor.addEventListener('keydown', (e) => {
+    // Tabはフォーカス移動ではなくインデントとして扱う
+    if (e.key === 'Tab' && !editor.readOnly) {
+      e.preventDefault()
+      document.execCommand('insertText', false, '  ')
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 's') {
+      e.preventDefault()
+      applyCodeEdits()
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+      e.preventDefault()
+      const search = document.getElementById('code-search-input')
+      if (search) {
+        search.focus()
+        search.select()
+      }
+    }
+  })
+
+  const select = document.getElementById('code-file-select')
+  if (select) {
+    select.addEventListener('change', (e) => {
+      state.editorPath = e.target.value
+      updateCodeTab()
+    })
+  }
+
+  const search = document.getElementById('code-search-input')
+  if (search) {
+    search.addEventListener('input', () => {
+      state.editorSearchIndex = -1
+      updateCodeSearch()
+      findInCode(1)
+    })
+    search.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault()
+        findInCode(e.shiftKey ? -1 : 1)
+      }
+    })
+  }
+}
+
+// 検索（大文字・小文字は区別しない）
+function codeSearchMatches() {
+  const editor = document.getElementById('code-editor')
+  const query = document.getElementById('code-search-input')?.value.toLowerCase()
+  if (!editor || !query) return []
+
+  const text = editor.value.toLowerCase()
+  const matches = []
+  let index = text.indexOf(query)
+  while (index !== -1) {
+    matches.push(index)
+    index = text.indexOf(query, index + query.length)
+  }
+  return matches
+}
+
+function updateCodeSearch() {
+  const count = document.getElementById('code-search-count')
+  if (!count) return
+  const matches = codeSearchMatches()
+  const query = document.getElementById('code-search-input')?.value
+  count.textContent = !query ? '' : matches.length === 0 ? '0件' : (Math.max(state.editorSearchIndex, 0) + 1) + '/' + matches.length
+}
+
+window.findInCode = function(direction) {
+  const editor = document.getElementById('code-editor')
+  const query = document.getElementById('code-search-input')?.value
+  const matches = codeSearchMatches()
+  if (!editor || matches.length === 0) {
+    updateCodeSearch()
+    return
+  }
+
+  state.editorSearchIndex = (state.editorSearchIndex + direction + matches.length) % matches.length
+  const start = matches[state.editorSearchIndex]
+  editor.focus()
+  editor.setSelectionRange(start, start + query.length)
+
+  // 一致した行が見える位置までスクロール
+  const line = editor.value.slice(0, start).split('\\n').length - 1
+  const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 20
+  editor.scrollTop = Math.max(line * lineHeight - editor.clientHeight / 3, 0)
+  syncCodeHighlightScroll()
+  updateCodeSearch()
+}
+
+// 整形（タグ・括弧の入れ子に合わせてインデントし直す）
+window.formatCode = function() {
+  const editor = document.getElementById('code-editor')
+  if (!editor || editor.readOnly) return
+
+  const formatted = formatSource(editor.value, editorLanguage(state.editorPath))
+  if (formatted === editor.value) return
+  editor.select()
+  document.execCommand('insertText', false, formatted)
+  // execCommandが使えない環境では直接書き換える
+  if (editor.value !== formatted) {
+    editor.value = formatted
+    editor.dispatchEvent(new Event('input'))
+  }
+}
+
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']
+
+function formatSource(text, language) {
+  const lines = text.split('\\n')
+  const output = []
+  let depth = 0
+  let raw = false
+
+  for (const original of lines) {
+    const line = original.trim()
+
+    // <pre>・<textarea>の中身は空白が意味を持つため変更しない
+    if (raw) {
+      output.push(original.replace(/\\s+$/, ''))
+      if (/<\\/(pre|textarea)>/i.test(line)) {
+        raw = false
+        depth = Math.max(depth - 1, 0)
+      }
+      continue
+    }
+    if (!line) {
+      if (output.length > 0 && output[output.length - 1] !== '') output.push('')
+      continue
+    }
+
+    // 文字列とコメントは数えない
+    const stripped = line
+      .replace(/<!--[\\s\\S]*?-->/g, '')
+      .replace(/\\/\\*[\\s\\S]*?\\*\\//g, '')
+      .replace(/"(?:[^"\\\\]|\\\\.)*"|'(?:[^'\\\\]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\`/g, '""')
+    const code = language === 'html' ? stripped : stripped.replace(/\\/\\/.*$/, '')
+
+    let opens = (code.match(/[{[(]/g) || []).length
+    let closes = (code.match(/[}\\])]/g) || []).length
+    let leading = (code.match(/^[}\\])]+/) || [''])[0].length
+
+    if (language === 'html') {
+      const tags = code.match(/<\\/?[A-Za-z][\\w-]*[^>]*>?/g) || []
+      for (const tag of tags) {
+        const name = tag.match(/^<\\/?([A-Za-z][\\w-]*)/)[1].toLowerCase()
+        if (tag.startsWith('</')) closes++
+        else if (!VOID_ELEMENTS.includes(name) && !tag.endsWith('/>')) opens++
+      }
+      leading += (code.match(/^(<\\/[A-Za-z][\\w-]*>\\s*)+/) || [''])[0].split('</').length - 1
+      if (/<(pre|textarea)\\b/i.test(line) && !/<\\/(pre|textarea)>/i.test(line)) raw = true
+    }
+
+    const indent = Math.max(depth - leading, 0)
+    output.push('  '.repeat(indent) + line)
+    depth = Math.max(depth + opens - closes, 0)
+  }
+
+  while (output.length > 0 && output[output.length - 1] === '') output.pop()
+  return output.join('\\n')
+}
+
+// 編集内容を適用し、手動編集として履歴に記録
+window.applyCodeEdits = async function() {
+  if (!state.editorDraft || state.isGenerating) return
+  if (!state.editorDraft['index.html']) {
+    alert('index.htmlを空にすることはできません')
+    return
+  }
+
+  const before = currentFiles()
+  const after = state.editorDraft
+  const code = serializeSiteFiles(after)
+  state.editorDraft = null
+
+  if (code !== state.generatedCode) {
+    const operations = Object.keys(after)
+      .filter(path => before[path] !== after[path])
+      .map(path => ({ type: path in before ? 'modified' : 'created', path }))
+    state.generatedCode = code
+    const synced = await syncTranslations(operations)
+    recordVersion('手動編集', state.generatedCode, 'manual')
+    showFileOperations(operations)
+    if (synced) addChatMessage('ai', synced.text, undefined, synced.usage)
+    updatePreview()
+    saveCurrentProject()
+  }
+  updateCodeTab()
+}
+
+window.revertCodeEdits = function() {
+  if (state.editorDraft && !confirm('適用していない編集を破棄しますか？')) return
+  state.editorDraft = null
+  updateCodeTab()
+}
+
+// ファイルを保存用の1つの文字列にまとめる（サーバーのserializeSiteFilesと同じ形式）
+function serializeSiteFiles(files) {
+  const paths = Object.keys(files)
+  if (paths.length === 1 && paths[0] === 'index.html') return files['index.html']
+
+  const rank = (path) => path === 'index.html' ? 0 : path.endsWith('.html') ? 1 : path.endsWith('.css') ? 2 : 3
+  return paths
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(path => '<<<FILE: ' + path + '>>>\\n' + files[path] + '\\n<<<END FILE>>>')
+    .join('\\n\\n')
+}
+
+// シンタックスハイライト（HTML・CSS・JavaScript）
+const CODE_TOKEN_COLORS = {
+  comment: 'text-slate-500',
+  tag: 'text-pink-400',
+  attr: 'text-sky-300',
+  string: 'text-amber-300',
+  keyword: 'text-purple-300',
+  number: 'text-emerald-300',
+  property: 'text-sky-300'
+}
+
+const JS_KEYWORDS = 'async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while yield'
+
+function highlightCode(text, language) {
+  if (language === 'css') return highlightCss(text)
+  if (language === 'js') return highlightJs(text)
+  return highlightHtml(text)
+}
+
+function token(type, text) {
+  return '<span class="' + CODE_TOKEN_COLORS[type] + '">' + escapeCode(text) + '</span>'
+}
+
+function escapeCode(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// 正規表現の各グループを種類に対応させて置き換える
+function highlightWith(text, pattern, types) {
+  let html = ''
+  let last = 0
+  for (const match of text.matchAll(pattern)) {
+    html += escapeCode(text.slice(last, match.index))
+    const group = match.findIndex((value, i) => i > 0 && value !== undefined)
+    html += group > 0 && types[group - 1] ? token(types[group - 1], match[0]) : escapeCode(match[0])
+    last = match.index + match[0].length
+  }
+  return html + escapeCode(text.slice(last))
+}
+
+function highlightHtml(text) {
+  const pattern = /(<!--[\\s\\S]*?-->)|(<\\/?[A-Za-z][^>]*>?)/g
+  let html = ''
+  let last = 0
+  let match
+  while ((match = pattern.exec(text))) {
+    html += escapeCode(text.slice(last, match.index))
+    last = pattern.lastIndex
+    if (match[1]) {
+      html += token('comment', match[1])
+      continue
+    }
+
+    const tag = match[2]
+    html += highlightTag(tag)
+
+    // <script>・<style>の中身はそれぞれの言語で強調する
+    const name = tag.match(/^<\\/?([A-Za-z][\\w-]*)/)[1].toLowerCase()
+    if (!tag.startsWith('</') && (name === 'script' || name === 'style')) {
+      const close = text.toLowerCase().indexOf('</' + name, last)
+      const end = close === -1 ? text.length : close
+      const body = text.slice(last, end)
+      html += name === 'style' ? highlightCss(body) : highlightJs(body)
+      last = pattern.lastIndex = end
+    }
+  }
+  return html + escapeCode(text.slice(last))
+}
+
+function highlightTag(tag) {
+  return highlightWith(tag, /(^<\\/?[A-Za-z][\\w-]*|\\/?>$)|("[^"]*"|'[^']*')|([A-Za-z_:@][\\w:.-]*)(?=\\s*=)/g, ['tag', 'string', 'attr'])
+}
+
+function highlightCss(text) {
+  return highlightWith(text, /(\\/\\*[\\s\\S]*?\\*\\/)|("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*')|([\\w-]+)(?=\\s*:[^{}]*[;}])|(#[0-9a-fA-F]{3,8}\\b|-?\\b\\d+(?:\\.\\d+)?(?:px|rem|em|%|vh|vw|s|ms|deg|fr)?\\b)|(@[\\w-]+)/g, ['comment', 'string', 'property', 'number', 'keyword'])
+}
+
+const JS_TOKEN_PATTERN = new RegExp([
+  /(\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/)/.source,
+  /("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\`)/.source,
+  '(\\\\b(?:' + JS_KEYWORDS.split(' ').join('|') + ')\\\\b)',
+  /(\\b\\d+(?:\\.\\d+)?\\b)/.source
+].join('|'), 'g')
+
+function highlightJs(text) {
+  return highlightWith(text, JS_TOKEN_PATTERN, ['comment', 'string', 'keyword', 'number'])
+}
+
+// フィードバック送信
+window.sendFeedback = function(type) {
+  // TODO: フィードバックをサーバーに送信
+  console.log('Feedback:', type)
+  alert(type === 'up' ? '👍 良い評価を送信しました' : '👎 悪い評価を送信しました')
+}
+
+// ファイル操作のトグル
+window.toggleFileOperations = function() {
+  const container = document.getElementById('file-operations')
+  const list = document.getElementById('file-operations-list')
+  if (!container || !list) return
 
-    <!-- 右側 -->
-    <div class="flex-1"></div>
-    <div class="flex items-center gap-2">
-      <!-- Shareボタン -->
-      <button onclick="shareProject()" class="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors border border-slate-200">
-        <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"/>
-        </svg>
-        Share
-      </button>
-      <!-- Downloadボタン -->
-      <button onclick="downloadCode()" class="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors border border-slate-200">
-        <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/>
-        </svg>
-        Download
-      </button>
-      <!-- Publishボタン -->
-      <button class="px-4 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors">
-        Publish
-      </button>
-      <!-- ヘルプ -->
-      <button class="w-8 h-8 rounded-lg hover:bg-slate-100 flex items-center justify-center text-slate-400 transition-colors">
-        <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/>
-        </svg>
-      </button>
-      <!-- ユーザーアイコン -->
-      <button class="w-8 h-8 rounded-full bg-gradient-to-br from-purple-400 to-purple-600 flex items-center justify-center text-white text-sm font-medium">
-        U
-      </button>
-    </div>
-  </nav>
+  if (list.classList.contains('hidden')) {
+    list.classList.remove('hidden')
+  } else {
+    list.classList.add('hidden')
+  }
+}
 
-  <!-- メインコンテンツ -->
-  <div class="flex h-[calc(100vh-3.5rem)]">
-    <!-- 左側：プレビューエリア -->
-    <div class="flex-1 flex flex-col bg-slate-200">
-      <!-- ブラウザ風アドレスバー -->
-      <div class="h-12 bg-white border-b border-slate-200 flex items-center px-4 gap-3">
-        <div class="flex items-center gap-1">
-          <button class="w-7 h-7 rounded hover:bg-slate-100 flex items-center justify-center text-slate-400">
-            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 19l-7-7 7-7"/>
-            </svg>
-          </button>
-          <button class="w-7 h-7 rounded hover:bg-slate-100 flex items-center justify-center text-slate-400">
-            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7"/>
-            </svg>
-          </button>
-          <button class="w-7 h-7 rounded hover:bg-slate-100 flex items-center justify-center text-slate-400">
-            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/>
-            </svg>
-          </button>
-        </div>
-        <!-- アドレスバー風 -->
-        <div class="flex-1 flex items-center gap-2 px-3 py-1.5 bg-slate-100 rounded-lg text-sm text-slate-500">
-          <svg class="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"/>
-          </svg>
-          <span id="preview-url">https://your-site.readdy.ai/</span>
-        </div>
-        <!-- ビューポート切り替え -->
-        <div class="flex items-center gap-1">
-          <button onclick="setViewMode('desktop')" id="view-desktop" class="view-mode-btn px-2 py-1 rounded text-sm transition-colors bg-slate-200 text-slate-700">🖥️</button>
-          <button onclick="setViewMode('tablet')" id="view-tablet" class="view-mode-btn px-2 py-1 rounded text-sm transition-colors text-slate-400 hover:bg-slate-200">📱</button>
-          <button onclick="setViewMode('mobile')" id="view-mobile" class="view-mode-btn px-2 py-1 rounded text-sm transition-colors text-slate-400 hover:bg-slate-200">📱</button>
-          <button class="px-2 py-1 rounded text-sm text-slate-400 hover:bg-slate-200 transition-colors">
-            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4"/>
-            </svg>
-          </button>
-        </div>
-        <!-- コード表示切替 -->
-        <button onclick="toggleCodeView()" class="px-2 py-1 rounded text-sm text-slate-400 hover:bg-slate-200 transition-colors">
-          <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"/>
-          </svg>
-        </button>
-      </div>
+window.handleSend = handleSend
+window.removeFile = removeFile
+window.setViewMode = setViewMode
+window.toggleCodeView = toggleCodeView
+window.switchTab = switchTab
+window.sendFeedback = sendFeedback
+window.toggleFileOperations = toggleFileOperations
 
-      <!-- プレビュー本体 -->
-      <div class="flex-1 p-6 flex items-center justify-center">
-        <div id="preview-container" class="bg-white rounded-lg shadow-lg w-full h-full overflow-hidden transition-all duration-300">
-          <!-- 初期表示 -->
-          <div id="preview-placeholder" class="h-full flex flex-col items-center justify-center text-slate-400">
-            <div class="text-6xl mb-4">🎨</div>
-            <p class="text-lg">チャットでWebサイトを作成しましょう</p>
-            <p class="text-sm mt-2">右側のパネルから説明を入力してください</p>
+// プロジェクトドロップダウン
+window.toggleProjectDropdown = function() {
+  const dropdown = document.getElementById('project-dropdown')
+  if (dropdown) {
+    dropdown.classList.toggle('hidden')
+  }
+}
+
+// テンプレートギャラリーを開く
+window.openTemplateGallery = async function() {
+  const dropdown = document.getElementById('project-dropdown')
+  if (dropdown) dropdown.classList.add('hidden')
+  const dialog = document.getElementById('template-dialog')
+  if (dialog) dialog.classList.remove('hidden')
+  await loadTemplates()
+}
+
+window.closeTemplateGallery = function() {
+  const dialog = document.getElementById('template-dialog')
+  if (dialog) dialog.classList.add('hidden')
+}
+
+async function loadTemplates() {
+  const list = document.getElementById('template-list')
+  if (!list) return
+
+  try {
+    const response = await fetch('/api/templates')
+    const data = await response.json()
+    if (!data.success) throw new Error(data.error)
+    state.templates = data.templates
+    renderTemplateList()
+  } catch (error) {
+    list.innerHTML = '<p class="col-span-full text-sm text-red-500">テンプレートを読み込めませんでした: ' + escapeHtml(error.message) + '</p>'
+  }
+}
+
+function renderTemplateList() {
+  const list = document.getElementById('template-list')
+  if (!list) return
+
+  list.innerHTML = state.templates.map(t => \`
+    <div class="group relative text-left rounded-lg border border-slate-200 hover:border-purple-400 hover:shadow-md overflow-hidden transition">
+      <button onclick="useTemplate('\${escapeHtml(t.id)}')" class="block w-full text-left">
+        <img src="\${escapeHtml(t.thumbnailUrl)}" alt="" class="w-full aspect-[8/5] object-cover bg-slate-100" />
+        <div class="p-3">
+          <div class="flex items-center gap-2">
+            <span class="flex-1 truncate text-sm font-medium text-slate-800">\${escapeHtml(t.name)}</span>
+            <span class="px-1.5 rounded text-[10px] \${t.builtIn ? 'bg-slate-100 text-slate-500' : 'bg-purple-100 text-purple-600'}">\${escapeHtml(t.category)}</span>
           </div>
-          <!-- プレビューiframe -->
-          <iframe id="preview-iframe" class="w-full h-full hidden" sandbox="allow-same-origin"></iframe>
-          <!-- コード表示 -->
-          <pre id="code-display" class="w-full h-full p-4 bg-slate-800 text-slate-100 text-sm overflow-auto hidden"><code></code></pre>
+          <p class="mt-1 text-xs text-slate-500 line-clamp-2">\${escapeHtml(t.description || '')}</p>
         </div>
-      </div>
+      </button>
+      \${t.builtIn ? '' : \`<button onclick="deleteTemplate('\${escapeHtml(t.id)}')" class="hidden group-hover:block absolute top-2 right-2 w-6 h-6 rounded-full bg-white/90 text-slate-400 hover:text-red-500 shadow" title="削除">×</button>\`}
     </div>
+  \`).join('')
+}
 
-    <!-- 右側：チャットパネル -->
-    <div class="w-96 bg-white border-l border-slate-200 flex flex-col">
-      <!-- タブヘッダー -->
-      <div class="border-b border-slate-200">
-        <div class="flex">
-          <button onclick="switchTab('chat')" id="tab-chat" class="flex-1 py-3 text-sm font-medium text-purple-600 border-b-2 border-purple-500 transition-colors">チャット</button>
-          <button onclick="switchTab('code')" id="tab-code" class="flex-1 py-3 text-sm font-medium text-slate-500 hover:text-slate-700 transition-colors">コード</button>
-        </div>
-      </div>
+// テンプレートから新しいプロジェクトを作成（最初の要望から修正モードで編集できる）
+window.useTemplate = async function(id) {
+  if (state.isGenerating) return
+  if (state.generatedCode && !confirm('テンプレートから新しいプロジェクトを作成しますか？')) return
 
-      <!-- チャットコンテンツ -->
-      <div id="chat-content" class="flex-1 flex flex-col">
-        <!-- チャットメッセージエリア -->
-        <div id="chat-messages" class="flex-1 overflow-y-auto">
-          <!-- ウェルカムメッセージ -->
-          <div class="p-4">
-            <div class="flex items-start gap-3 mb-4">
-              <!-- ひし形のアバター -->
-              <div class="w-8 h-8 bg-purple-500 flex items-center justify-center text-white text-sm flex-shrink-0 rotate-45">
-                <span class="rotate-[-45deg]">R</span>
-              </div>
-              <div class="flex-1">
-                <p class="text-sm text-slate-600">こんにちは！Readdy AIです。作りたいWebサイトについて教えてください。</p>
-              </div>
-            </div>
-          </div>
-        </div>
+  try {
+    const response = await fetch('/api/templates/' + encodeURIComponent(id))
+    const data = await response.json()
+    if (!data.success) {
+      alert('エラー: ' + data.error)
+      return
+    }
 
-        <!-- 設定エリア（折りたたみ式） -->
-        <div class="border-t border-slate-200 p-4">
-          <details class="group">
-            <summary class="cursor-pointer text-xs text-slate-500 hover:text-slate-700 flex items-center gap-2">
-              <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"/>
-                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/>
-              </svg>
-              設定（AIプロバイダー・APIキー）
-            </summary>
-            <div class="mt-3 space-y-3">
-              <!-- AIプロバイダー選択 -->
-              <div>
-                <label class="block text-xs font-medium text-slate-600 mb-2">AIプロバイダー</label>
-                <div class="flex gap-2">
-                  <label class="flex-1">
-                    <input type="radio" name="ai-provider" value="openai" checked class="peer hidden" />
-                    <div class="px-2 py-1.5 text-center text-xs rounded-lg border border-slate-200 cursor-pointer peer-checked:border-purple-500 peer-checked:bg-purple-50 peer-checked:text-purple-600 transition-colors">
-                      OpenAI
-                    </div>
-                  </label>
-                  <label class="flex-1">
-                    <input type="radio" name="ai-provider" value="gemini" class="peer hidden" />
-                    <div class="px-2 py-1.5 text-center text-xs rounded-lg border border-slate-200 cursor-pointer peer-checked:border-purple-500 peer-checked:bg-purple-50 peer-checked:text-purple-600 transition-colors">
-                      Gemini
-                    </div>
-                  </label>
-                  <label class="flex-1">
-                    <input type="radio" name="ai-provider" value="claude" class="peer hidden" />
-                    <div class="px-2 py-1.5 text-center text-xs rounded-lg border border-slate-200 cursor-pointer peer-checked:border-purple-500 peer-checked:bg-purple-50 peer-checked:text-purple-600 transition-colors">
-                      Claude
-                    </div>
-                  </label>
-                </div>
-              </div>
-              <!-- APIキー入力 -->
-              <div>
-                <label class="block text-xs font-medium text-slate-600 mb-2">APIキー</label>
-                <input type="password" id="api-key-input" placeholder="sk-..." class="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500" />
-              </div>
-            </div>
-          </details>
-        </div>
+    const template = data.template
+    await applyProject({ id: null, name: template.name, code: template.code, messages: [] })
+    recordVersion('テンプレート: ' + template.name, template.code, 'template')
+    addChatMessage('ai', '「' + template.name + '」のテンプレートを読み込みました。変更したい内容を教えてください。')
+    closeTemplateGallery()
+    await saveCurrentProject()
+  } catch (error) {
+    console.error('Failed to load template:', error)
+  }
+}
 
-        <!-- 入力エリア -->
-        <div class="p-4 border-t border-slate-200">
-          <!-- 入力コンテナ（ボーダー付き） -->
-          <div class="border border-slate-200 rounded-xl focus-within:ring-2 focus-within:ring-purple-500 focus-within:border-transparent transition-all">
-            <!-- テキストエリア -->
-            <textarea id="prompt-input" placeholder="変更内容を具体的かつ明確に教えてください。一度に1つのタスク。" rows="3" class="w-full px-4 pt-3 pb-2 text-sm rounded-t-xl border-0 focus:outline-none resize-none"></textarea>
+// 現在のWebサイトをチームのテンプレートとして保存
+window.saveAsTemplate = async function() {
+  const dropdown = document.getElementById('project-dropdown')
+  if (dropdown) dropdown.classList.add('hidden')
+  if (!state.generatedCode) {
+    alert('テンプレートにするWebサイトがありません。')
+    return
+  }
+  if (!state.projectsEnabled) {
+    alert('KVが設定されていないため、テンプレートは保存できません。')
+    return
+  }
 
-            <!-- ツールバー（入力欄内） -->
-            <div class="flex items-center justify-between px-3 py-2 border-t border-slate-100">
-              <div class="flex items-center gap-1">
-                <button class="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-md transition-colors border border-dashed border-slate-300">
-                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"/>
-                  </svg>
-                  <span>セレクター</span>
-                </button>
-                <button class="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors" title="コード">
-                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"/>
-                  </svg>
-                </button>
-                <button class="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors" title="音声入力">
-                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"/>
-                  </svg>
-                </button>
-                <button onclick="document.getElementById('file-upload').click()" class="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md transition-colors" title="画像をアップロード">
-                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"/>
-                  </svg>
-                </button>
-                <input type="file" accept="image/*,.pdf" multiple class="hidden" id="file-upload" />
-              </div>
-              <!-- 送信ボタン -->
-              <button id="send-btn" onclick="handleSend()" class="p-1.5 text-slate-400 hover:text-purple-600 hover:bg-purple-50 rounded-md transition-colors disabled:text-slate-200 disabled:hover:bg-transparent" disabled title="送信">
-                <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 12h14M12 5l7 7-7 7"/>
-                </svg>
-              </button>
-            </div>
-          </div>
-        </div>
-      </div>
+  const name = prompt('テンプレート名', state.projectName)
+  if (!name || !name.trim()) return
+  const description = prompt('テンプレートの説明（任意）', '')
+  if (description === null) return
+
+  const response = await fetch('/api/templates', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: name.trim(), description: description.trim(), code: state.generatedCode })
+  })
+  const data = await response.json()
+  if (!data.success) {
+    alert('エラー: ' + data.error)
+    return
+  }
+  alert('「' + data.template.name + '」をテンプレートとして保存しました。')
+}
+
+window.deleteTemplate = async function(id) {
+  const template = state.templates.find(t => t.id === id)
+  if (!confirm('テンプレート「' + (template ? template.name : '') + '」を削除しますか？')) return
+
+  const response = await fetch('/api/templates/' + encodeURIComponent(id), { method: 'DELETE' })
+  const data = await response.json()
+  if (!data.success) {
+    alert('エラー: ' + data.error)
+    return
+  }
+  await loadTemplates()
+}
+
+// 新規プロジェクト作成（保存済みの場合、現在のプロジェクトは一覧に残る）
+window.createNewProject = function() {
+  const message = state.projectsEnabled
+    ? '新しいプロジェクトを作成しますか？'
+    : '現在のプロジェクトを破棄して新規作成しますか？'
+  if (confirm(message)) {
+    applyProject({ id: null, name: '新規プロジェクト', code: null, messages: [] })
+    const dropdown = document.getElementById('project-dropdown')
+    if (dropdown) dropdown.classList.add('hidden')
+  }
+}
 
-      <!-- コードタブコンテンツ -->
-      <div id="code-content" class="flex-1 hidden">
-        <div class="h-full p-4">
-          <pre id="full-code-display" class="h-full p-4 bg-slate-800 text-slate-100 text-sm overflow-auto rounded-lg"><code>コードはまだ生成されていません</code></pre>
-        </div>
-      </div>
+// 前回開いていたプロジェクトを復元
+async function restoreCurrentProject() {
+  await refreshProjectList()
+  if (state.projectId && state.projectsEnabled) {
+    await openProject(state.projectId)
+  }
+}
+
+// プロジェクト一覧を取得
+async function refreshProjectList() {
+  try {
+    const response = await fetch('/api/projects')
+    const data = await response.json()
+    state.projectsEnabled = data.success
+    state.projects = data.success ? data.projects : []
+  } catch (error) {
+    console.error('Failed to load projects:', error)
+    state.projectsEnabled = false
+  }
+  renderProjectList()
+}
+
+function renderProjectList() {
+  const list = document.getElementById('project-list')
+  if (!list) return
+
+  if (!state.projectsEnabled) {
+    list.innerHTML = '<p class="px-3 py-2 text-xs text-slate-400">保存機能は利用できません（KV未設定）</p>'
+    return
+  }
+  if (state.projects.length === 0) {
+    list.innerHTML = '<p class="px-3 py-2 text-xs text-slate-400">保存済みのプロジェクトはありません</p>'
+    return
+  }
+
+  list.innerHTML = state.projects.map(project => \`
+    <div class="group flex items-center gap-1 rounded-md \${project.id === state.projectId ? 'bg-purple-50' : 'hover:bg-slate-100'}">
+      <button onclick="switchProject('\${project.id}')" class="flex-1 min-w-0 text-left px-3 py-2">
+        <span class="block truncate text-sm \${project.id === state.projectId ? 'text-purple-600 font-medium' : 'text-slate-700'}">\${escapeHtml(project.name)}</span>
+        <span class="block text-[10px] text-slate-400">\${new Date(project.updatedAt).toLocaleString()}</span>
+      </button>
+      <button onclick="renameProject('\${project.id}')" class="hidden group-hover:block p-1 text-slate-400 hover:text-slate-600" title="名前を変更">✏</button>
+      <button onclick="deleteProject('\${project.id}')" class="hidden group-hover:block p-1 mr-1 text-slate-400 hover:text-red-500" title="削除">🗑</button>
     </div>
-  </div>
+  \`).join('')
+}
 
-  <script src="/static/main.js"><\/script>
-</body>
-</html>`
+// プロジェクトを読み込んで画面に反映
+async function openProject(id) {
+  try {
+    const response = await fetch('/api/projects/' + encodeURIComponent(id))
+    const data = await response.json()
+    if (!data.success) {
+      // 削除済みなどで読み込めない場合は新規プロジェクトとして扱う
+      applyProject({ id: null, name: '新規プロジェクト', code: null, messages: [] })
+      return
+    }
+    applyProject(data.project)
+  } catch (error) {
+    console.error('Failed to load project:', error)
+  }
 }
 
-/**
- * クライアントサイドスクリプト
- */
-function getMainJS(): string {
-  return `// クライアントサイドスクリプト
-const state = {
-  aiProvider: localStorage.getItem('aiProvider') || 'openai',
-  apiKey: localStorage.getItem('apiKey') || '',
-  uploadedFiles: [],
-  generatedCode: null,
-  isGenerating: false,
-  currentViewMode: 'desktop',
-  showCode: false
+async function applyProject(project) {
+  state.projectId = project.id
+  state.projectName = project.name
+  state.generatedCode = project.code
+  state.currentVersion = project.currentVersion || null
+  state.published = project.published || null
+  state.versions = project.id ? await fetchVersions(project.id) : []
+  state.messages = []
+  state.uploadedFiles = []
+  state.currentPage = 'index.html'
+  updateUploadedFilesDisplay()
+  stopElementPicker()
+  clearSelectedElement()
+  showFileOperations([])
+  renderPageSelector()
+
+  if (project.id) localStorage.setItem('currentProjectId', project.id)
+  else localStorage.removeItem('currentProjectId')
+
+  const nameEl = document.getElementById('project-name')
+  if (nameEl) nameEl.textContent = project.name
+
+  // チャット履歴を描画し直す（ウェルカムメッセージは残す）
+  document.querySelectorAll('#chat-messages .chat-message').forEach(el => el.remove())
+  state.accessibilityIssues = []
+  project.messages.forEach(m => addChatMessage(m.role, m.text, m.summary, m.usage))
+
+  if (project.settings) applyProjectSettings(project.settings)
+
+  // デザインテーマはプロジェクトごと（未設定なら既定のテーマ）
+  state.customThemes = (project.settings && project.settings.customThemes) || []
+  state.themeId = (project.settings && project.settings.themeId) || state.defaultThemeId
+  renderThemeOptions()
+
+  // フォールバック先もプロジェクトごと
+  state.fallbackProviders = (project.settings && project.settings.fallbackProviders) || []
+  renderFallbackProviders()
+  state.localization = (project.settings && project.settings.localization) || null
+  loadQuota()
+
+  updateCodeTab()
+  restorePreview()
+  renderProjectList()
+  renderVersionHistory()
+  updatePreviewUrl()
 }
 
-// 初期化
-document.addEventListener('DOMContentLoaded', () => {
-  initEventListeners()
-  loadSettings()
-  updateUI()
-})
+// プロジェクトに保存された生成設定を反映
+function applyProjectSettings(settings) {
+  if (settings.aiProvider && state.providers.some(p => p.id === settings.aiProvider)) {
+    state.aiProvider = settings.aiProvider
+    localStorage.setItem('aiProvider', state.aiProvider)
+    loadSettings()
+  }
+  if (settings.model) {
+    if (isCustomEndpoint()) state.customModel = settings.model
+    else state.providerModels[state.aiProvider] = settings.model
+  }
+  if (typeof settings.temperature === 'number') state.temperature = settings.temperature
+  if (typeof settings.maxTokens === 'number') state.maxTokens = settings.maxTokens
+  renderModelOptions()
+}
 
-function initEventListeners() {
-  // AIプロバイダー選択
-  document.querySelectorAll('input[name="ai-provider"]').forEach(radio => {
-    radio.addEventListener('change', (e) => {
-      state.aiProvider = e.target.value
-      localStorage.setItem('aiProvider', e.target.value)
+// 現在のプロジェクトを保存（未保存なら新規作成）
+async function saveCurrentProject() {
+  if (!state.projectsEnabled) return
+
+  const body = {
+    name: state.projectName,
+    code: state.generatedCode,
+    messages: state.messages,
+    currentVersion: state.currentVersion,
+    settings: {
+      aiProvider: state.aiProvider,
+      model: isCustomEndpoint() ? state.customModel : state.providerModels[state.aiProvider],
+      temperature: state.temperature,
+      maxTokens: state.maxTokens,
+      themeId: state.themeId,
+      customThemes: state.customThemes,
+      fallbackProviders: state.fallbackProviders,
+      localization: state.localization
+    }
+  }
+
+  try {
+    const response = await fetch(state.projectId ? '/api/projects/' + encodeURIComponent(state.projectId) : '/api/projects', {
+      method: state.projectId ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
     })
+    const data = await response.json()
+    if (!data.success) {
+      console.error('Failed to save project:', data.error)
+      return
+    }
+    state.projectId = data.project.id
+    localStorage.setItem('currentProjectId', state.projectId)
+    await syncVersions()
+    await refreshProjectList()
+  } catch (error) {
+    console.error('Failed to save project:', error)
+  }
+}
+
+// プロジェクト切り替え
+window.switchProject = async function(id) {
+  const dropdown = document.getElementById('project-dropdown')
+  if (dropdown) dropdown.classList.add('hidden')
+  if (state.isGenerating || id === state.projectId) return
+
+  await openProject(id)
+}
+
+// プロジェクト名の変更
+window.renameProject = async function(id) {
+  const project = state.projects.find(p => p.id === id)
+  const name = prompt('プロジェクト名', project ? project.name : state.projectName)
+  if (!name || !name.trim()) return
+
+  const response = await fetch('/api/projects/' + encodeURIComponent(id), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: name.trim() })
   })
+  const data = await response.json()
+  if (!data.success) {
+    alert('エラー: ' + data.error)
+    return
+  }
 
-  // APIキー入力
-  const apiKeyInput = document.getElementById('api-key-input')
-  if (apiKeyInput) {
-    apiKeyInput.value = state.apiKey
-    apiKeyInput.addEventListener('input', (e) => {
-      state.apiKey = e.target.value
-      localStorage.setItem('apiKey', e.target.value)
-    })
+  if (id === state.projectId) {
+    state.projectName = data.project.name
+    const nameEl = document.getElementById('project-name')
+    if (nameEl) nameEl.textContent = data.project.name
   }
+  await refreshProjectList()
+}
 
-  // プロンプト入力
-  const textarea = document.getElementById('prompt-input')
-  if (textarea) {
-    textarea.addEventListener('input', updateSendButton)
+// プロジェクト削除
+window.deleteProject = async function(id) {
+  const project = state.projects.find(p => p.id === id)
+  if (!confirm('「' + (project ? project.name : '') + '」を削除しますか？この操作は取り消せません。')) return
+
+  const response = await fetch('/api/projects/' + encodeURIComponent(id), { method: 'DELETE' })
+  const data = await response.json()
+  if (!data.success) {
+    alert('エラー: ' + data.error)
+    return
   }
 
-  // ファイルアップロード
-  const fileInput = document.getElementById('file-upload')
-  if (fileInput) {
-    fileInput.addEventListener('change', handleFileUpload)
+  if (id === state.projectId) {
+    applyProject({ id: null, name: '新規プロジェクト', code: null, messages: [] })
   }
+  await refreshProjectList()
 }
 
-function loadSettings() {
-  // AIプロバイダーを復元
-  const providerRadio = document.querySelector(\`input[name="ai-provider"][value="\${state.aiKey || 'openai'}"]\`)
-  if (providerRadio) {
-    providerRadio.checked = true
+// 公開URL
+function publishedUrl() {
+  return state.published ? location.origin + '/p/' + state.published.slug + '/' : null
+}
+
+// アドレスバーに公開URLを表示
+function updatePreviewUrl() {
+  const link = document.getElementById('preview-url')
+  if (!link) return
+
+  const url = publishedUrl()
+  link.textContent = url || '未公開'
+  if (url) link.href = url
+  else link.removeAttribute('href')
+  link.classList.toggle('text-purple-600', Boolean(url))
+  link.classList.toggle('hover:underline', Boolean(url))
+}
+
+// 公開ダイアログ
+window.openPublishDialog = async function() {
+  if (!state.generatedCode) {
+    alert('公開するWebサイトがありません。')
+    return
+  }
+  if (!state.projectsEnabled) {
+    alert('KVが設定されていないため、公開機能は利用できません。')
+    return
+  }
+
+  // 最新のコードを保存してから公開する
+  await saveCurrentProject()
+  if (!state.projectId) {
+    alert('プロジェクトを保存できませんでした。')
+    return
   }
+
+  const dialog = document.getElementById('publish-dialog')
+  const slugInput = document.getElementById('publish-slug-input')
+  const prefix = document.getElementById('publish-url-prefix')
+  if (prefix) prefix.textContent = location.origin + '/p/'
+  const listedInput = document.getElementById('publish-listed-input')
+  if (slugInput) slugInput.value = state.published ? state.published.slug : ''
+  if (listedInput) listedInput.checked = Boolean(state.published && state.published.listed)
+  renderPublishDialog()
+  if (dialog) dialog.classList.remove('hidden')
 }
 
-function updateUI() {
-  updateSendButton()
+window.closePublishDialog = function() {
+  const dialog = document.getElementById('publish-dialog')
+  if (dialog) dialog.classList.add('hidden')
 }
 
-function updateSendButton() {
-  const input = document.getElementById('prompt-input')
-  const btn = document.getElementById('send-btn')
-  if (!btn || !input) return
+function renderPublishDialog(error) {
+  const status = document.getElementById('publish-status')
+  const publishBtn = document.getElementById('publish-btn')
+  const unpublishBtn = document.getElementById('unpublish-btn')
+  const copyBtn = document.getElementById('publish-copy-btn')
+  const errorEl = document.getElementById('publish-error')
 
-  btn.disabled = !input.value.trim() || state.isGenerating
+  if (status) {
+    status.innerHTML = state.published
+      ? \`公開中: <a href="\${publishedUrl()}" target="_blank" rel="noopener" class="text-purple-600 hover:underline">\${escapeHtml(publishedUrl())}</a><br><span class="text-xs text-slate-400">最終公開: \${new Date(state.published.publishedAt).toLocaleString()}</span>\`
+      : '未公開です。公開すると誰でもURLからサイトを閲覧できます。'
+  }
+  if (publishBtn) publishBtn.textContent = state.published ? '再公開する' : '公開する'
+  if (unpublishBtn) unpublishBtn.classList.toggle('hidden', !state.published)
+  if (copyBtn) copyBtn.classList.toggle('hidden', !state.published)
+  if (errorEl) {
+    errorEl.textContent = error || ''
+    errorEl.classList.toggle('hidden', !error)
+  }
 }
 
-function handleFileUpload(e) {
-  const files = Array.from(e.target.files || [])
-  const allowedTypes = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
-  const validFiles = files.filter(f => allowedTypes.includes(f.type))
-  state.uploadedFiles = [...state.uploadedFiles, ...validFiles]
-  updateUploadedFilesDisplay()
+window.publishSite = async function() {
+  const slugInput = document.getElementById('publish-slug-input')
+  const listedInput = document.getElementById('publish-listed-input')
+  const publishBtn = document.getElementById('publish-btn')
+  if (publishBtn) publishBtn.disabled = true
+
+  try {
+    await saveCurrentProject()
+    const response = await fetch('/api/projects/' + encodeURIComponent(state.projectId) + '/publish', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ slug: slugInput ? slugInput.value.trim() : '', listed: Boolean(listedInput && listedInput.checked) })
+    })
+    const data = await response.json()
+    if (!data.success) {
+      renderPublishDialog(data.error)
+      return
+    }
+
+    state.published = data.published
+    if (slugInput) slugInput.value = data.published.slug
+    renderPublishDialog()
+    updatePreviewUrl()
+  } catch (error) {
+    renderPublishDialog('エラーが発生しました: ' + error.message)
+  } finally {
+    if (publishBtn) publishBtn.disabled = false
+  }
 }
 
-function updateUploadedFilesDisplay() {
-  const container = document.getElementById('uploaded-files')
-  if (!container) return
+window.unpublishSite = async function() {
+  if (!confirm('公開を停止しますか？公開URLにはアクセスできなくなります。')) return
 
-  container.innerHTML = state.uploadedFiles.map((file, index) => \`
-    <span class="inline-flex items-center gap-1 px-2 py-1 bg-slate-100 rounded text-xs text-slate-600">
-      \${file.type.startsWith('image/') ? '🖼️' : '📄'}
-      \${file.name}
-      <button onclick="removeFile(\${index})" class="ml-1 text-slate-400 hover:text-red-500">×</button>
-    </span>
-  \`).join('')
+  const response = await fetch('/api/projects/' + encodeURIComponent(state.projectId) + '/publish', { method: 'DELETE' })
+  const data = await response.json()
+  if (!data.success) {
+    renderPublishDialog(data.error)
+    return
+  }
+
+  state.published = null
+  renderPublishDialog()
+  updatePreviewUrl()
 }
 
-window.removeFile = function(index) {
-  state.uploadedFiles = state.uploadedFiles.filter((_, i) => i !== index)
-  updateUploadedFilesDisplay()
+window.copyPublishedUrl = async function() {
+  const url = publishedUrl()
+  if (!url) return
+  await navigator.clipboard.writeText(url)
+  const copyBtn = document.getElementById('publish-copy-btn')
+  if (copyBtn) {
+    copyBtn.textContent = 'コピーしました'
+    setTimeout(() => { copyBtn.textContent = 'URLをコピー' }, 1500)
+  }
 }
 
-async function handleSend() {
-  const input = document.getElementById('prompt-input')
-  const prompt = input?.value.trim()
+// SEOダイアログで編集するメタデータの項目
+const SEO_FIELDS = ['title', 'description', 'canonical', 'ogTitle', 'ogDescription', 'ogImage', 'ogType', 'twitterCard', 'structuredData']
 
-  if (!prompt) {
-    alert('プロンプトを入力してください')
+// SEOダイアログ（ページごとのメタデータを読み込んで表示）
+window.openSeoDialog = async function() {
+  if (!state.generatedCode) {
+    alert('Webサイトがまだありません。')
     return
   }
-  if (!state.apiKey) {
-    alert('設定からAPIキーを入力してください')
+  if (state.editorDraft && !confirm('コードタブに適用していない編集があります。破棄して続けますか？')) return
+  state.editorDraft = null
+  updateCodeTab()
+
+  try {
+    const response = await fetch('/api/seo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: state.generatedCode })
+    })
+    const data = await response.json()
+    if (!data.success) {
+      alert(describeError(data))
+      return
+    }
+    state.seoPages = data.pages
+  } catch (error) {
+    alert('メタデータを読み込めませんでした: ' + error.message)
     return
   }
 
-  state.isGenerating = true
-  updateSendButton()
+  const select = document.getElementById('seo-page-select')
+  const path = state.seoPages.some(p => p.path === state.currentPage) ? state.currentPage : state.seoPages[0].path
+  if (select) {
+    select.innerHTML = state.seoPages.map(p => '<option value="' + escapeHtml(p.path) + '">' + escapeHtml(p.path) + '</option>').join('')
+    select.value = path
+  }
+  selectSeoPage(path)
+  const dialog = document.getElementById('seo-dialog')
+  if (dialog) dialog.classList.remove('hidden')
+}
 
-  // ユーザーメッセージを追加
-  addChatMessage('user', prompt)
+window.closeSeoDialog = function() {
+  const dialog = document.getElementById('seo-dialog')
+  if (dialog) dialog.classList.add('hidden')
+}
 
-  try {
-    const imageData = await Promise.all(
-      state.uploadedFiles
-        .filter(f => f.type.startsWith('image/'))
-        .map(async f => {
-          const base64 = await fileToBase64(f)
-          return { name: f.name, type: f.type, data: base64 }
-        })
-    )
+function selectSeoPage(path) {
+  const page = state.seoPages.find(p => p.path === path)
+  if (!page) return
+  state.seoPath = path
+  SEO_FIELDS.forEach(field => {
+    const input = document.getElementById('seo-' + field + '-input')
+    if (input) input.value = page.metadata[field] || ''
+  })
+  // 公開中なら、そのページの公開URLを正規URLの候補として表示
+  const canonical = document.getElementById('seo-canonical-input')
+  if (canonical) canonical.placeholder = publishedPageUrl(path) || 'https://example.com/'
+  renderSeoStatus()
+}
+window.selectSeoPage = selectSeoPage
+
+// 公開中のサイトでのページのURL（未公開ならnull）
+function publishedPageUrl(path) {
+  const url = publishedUrl()
+  return url ? url + (path === 'index.html' ? '' : path) : null
+}
+
+function readSeoForm() {
+  const metadata = {}
+  SEO_FIELDS.forEach(field => {
+    const input = document.getElementById('seo-' + field + '-input')
+    metadata[field] = input ? input.value.trim() : ''
+  })
+  return metadata
+}
+
+function renderSeoStatus(status, error) {
+  const statusEl = document.getElementById('seo-status')
+  const errorEl = document.getElementById('seo-error')
+  if (statusEl) {
+    statusEl.textContent = status || ''
+    statusEl.classList.toggle('hidden', !status)
+  }
+  if (errorEl) {
+    errorEl.textContent = error || ''
+    errorEl.classList.toggle('hidden', !error)
+  }
+}
+
+// ページの内容からAIにメタデータを提案させ、フォームに入れる（保存はしない）
+window.suggestSeoMetadata = async function() {
+  const button = document.getElementById('seo-suggest-btn')
+  if (button) button.disabled = true
+  renderSeoStatus('提案を生成しています…')
 
-    const response = await fetch('/api/generate', {
+  try {
+    const response = await fetch('/api/seo/suggest', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        prompt: prompt,
+        code: state.generatedCode,
+        path: state.seoPath,
         aiProvider: state.aiProvider,
-        apiKey: state.apiKey,
-        images: imageData,
-        existingCode: state.generatedCode
+        apiKey: currentApiKey(),
+        model: isCustomEndpoint() ? state.customModel : state.providerModels[state.aiProvider],
+        baseUrl: isCustomEndpoint() ? state.customBaseUrl : undefined,
+        temperature: state.temperature,
+        maxTokens: state.maxTokens,
+        fallbackProviders: state.fallbackProviders,
+        projectId: state.projectId
       })
     })
+    const data = await response.json()
+    updateQuota(data.quota)
+    if (!data.success) {
+      renderSeoStatus('', describeError(data, response.statusText))
+      return
+    }
+
+    Object.entries(data.metadata).forEach(([field, value]) => {
+      const input = document.getElementById('seo-' + field + '-input')
+      if (input && value) input.value = value
+    })
+    const canonical = document.getElementById('seo-canonical-input')
+    if (canonical && !canonical.value && publishedPageUrl(state.seoPath)) canonical.value = publishedPageUrl(state.seoPath)
+    renderSeoStatus('提案を入力しました。内容を確認して保存してください（' + providerDisplayName(data.provider, data.model) + '・' + formatUsage(data.usage) + '）')
+  } catch (error) {
+    renderSeoStatus('', '提案を取得できませんでした: ' + error.message)
+  } finally {
+    if (button) button.disabled = false
+  }
+}
+
+// メタデータをページのheadに書き込み、バージョン履歴に記録
+window.applySeoMetadata = async function() {
+  if (state.isGenerating) return
+  const button = document.getElementById('seo-apply-btn')
+  if (button) button.disabled = true
 
+  try {
+    const metadata = readSeoForm()
+    const response = await fetch('/api/seo/apply', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: state.generatedCode, path: state.seoPath, metadata })
+    })
     const data = await response.json()
+    if (!data.success) {
+      renderSeoStatus('', describeError(data, response.statusText))
+      return
+    }
 
-    if (data.success) {
+    if (data.code !== state.generatedCode) {
+      const operations = [{ type: 'modified', path: state.seoPath }]
       state.generatedCode = data.code
+      const synced = await syncTranslations(operations)
+      recordVersion('SEO設定（' + state.seoPath + '）', state.generatedCode, 'manual')
+      showFileOperations(operations)
+      if (synced) addChatMessage('ai', synced.text, undefined, synced.usage)
+      updatePreview()
+      updateCodeTab()
+      saveCurrentProject()
+    }
+    // ページを切り替えて戻ったときに保存した値を表示する
+    const page = state.seoPages.find(p => p.path === state.seoPath)
+    if (page) page.metadata = metadata
+    renderSeoStatus(state.published ? '保存しました。公開中のサイトに反映するには再公開してください。' : '保存しました。')
+  } catch (error) {
+    renderSeoStatus('', '保存できませんでした: ' + error.message)
+  } finally {
+    if (button) button.disabled = false
+  }
+}
+
+// 多言語版を作れる言語（サーバーはほかの言語タグも受け付ける）
+const TRANSLATE_LOCALES = ['ja', 'en', 'zh-Hans', 'zh-Hant', 'ko', 'fr', 'de', 'es', 'pt', 'it']
+
+// 言語の日本語での名前
+function localeLabel(locale) {
+  try {
+    return new Intl.DisplayNames(['ja'], { type: 'language' }).of(locale) || locale
+  } catch (error) {
+    return locale
+  }
+}
+
+// 選択肢に出す言語（保存済みの設定にある言語も含める）
+function translateLocaleOptions() {
+  const saved = state.localization ? [state.localization.sourceLocale, ...state.localization.locales] : []
+  return [...new Set([...TRANSLATE_LOCALES, ...saved])]
+}
+
+// 多言語版のページか（元のページから作られたページにはhtml要素にdata-i18n-sourceがある）
+function isLocalizedPage(html) {
+  return /<html\\b[^>]*\\sdata-i18n-source=/i.test(html || '')
+}
+
+// 翻訳ダイアログ
+window.openTranslateDialog = function() {
+  if (!state.generatedCode) {
+    alert('翻訳するWebサイトがありません。')
+    return
+  }
+  const select = document.getElementById('translate-source-select')
+  if (select) {
+    select.innerHTML = translateLocaleOptions().map(l => '<option value="' + escapeHtml(l) + '">' + escapeHtml(localeLabel(l)) + '</option>').join('')
+    select.value = state.localization ? state.localization.sourceLocale : 'ja'
+  }
+  renderTranslateLocales(state.localization ? state.localization.locales : [])
+  renderTranslateStatus()
+  const dialog = document.getElementById('translate-dialog')
+  if (dialog) dialog.classList.remove('hidden')
+}
+
+window.closeTranslateDialog = function() {
+  const dialog = document.getElementById('translate-dialog')
+  if (dialog) dialog.classList.add('hidden')
+}
+
+// 翻訳先のチェックボックス（元の言語は除き、指定がなければいまのチェックを残す）
+function renderTranslateLocales(selected) {
+  const container = document.getElementById('translate-locales')
+  const select = document.getElementById('translate-source-select')
+  if (!container || !select) return
+  const checked = selected || [...container.querySelectorAll('input:checked')].map(input => input.value)
+  container.innerHTML = translateLocaleOptions()
+    .filter(l => l !== select.value)
+    .map(l => '<label class="flex items-center gap-2 text-sm text-slate-700">' +
+      '<input type="checkbox" value="' + escapeHtml(l) + '"' + (checked.includes(l) ? ' checked' : '') + ' class="rounded border-slate-300 text-purple-500 focus:ring-purple-500" />' +
+      escapeHtml(localeLabel(l)) + '</label>')
+    .join('')
+}
+window.renderTranslateLocales = renderTranslateLocales
+
+function renderTranslateStatus(status, error) {
+  const statusEl = document.getElementById('translate-status')
+  const errorEl = document.getElementById('translate-error')
+  if (statusEl) {
+    statusEl.textContent = status || ''
+    statusEl.classList.toggle('hidden', !status)
+  }
+  if (errorEl) {
+    errorEl.textContent = error || ''
+    errorEl.classList.toggle('hidden', !error)
+  }
+}
+
+// 多言語版を作り直す（公開中ならhreflangと正規URLを公開URLで書く）
+async function requestTranslation(sourceLocale, locales, memory) {
+  const response = await fetch('/api/translate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      code: state.generatedCode,
+      sourceLocale,
+      locales,
+      memory,
+      siteUrl: publishedUrl() || undefined,
+      aiProvider: state.aiProvider,
+      apiKey: currentApiKey(),
+      model: isCustomEndpoint() ? state.customModel : state.providerModels[state.aiProvider],
+      baseUrl: isCustomEndpoint() ? state.customBaseUrl : undefined,
+      temperature: state.temperature,
+      maxTokens: state.maxTokens,
+      fallbackProviders: state.fallbackProviders,
+      projectId: state.projectId
+    })
+  })
+  const data = await response.json()
+  updateQuota(data.quota)
+  if (!data.success) throw new Error(describeError(data, response.statusText))
+  return data
+}
 
-      // AI応答メッセージ
-      addChatMessage('ai', 'Webサイトを生成しました！')
+// 選択した言語の多言語版を作り、バージョン履歴に記録
+window.translateSite = async function() {
+  if (state.isGenerating) return
+  const select = document.getElementById('translate-source-select')
+  const container = document.getElementById('translate-locales')
+  const button = document.getElementById('translate-btn')
+  if (!select || !container) return
 
-      // ファイル操作表示
-      showFileOperations([
-        { type: 'created', path: 'index.html' }
-      ])
+  const sourceLocale = select.value
+  const locales = [...container.querySelectorAll('input:checked')].map(input => input.value)
+  // 元の言語を変えた場合は、以前の訳文を使わない
+  const memory = state.localization && state.localization.sourceLocale === sourceLocale ? state.localization.memory : {}
+  if (button) button.disabled = true
+  renderTranslateStatus(locales.length > 0 ? '翻訳しています…' : '多言語版を削除しています…')
 
-      // プレビュー更新
+  try {
+    const data = await requestTranslation(sourceLocale, locales, memory)
+    state.localization = data.localization
+    if (data.code !== state.generatedCode) {
+      state.generatedCode = data.code
+      recordVersion(locales.length > 0 ? '翻訳（' + locales.map(localeLabel).join('・') + '）' : '多言語版の削除', data.code, 'ai')
+      showFileOperations(data.operations)
       updatePreview()
-    } else {
-      addChatMessage('ai', 'エラー: ' + data.error)
+      updateCodeTab()
     }
+    if (data.usage) addChatMessage('ai', 'サイトを翻訳しました（' + providerDisplayName(data.provider, data.model) + '）', undefined, data.usage)
+    saveCurrentProject()
+    renderTranslateStatus(locales.length > 0
+      ? '多言語版を作成しました。' + (state.published ? '公開中のサイトに反映するには再公開してください。' : '')
+      : '多言語版を削除しました。')
   } catch (error) {
-    console.error('Error:', error)
-    addChatMessage('ai', 'エラーが発生しました: ' + error.message)
+    renderTranslateStatus('', error.message)
   } finally {
-    state.isGenerating = false
-    updateSendButton()
-
-    // 入力をクリア
-    if (input) input.value = ''
+    if (button) button.disabled = false
   }
 }
 
-function addChatMessage(role, text) {
-  const container = document.getElementById('chat-messages')
-  if (!container) return
+// 元のページの変更を多言語版に反映する（変更されたテキストだけを翻訳する）
+// 多言語版がないか、変更が元のページに及ばない場合はnull。結果はチャットに出すメッセージとして返す
+async function syncTranslations(operations) {
+  const localization = state.localization
+  if (!localization || localization.locales.length === 0 || !state.generatedCode) return null
+  const files = currentFiles()
+  const changed = operations.some(op => op.path.endsWith('.html') && (op.type === 'deleted' || !isLocalizedPage(files[op.path])))
+  if (!changed) return null
 
-  const messageDiv = document.createElement('div')
-  messageDiv.className = 'chat-message'
+  try {
+    const data = await requestTranslation(localization.sourceLocale, localization.locales, localization.memory)
+    state.localization = data.localization
+    if (data.code === state.generatedCode) return null
+    state.generatedCode = data.code
+    return {
+      text: '多言語版に変更を反映しました' + (data.usage ? '（' + providerDisplayName(data.provider, data.model) + '）' : ''),
+      usage: data.usage || undefined
+    }
+  } catch (error) {
+    return { text: '多言語版に変更を反映できませんでした。翻訳ダイアログからやり直してください: ' + error.message }
+  }
+}
 
-  if (role === 'user') {
-    messageDiv.innerHTML = \`
-      <div class="flex items-start gap-3 justify-end">
-        <div class="max-w-[80%] px-3 py-2 bg-purple-500 text-white rounded-2xl rounded-tr-sm">
-          <p class="text-sm">\${escapeHtml(text)}</p>
-        </div>
-      </div>
-    \`
-  } else {
-    messageDiv.innerHTML = \`
-      <div class="flex items-start gap-3">
-        <div class="w-8 h-8 bg-purple-500 flex items-center justify-center text-white text-sm flex-shrink-0 rotate-45">
-          <span class="rotate-[-45deg]">R</span>
-        </div>
-        <div class="flex-1">
-          <p class="text-sm text-slate-600">\${escapeHtml(text)}</p>
-        </div>
-      </div>
-    \`
+// バージョン履歴を取得
+async function fetchVersions(projectId) {
+  try {
+    const response = await fetch('/api/projects/' + encodeURIComponent(projectId) + '/versions')
+    const data = await response.json()
+    return data.success ? data.versions.map(v => ({ ...v, synced: true })) : []
+  } catch (error) {
+    console.error('Failed to load versions:', error)
+    return []
   }
+}
 
-  container.appendChild(messageDiv)
-  container.scrollTop = container.scrollHeight
+// 生成結果・手動編集を新しいバージョンとして記録（履歴の途中から生成しても以降は消さない）
+function recordVersion(prompt, code, source = 'ai') {
+  const number = state.versions.reduce((max, v) => Math.max(max, v.number), 0) + 1
+  state.versions.push({ number, prompt, code, source, createdAt: new Date().toISOString(), synced: false })
+  state.currentVersion = number
+  renderVersionHistory()
 }
 
-function showFileOperations(operations) {
-  const container = document.getElementById('file-operations')
-  const list = document.getElementById('file-operations-list')
-  if (!container || !list) return
+// 未保存のバージョンをサーバーへ送る
+async function syncVersions() {
+  if (!state.projectsEnabled || !state.projectId) return
 
-  container.classList.remove('hidden')
-  list.innerHTML = operations.map(op => \`
-    <div class="file-operation-item flex items-center gap-2 text-xs text-slate-600">
-      <span class="\${op.type === 'created' ? 'text-green-500' : 'text-blue-500'}">
-        \${op.type === 'created' ? '✓' : '✏'}
-      </span>
-      <span>\${op.type === 'created' ? 'File Created' : 'File Modified'}</span>
-      <span class="font-mono text-slate-400">\${op.path}</span>
-    </div>
-  \`).join('')
+  for (const version of state.versions.filter(v => !v.synced)) {
+    const response = await fetch('/api/projects/' + encodeURIComponent(state.projectId) + '/versions/' + version.number, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: version.prompt, code: version.code, source: version.source, createdAt: version.createdAt })
+    })
+    const data = await response.json()
+    if (data.success) version.synced = true
+  }
 }
 
-function updatePreview() {
-  const placeholder = document.getElementById('preview-placeholder')
-  const iframe = document.getElementById('preview-iframe')
-  const codeDisplay = document.getElementById('code-display')
+// バージョンのコードを取得（未取得ならサーバーから読み込む）
+async function getVersionCode(number) {
+  const version = state.versions.find(v => v.number === number)
+  if (!version) return null
+  if (version.code) return version.code
 
-  if (!state.generatedCode) return
+  const response = await fetch('/api/projects/' + encodeURIComponent(state.projectId) + '/versions/' + number)
+  const data = await response.json()
+  if (!data.success) return null
+  version.code = data.version.code
+  return version.code
+}
 
-  if (placeholder) placeholder.classList.add('hidden')
-  if (iframe) {
-    iframe.classList.remove('hidden')
-    iframe.srcdoc = state.generatedCode
+// 指定したバージョンを表示
+async function goToVersion(number) {
+  if (state.isGenerating) return
+
+  const code = await getVersionCode(number)
+  if (code === null) {
+    alert('バージョンを読み込めませんでした')
+    return
   }
-  if (codeDisplay) codeDisplay.classList.add('hidden')
+
+  state.generatedCode = code
+  state.currentVersion = number
+  updatePreview()
+  updateCodeTab()
+  renderVersionHistory()
+  saveCurrentProject()
 }
 
-window.setViewMode = function(mode) {
-  state.currentViewMode = mode
-  const container = document.getElementById('preview-container')
-  if (!container) return
+// 前後のバージョンへ移動
+window.undoVersion = function() {
+  const index = state.versions.findIndex(v => v.number === state.currentVersion)
+  if (index > 0) goToVersion(state.versions[index - 1].number)
+}
 
-  // ボタンのスタイル更新
-  document.querySelectorAll('.view-mode-btn').forEach(btn => {
-    btn.className = 'view-mode-btn px-2 py-1 rounded text-sm transition-colors text-slate-400 hover:bg-slate-200'
-  })
-  const activeBtn = document.getElementById('view-' + mode)
-  if (activeBtn) {
-    activeBtn.className = 'view-mode-btn px-2 py-1 rounded text-sm transition-colors bg-slate-200 text-slate-700'
+window.redoVersion = function() {
+  const index = state.versions.findIndex(v => v.number === state.currentVersion)
+  if (index !== -1 && index < state.versions.length - 1) goToVersion(state.versions[index + 1].number)
+}
+
+window.restoreVersion = function(number) {
+  goToVersion(number)
+}
+
+function renderVersionHistory() {
+  const index = state.versions.findIndex(v => v.number === state.currentVersion)
+  const canUndo = index > 0
+  const canRedo = index !== -1 && index < state.versions.length - 1
+
+  const undoBtn = document.getElementById('undo-btn')
+  const redoBtn = document.getElementById('redo-btn')
+  if (undoBtn) undoBtn.disabled = !canUndo
+  if (redoBtn) redoBtn.disabled = !canRedo
+  document.querySelectorAll('.version-undo').forEach(btn => { btn.disabled = !canUndo })
+  document.querySelectorAll('.version-redo').forEach(btn => { btn.disabled = !canRedo })
+
+  const badge = document.getElementById('version-badge')
+  if (badge) {
+    badge.classList.toggle('hidden', index === -1)
+    badge.textContent = 'v' + state.currentVersion + ' / ' + state.versions.length
   }
 
-  // コンテナのサイズ変更
-  switch (mode) {
-    case 'desktop':
-      container.style.maxWidth = '100%'
-      break
-    case 'tablet':
-      container.style.maxWidth = '768px'
-      break
-    case 'mobile':
-      container.style.maxWidth = '375px'
-      break
+  const list = document.getElementById('version-list')
+  if (list) {
+    list.innerHTML = state.versions.length === 0
+      ? '<p class="px-3 py-2 text-slate-400">まだバージョンはありません</p>'
+      : state.versions.slice().reverse().map(v => \`
+        <div class="flex items-center gap-2 px-3 py-1.5 \${v.number === state.currentVersion ? 'bg-purple-50' : 'hover:bg-slate-50'}">
+          <span class="font-mono \${v.number === state.currentVersion ? 'text-purple-600 font-medium' : 'text-slate-400'}">v\${v.number}</span>
+          \${v.source === 'manual' ? '<span class="px-1 rounded bg-amber-100 text-amber-700" title="コードタブでの手動編集">手動</span>' : ''}
+          \${v.source === 'template' ? '<span class="px-1 rounded bg-sky-100 text-sky-700" title="テンプレートから作成">テンプレート</span>' : ''}
+          <span class="flex-1 truncate text-slate-600" title="\${escapeHtml(v.prompt)}">\${escapeHtml(v.prompt)}</span>
+          \${v.number === state.currentVersion
+            ? '<span class="text-purple-500">表示中</span>'
+            : \`<button onclick="restoreVersion(\${v.number})" class="text-purple-600 hover:underline">復元</button>\`}
+        </div>
+      \`).join('')
+  }
+
+  // 差分比較の選択肢（既定は1つ前 → 現在）
+  const fromSelect = document.getElementById('diff-from')
+  const toSelect = document.getElementById('diff-to')
+  if (fromSelect && toSelect) {
+    const options = state.versions.map(v => \`<option value="\${v.number}">v\${v.number}</option>\`).join('')
+    const from = fromSelect.value || (index > 0 ? state.versions[index - 1].number : '')
+    const to = toSelect.value || (index !== -1 ? state.currentVersion : '')
+    fromSelect.innerHTML = options
+    toSelect.innerHTML = options
+    if (from) fromSelect.value = String(from)
+    if (to) toSelect.value = String(to)
   }
 }
 
-window.toggleCodeView = function() {
-  state.showCode = !state.showCode
-  const placeholder = document.getElementById('preview-placeholder')
-  const iframe = document.getElementById('preview-iframe')
-  const codeDisplay = document.getElementById('code-display')
+// 差分表示の切り替え
+window.toggleVersionDiff = async function() {
+  if (state.showDiff) {
+    closeVersionDiff()
+    return
+  }
 
-  if (state.showCode) {
-    if (placeholder) placeholder.classList.add('hidden')
-    if (iframe) iframe.classList.add('hidden')
-    if (codeDisplay) {
-      codeDisplay.classList.remove('hidden')
-      codeDisplay.querySelector('code').textContent = state.generatedCode || ''
-    }
-  } else {
-    updatePreview()
+  const from = parseInt(document.getElementById('diff-from')?.value || '', 10)
+  const to = parseInt(document.getElementById('diff-to')?.value || '', 10)
+  if (!from || !to || from === to) {
+    alert('比較する2つのバージョンを選択してください')
+    return
   }
-}
 
-function fileToBase64(file) {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = () => resolve(reader.result)
-    reader.onerror = reject
-    reader.readAsDataURL(file)
-  })
+  const [fromCode, toCode] = await Promise.all([getVersionCode(from), getVersionCode(to)])
+  if (fromCode === null || toCode === null) {
+    alert('バージョンを読み込めませんでした')
+    return
+  }
+
+  const diffView = document.getElementById('diff-view')
+  const codeDisplay = document.getElementById('full-code-display')
+  const sidePanel = document.getElementById('side-panel')
+  const diffBtn = document.getElementById('diff-btn')
+  if (!diffView || !codeDisplay) return
+
+  diffView.innerHTML = renderSideBySideDiff(diffLines(fromCode.split('\\n'), toCode.split('\\n')), from, to)
+  diffView.classList.remove('hidden')
+  codeDisplay.classList.add('hidden')
+  // 左右比較のためパネルを広げる
+  if (sidePanel) sidePanel.classList.replace('w-96', 'w-[56rem]')
+  if (diffBtn) diffBtn.textContent = '閉じる'
+  state.showDiff = true
 }
 
-function escapeHtml(text) {
-  const div = document.createElement('div')
-  div.textContent = text
-  return div.innerHTML
+function closeVersionDiff() {
+  const diffView = document.getElementById('diff-view')
+  const codeDisplay = document.getElementById('full-code-display')
+  const sidePanel = document.getElementById('side-panel')
+  const diffBtn = document.getElementById('diff-btn')
+  if (diffView) diffView.classList.add('hidden')
+  if (codeDisplay) codeDisplay.classList.remove('hidden')
+  if (sidePanel) sidePanel.classList.replace('w-[56rem]', 'w-96')
+  if (diffBtn) diffBtn.textContent = '差分'
+  state.showDiff = false
 }
 
-// タブ切り替え
-window.switchTab = function(tab) {
-  const chatContent = document.getElementById('chat-content')
-  const codeContent = document.getElementById('code-content')
-  const tabChat = document.getElementById('tab-chat')
-  const tabCode = document.getElementById('tab-code')
+// 行単位の差分（LCS）。戻り値は { type: 'same' | 'removed' | 'added', text } の配列
+function diffLines(a, b) {
+  // 共通の先頭・末尾を除いてから比較する
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
 
-  if (!chatContent || !codeContent || !tabChat || !tabCode) return
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const ops = []
 
-  if (tab === 'chat') {
-    chatContent.classList.remove('hidden')
-    codeContent.classList.add('hidden')
-    tabChat.className = 'flex-1 py-3 text-sm font-medium text-purple-600 border-b-2 border-purple-500 transition-colors'
-    tabCode.className = 'flex-1 py-3 text-sm font-medium text-slate-500 hover:text-slate-700 transition-colors'
+  if (midA.length * midB.length > 4000000) {
+    // 大きすぎる場合は置き換えとして扱う
+    midA.forEach(text => ops.push({ type: 'removed', text }))
+    midB.forEach(text => ops.push({ type: 'added', text }))
   } else {
-    chatContent.classList.add('hidden')
-    codeContent.classList.remove('hidden')
-    tabChat.className = 'flex-1 py-3 text-sm font-medium text-slate-500 hover:text-slate-700 transition-colors'
-    tabCode.className = 'flex-1 py-3 text-sm font-medium text-purple-600 border-b-2 border-purple-500 transition-colors'
+    const cols = midB.length + 1
+    const table = new Uint32Array((midA.length + 1) * cols)
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        table[i * cols + j] = midA[i] === midB[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ type: 'same', text: midA[i] })
+        i++
+        j++
+      } else if (i < midA.length && (j === midB.length || table[(i + 1) * cols + j] >= table[i * cols + j + 1])) {
+        ops.push({ type: 'removed', text: midA[i] })
+        i++
+      } else {
+        ops.push({ type: 'added', text: midB[j] })
+        j++
+      }
+    }
+  }
 
-    // コードタブの内容を更新
-    updateCodeTab()
+  return [
+    ...a.slice(0, start).map(text => ({ type: 'same', text })),
+    ...ops,
+    ...a.slice(endA).map(text => ({ type: 'same', text }))
+  ]
+}
+
+// 差分を左右比較のHTMLに変換（連続する削除・追加は同じ行に並べる）
+function renderSideBySideDiff(ops, from, to) {
+  const rows = []
+  let removed = []
+  let added = []
+  let leftNo = 0
+  let rightNo = 0
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length)
+    for (let k = 0; k < count; k++) {
+      rows.push({
+        left: k < removed.length ? { no: ++leftNo, text: removed[k] } : null,
+        right: k < added.length ? { no: ++rightNo, text: added[k] } : null,
+        changed: true
+      })
+    }
+    removed = []
+    added = []
   }
+
+  ops.forEach(op => {
+    if (op.type === 'removed') removed.push(op.text)
+    else if (op.type === 'added') added.push(op.text)
+    else {
+      flush()
+      rows.push({ left: { no: ++leftNo, text: op.text }, right: { no: ++rightNo, text: op.text }, changed: false })
+    }
+  })
+  flush()
+
+  const cell = (line, changed, color, border) => line
+    ? \`<td class="w-8 px-1 text-right text-slate-400 select-none \${border} \${changed ? color : ''}">\${line.no}</td><td class="px-2 whitespace-pre \${changed ? color : ''}">\${escapeHtml(line.text)}</td>\`
+    : \`<td class="w-8 bg-slate-50 \${border}"></td><td class="bg-slate-50"></td>\`
+
+  return \`
+    <table class="w-full border-collapse">
+      <thead class="sticky top-0 bg-white text-slate-500">
+        <tr><th colspan="2" class="px-2 py-1 text-left border-b border-slate-200">v\${from}</th><th colspan="2" class="px-2 py-1 text-left border-b border-l border-slate-200">v\${to}</th></tr>
+      </thead>
+      <tbody>
+        \${rows.map(row => \`<tr>\${cell(row.left, row.changed, 'bg-red-50 text-red-800', '')}\${cell(row.right, row.changed, 'bg-green-50 text-green-800', 'border-l border-slate-200')}</tr>\`).join('')}
+      </tbody>
+    </table>
+  \`
 }
 
-// コードタブを更新
-function updateCodeTab() {
-  const codeDisplay = document.getElementById('full-code-display')
-  if (!codeDisplay) return
+// 共有機能（サーバーで共有リンクを発行）
+window.shareProject = async function() {
+  if (!state.generatedCode) {
+    alert('共有するWebサイトがありません。')
+    return
+  }
+  if (!state.projectsEnabled) {
+    alert('KVが設定されていないため、共有機能は利用できません。')
+    return
+  }
 
-  if (state.generatedCode) {
-    codeDisplay.querySelector('code').textContent = state.generatedCode
-  } else {
-    codeDisplay.querySelector('code').textContent = 'コードはまだ生成されていません'
+  // 共有リンクは保存済みのコードを表示するため、先に保存する
+  await saveCurrentProject()
+  if (!state.projectId) {
+    alert('プロジェクトを保存できませんでした。')
+    return
   }
+
+  const dialog = document.getElementById('share-dialog')
+  if (dialog) dialog.classList.remove('hidden')
+  await refreshShareLinks()
 }
 
-// フィードバック送信
-window.sendFeedback = function(type) {
-  // TODO: フィードバックをサーバーに送信
-  console.log('Feedback:', type)
-  alert(type === 'up' ? '👍 良い評価を送信しました' : '👎 悪い評価を送信しました')
+window.closeShareDialog = function() {
+  const dialog = document.getElementById('share-dialog')
+  if (dialog) dialog.classList.add('hidden')
 }
 
-// ファイル操作のトグル
-window.toggleFileOperations = function() {
-  const container = document.getElementById('file-operations')
-  const list = document.getElementById('file-operations-list')
-  if (!container || !list) return
+function shareUrl(token) {
+  return location.origin + '/s/' + token + '/'
+}
 
-  if (list.classList.contains('hidden')) {
-    list.classList.remove('hidden')
-  } else {
-    list.classList.add('hidden')
+async function refreshShareLinks() {
+  const response = await fetch('/api/projects/' + encodeURIComponent(state.projectId) + '/shares')
+  const data = await response.json()
+  renderShareLinks(data.success ? data.shares : [], data.success ? '' : data.error)
+}
+
+function renderShareLinks(shares, error) {
+  const list = document.getElementById('share-list')
+  const errorEl = document.getElementById('share-error')
+  if (errorEl) {
+    errorEl.textContent = error || ''
+    errorEl.classList.toggle('hidden', !error)
   }
+  if (!list) return
+
+  list.innerHTML = shares.length === 0
+    ? '<p class="text-xs text-slate-400">発行済みの共有リンクはありません</p>'
+    : shares.map(share => \`
+      <div class="flex items-center gap-2 p-2 rounded-lg border border-slate-200">
+        <div class="flex-1 min-w-0">
+          <a href="\${shareUrl(share.token)}" target="_blank" rel="noopener" class="block truncate text-xs font-mono text-purple-600 hover:underline">\${shareUrl(share.token)}</a>
+          <span class="text-[10px] text-slate-400">
+            \${share.expiresAt ? '有効期限: ' + new Date(share.expiresAt).toLocaleString() : '無期限'}\${share.hasPasscode ? ' ・ 🔒 パスコードあり' : ''}
+          </span>
+        </div>
+        <button onclick="copyShareLink('\${share.token}', this)" class="px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 rounded border border-slate-200">コピー</button>
+        <button onclick="revokeShareLink('\${share.token}')" class="px-2 py-1 text-xs text-red-500 hover:bg-red-50 rounded border border-red-200">無効化</button>
+      </div>
+    \`).join('')
 }
 
-window.handleSend = handleSend
-window.removeFile = removeFile
-window.setViewMode = setViewMode
-window.toggleCodeView = toggleCodeView
-window.switchTab = switchTab
-window.sendFeedback = sendFeedback
-window.toggleFileOperations = toggleFileOperations
+window.createShareLink = async function() {
+  const expirySelect = document.getElementById('share-expiry-select')
+  const passcodeInput = document.getElementById('share-passcode-input')
+  const button = document.getElementById('create-share-btn')
+  if (button) button.disabled = true
 
-// プロジェクトドロップダウン
-window.toggleProjectDropdown = function() {
-  const dropdown = document.getElementById('project-dropdown')
-  if (dropdown) {
-    dropdown.classList.toggle('hidden')
+  try {
+    const response = await fetch('/api/projects/' + encodeURIComponent(state.projectId) + '/shares', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        expiresIn: expirySelect && expirySelect.value ? parseInt(expirySelect.value, 10) : null,
+        passcode: passcodeInput ? passcodeInput.value : ''
+      })
+    })
+    const data = await response.json()
+    if (!data.success) {
+      renderShareLinks([], data.error)
+      return
+    }
+
+    if (passcodeInput) passcodeInput.value = ''
+    await navigator.clipboard.writeText(data.url).catch(() => {})
+    await refreshShareLinks()
+  } finally {
+    if (button) button.disabled = false
   }
 }
 
-// 新規プロジェクト作成
-window.createNewProject = function() {
-  if (confirm('現在のプロジェクトを破棄して新規作成しますか？')) {
-    state.generatedCode = null
-    const placeholder = document.getElementById('preview-placeholder')
-    const iframe = document.getElementById('preview-iframe')
-    if (placeholder) placeholder.classList.remove('hidden')
-    if (iframe) iframe.classList.add('hidden')
-    const dropdown = document.getElementById('project-dropdown')
-    if (dropdown) dropdown.classList.add('hidden')
-  }
+window.copyShareLink = async function(token, button) {
+  await navigator.clipboard.writeText(shareUrl(token))
+  button.textContent = 'コピー済み'
+  setTimeout(() => { button.textContent = 'コピー' }, 1500)
 }
 
-// 共有機能
-window.shareProject = function() {
-  if (!state.generatedCode) {
-    alert('共有するWebサイトがありません。')
+window.revokeShareLink = async function(token) {
+  if (!confirm('この共有リンクを無効化しますか？')) return
+
+  const response = await fetch('/api/projects/' + encodeURIComponent(state.projectId) + '/shares/' + token, { method: 'DELETE' })
+  const data = await response.json()
+  if (!data.success) {
+    alert('エラー: ' + data.error)
     return
   }
-  const blob = new Blob([state.generatedCode], { type: 'text/html' })
-  const url = URL.createObjectURL(blob)
-  window.open(url, '_blank')
+  await refreshShareLinks()
 }
 
 // ダウンロード機能
@@ -957,28 +9842,134 @@ window.downloadCode = function() {
     alert('ダウンロードするコードがありません。')
     return
   }
-  const blob = new Blob([state.generatedCode], { type: 'text/html' })
+  // 複数ファイルのサイトはZIPにまとめる
+  const files = currentFiles()
+  const single = Object.keys(files).length === 1
+  const blob = single ? new Blob([files['index.html']], { type: 'text/html' }) : createZip(files)
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
-  a.download = 'index.html'
+  a.download = single ? 'index.html' : 'website.zip'
   document.body.appendChild(a)
   a.click()
   document.body.removeChild(a)
   URL.revokeObjectURL(url)
 }
 
+// ZIP（無圧縮）を作成
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes) {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function createZip(files) {
+  const encoder = new TextEncoder()
+  const now = new Date()
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1)
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+
+  const entries = []
+  const directory = []
+  let offset = 0
+  for (const [path, content] of Object.entries(files)) {
+    const name = encoder.encode(path)
+    const data = encoder.encode(content)
+    const crc = crc32(data)
+
+    // ローカルファイルヘッダー（UTF-8のファイル名、無圧縮）
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 0x0800, true)
+    header.setUint16(10, time, true)
+    header.setUint16(12, date, true)
+    header.setUint32(14, crc, true)
+    header.setUint32(18, data.length, true)
+    header.setUint32(22, data.length, true)
+    header.setUint16(26, name.length, true)
+    entries.push(header, name, data)
+
+    // セントラルディレクトリ
+    const record = new DataView(new ArrayBuffer(46))
+    record.setUint32(0, 0x02014b50, true)
+    record.setUint16(4, 20, true)
+    record.setUint16(6, 20, true)
+    record.setUint16(8, 0x0800, true)
+    record.setUint16(12, time, true)
+    record.setUint16(14, date, true)
+    record.setUint32(16, crc, true)
+    record.setUint32(20, data.length, true)
+    record.setUint32(24, data.length, true)
+    record.setUint16(28, name.length, true)
+    record.setUint32(42, offset, true)
+    directory.push(record, name)
+
+    offset += header.byteLength + name.length + data.length
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.byteLength, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, directory.length / 2, true)
+  end.setUint16(10, directory.length / 2, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...entries, ...directory, end], { type: 'application/zip' })
+}
+
 // ページセレクター
 window.togglePageSelector = function() {
   const dropdown = document.getElementById('page-dropdown')
   if (dropdown) dropdown.classList.toggle('hidden')
 }
 
-window.selectPage = function(pageName) {
-  const el = document.getElementById('current-page-name')
-  if (el) el.textContent = pageName
+window.selectPage = function(page) {
+  state.currentPage = page
   const dropdown = document.getElementById('page-dropdown')
   if (dropdown) dropdown.classList.add('hidden')
+
+  if (state.showCode) {
+    renderPageSelector()
+    renderCodeView()
+  } else {
+    updatePreview()
+  }
+}
+
+// ページ一覧（HTMLファイル）を描画
+function renderPageSelector() {
+  const files = currentFiles()
+  const pages = Object.keys(files).filter(path => path.endsWith('.html'))
+  if (!pages.includes(state.currentPage)) state.currentPage = 'index.html'
+
+  const name = document.getElementById('current-page-name')
+  if (name) name.textContent = state.currentPage
+
+  const dropdown = document.getElementById('page-dropdown')
+  if (!dropdown) return
+
+  if (pages.length === 0) {
+    dropdown.innerHTML = '<p class="px-3 py-2 text-xs text-slate-400">ページはまだありません</p>'
+    return
+  }
+  dropdown.innerHTML = pages.map(page => {
+    const title = new DOMParser().parseFromString(files[page], 'text/html').title
+    const active = page === state.currentPage
+    return \`
+      <button onclick="selectPage('\${escapeHtml(page)}')" class="w-full text-left px-3 py-2 hover:bg-slate-50 \${active ? 'bg-purple-50' : ''}">
+        <p class="text-sm truncate \${active ? 'text-purple-600 font-medium' : 'text-slate-700'}">\${escapeHtml(title || page)}</p>
+        <p class="text-xs font-mono text-slate-400">\${escapeHtml(page)}</p>
+      </button>
+    \`
+  }).join('')
 }
 
 // フルスクリーン
@@ -997,7 +9988,7 @@ window.refreshPreview = function() {
   const iframe = document.getElementById('preview-iframe')
   if (iframe && state.generatedCode) {
     iframe.srcdoc = ''
-    setTimeout(() => { iframe.srcdoc = state.generatedCode }, 100)
+    setTimeout(() => { iframe.srcdoc = buildPreviewDocument(currentFiles(), state.currentPage) }, 100)
   }
 }
 
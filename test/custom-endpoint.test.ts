@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { json, request, stubOpenAI } from './helpers'
+
+function generate(body: Record<string, unknown>, env: object = {}) {
+  return request('/api/generate', 'POST', { prompt: 'カフェのサイト', apiKey: 'sk-test', ...body }, env)
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('カスタムエンドポイント', () => {
+  const custom = { aiProvider: 'custom', baseUrl: 'https://llm.example.com/v1', model: 'local-model' }
+
+  it('許可されていないホストには接続しない', async () => {
+    const { fetchMock } = stubOpenAI(['<!DOCTYPE html><html></html>'])
+    for (const env of [{}, { CUSTOM_ENDPOINT_ALLOWED_HOSTS: 'other.example.com' }]) {
+      const response = await generate(custom, env)
+      expect(response.status).toBe(400)
+      expect((await json(response)).error).toContain('llm.example.com')
+    }
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('許可されたホストにはユーザーのキーだけを送る', async () => {
+    const { fetchMock } = stubOpenAI(['<!DOCTYPE html><html></html>'])
+    const env = { CUSTOM_ENDPOINT_ALLOWED_HOSTS: 'llm.example.com', OPENAI_API_KEY: 'sk-server' }
+
+    const response = await generate({ ...custom, apiKey: undefined }, env)
+    expect(response.status).toBe(200)
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(String(url)).toBe('https://llm.example.com/v1/chat/completions')
+    expect(JSON.stringify(init?.headers ?? {})).not.toContain('sk-server')
+  })
+})
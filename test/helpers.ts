@@ -0,0 +1,87 @@
+/**
+ * テスト用のヘルパー（KVの代わりとプロバイダーのレスポンス）
+ */
+
+import { vi } from 'vitest'
+import app from '../src/index'
+
+type StoredValue = {
+  value: string
+  metadata: unknown
+}
+
+/**
+ * メモリ上で動くKV（テストで使う操作だけ）
+ */
+export function createKV(): KVNamespace & { store: Map<string, StoredValue> } {
+  const store = new Map<string, StoredValue>()
+  const read = (key: string, type?: unknown) => {
+    const entry = store.get(key)
+    if (!entry) return null
+    return type === 'json' || (typeof type === 'object' && (type as { type?: string })?.type === 'json')
+      ? JSON.parse(entry.value)
+      : entry.value
+  }
+
+  const kv = {
+    store,
+    async get(key: string, type?: unknown) {
+      return read(key, type)
+    },
+    async getWithMetadata(key: string, type?: unknown) {
+      return { value: read(key, type), metadata: store.get(key)?.metadata ?? null, cacheStatus: null }
+    },
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+      store.set(key, { value: String(value), metadata: options?.metadata ?? null })
+    },
+    async delete(key: string) {
+      store.delete(key)
+    },
+    async list(options?: { prefix?: string }) {
+      const keys = [...store.entries()]
+        .filter(([name]) => name.startsWith(options?.prefix ?? ''))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, entry]) => ({ name, metadata: entry.metadata ?? undefined }))
+      return { keys, list_complete: true, cacheStatus: null }
+    }
+  }
+  return kv as unknown as KVNamespace & { store: Map<string, StoredValue> }
+}
+
+/**
+ * JSONを送るリクエスト
+ */
+export function request(path: string, method: string, body: unknown, env: object = {}, headers: Record<string, string> = {}) {
+  return app.request(`http://localhost${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  }, env)
+}
+
+/**
+ * OpenAIのChat Completions APIのレスポンス（repliesを順に返すか、最後のメッセージから返答を作り、送られたリクエストを記録する）
+ */
+export function stubOpenAI(replies: string[] | ((prompt: string) => string)) {
+  const requests: { url: string; body: any }[] = []
+  const fetchMock = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), body: JSON.parse(String(init?.body)) })
+    const body = requests[requests.length - 1].body
+    const content = typeof replies === 'function'
+      ? replies(String(body.messages.at(-1).content))
+      : replies[Math.min(requests.length - 1, replies.length - 1)]
+    return new Response(JSON.stringify({
+      choices: [{ message: { content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 20 }
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return { requests, fetchMock }
+}
+
+/**
+ * レスポンスのJSON（テストでは形を決め打ちで読む）
+ */
+export async function json(response: Response): Promise<any> {
+  return response.json()
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { json, request, stubOpenAI } from './helpers'
+
+const BASE = [
+  '<!DOCTYPE html>',
+  '<html lang="ja">',
+  '<body>',
+  '  <h1>Hello</h1>',
+  '  <p>one</p>',
+  '  <p>two</p>',
+  '  <footer>f</footer>',
+  '</body>',
+  '</html>'
+].join('\n')
+
+const FULL = '<!DOCTYPE html><html lang="ja"><body><h1>full</h1></body></html>'
+
+function edit(path: string, search: string, replace: string): string {
+  return `<<<EDIT: ${path}>>>\n<<<SEARCH>>>\n${search}\n<<<REPLACE>>>\n${replace}\n<<<END EDIT>>>`
+}
+
+function generate(body: Record<string, unknown> = {}) {
+  return request('/api/generate', 'POST', {
+    prompt: '見出しを変えて',
+    aiProvider: 'openai',
+    apiKey: 'sk-test',
+    existingCode: BASE,
+    ...body
+  })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('変更箇所のみの編集', () => {
+  it('SEARCH/REPLACEを既存のファイルに適用し、変更した行の範囲を返す', async () => {
+    const { requests } = stubOpenAI([
+      edit('index.html', '  <h1>Hello</h1>', '  <h1>Hi</h1>\n  <h2>Sub</h2>') + '\n' +
+      edit('index.html', '<footer>f</footer>', '<footer>g</footer>') + '\n' +
+      '<<<FILE: about.html>>>\n<!DOCTYPE html><html><body>about</body></html>\n<<<END FILE>>>'
+    ])
+    const data = await json(await generate())
+
+    expect(requests).toHaveLength(1)
+    expect(data.mode).toBe('patch')
+    expect(data.files['index.html']).toContain('  <h1>Hi</h1>\n  <h2>Sub</h2>\n  <p>one</p>')
+    expect(data.files['index.html']).toContain('<footer>g</footer>')
+    expect(data.files['about.html']).toContain('about')
+    expect(data.operations).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'modified', path: 'index.html' }),
+      expect.objectContaining({ type: 'created', path: 'about.html' })
+    ]))
+  })
+
+  it('空のREPLACEでその部分を削除する', async () => {
+    stubOpenAI([edit('index.html', '  <p>two</p>', '')])
+    const data = await json(await generate())
+    expect(data.mode).toBe('patch')
+    expect(data.files['index.html']).not.toContain('two')
+    expect(data.files['index.html']).toContain('<p>one</p>\n  <footer>f</footer>')
+  })
+
+  it('SEARCHが複数箇所に一致するときは全体を作り直す', async () => {
+    const { requests } = stubOpenAI([edit('index.html', '<p>', '<p class="x">'), FULL])
+    const data = await json(await generate())
+    expect(requests).toHaveLength(2)
+    expect(data.mode).toBe('full')
+    expect(data.fallbackReason).toBeTruthy()
+    expect(data.code).toBe(FULL)
+  })
+
+  it('SEARCHが見つからない・形式が崩れているときも全体を作り直す', async () => {
+    for (const reply of [
+      edit('index.html', '<p>nope</p>', '<p>x</p>'),
+      '<<<EDIT: index.html>>>\n<<<SEARCH>>>\n<p>one</p>\n<<<END EDIT>>>'
+    ]) {
+      stubOpenAI([reply, FULL])
+      const data = await json(await generate())
+      expect(data.mode).toBe('full')
+      expect(data.fallbackReason).toBeTruthy()
+      expect(data.code).toBe(FULL)
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it("editModeが'full'なら差分を求めずに作り直す", async () => {
+    const { requests } = stubOpenAI([FULL])
+    const data = await json(await generate({ editMode: 'full' }))
+    expect(requests).toHaveLength(1)
+    expect(data.mode).toBe('full')
+    expect(data.fallbackReason).toBeFalsy()
+  })
+
+  it('不正なeditModeを弾く', async () => {
+    const response = await generate({ editMode: 'diff' })
+    expect(response.status).toBe(400)
+    expect((await json(response)).code).toBe('INVALID_INPUT')
+  })
+})
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { json, request, stubOpenAI } from './helpers'
+
+/**
+ * deflateで圧縮したバイト列（FlateDecodeのストリーム）
+ */
+async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * テキストを描画するだけのPDF（1つ目のページは非圧縮、2つ目はFlateDecode）
+ */
+async function buildPdf(plain: string, compressed: string): Promise<string> {
+  const packed = await deflate(compressed)
+  const latin1 = String.fromCharCode(...packed)
+  const pdf = [
+    '%PDF-1.4',
+    '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj',
+    '2 0 obj\n<< /Type /Pages /Kids [] /Count 0 >>\nendobj',
+    `3 0 obj\n<< /Length ${plain.length} >>\nstream\n${plain}\nendstream\nendobj`,
+    `4 0 obj\n<< /Length ${packed.length} /Filter /FlateDecode >>\nstream\n${latin1}\nendstream\nendobj`,
+    'trailer\n<< /Root 1 0 R >>\n%%EOF'
+  ].join('\n')
+  return 'data:application/pdf;base64,' + btoa(pdf)
+}
+
+// PDFを直接読めないプロバイダー（抽出したテキストがプロンプトに入る）
+const customProvider = {
+  prompt: 'メニューのページ',
+  aiProvider: 'custom',
+  apiKey: 'sk-test',
+  baseUrl: 'https://llm.example.com/v1',
+  model: 'local-model'
+}
+const env = { CUSTOM_ENDPOINT_ALLOWED_HOSTS: 'llm.example.com' }
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('参考PDF', () => {
+  it('非圧縮とFlateDecodeのストリームからテキストを抽出してプロンプトに入れる', async () => {
+    const { requests } = stubOpenAI(['<!DOCTYPE html><html><body></body></html>'])
+    const data = await buildPdf('BT /F1 12 Tf (Cafe Hello) Tj ET', 'BT /F1 12 Tf [(Menu) -300 (Coffee)] TJ ET')
+    const response = await request('/api/generate', 'POST', { ...customProvider, documents: [{ name: 'menu.pdf', data }] }, env)
+    expect(response.status).toBe(200)
+
+    const prompt = JSON.stringify(requests[0].body.messages)
+    expect(prompt).toContain('--- menu.pdf ---')
+    expect(prompt).toContain('Cafe Hello')
+    expect(prompt).toContain('Menu')
+    expect(prompt).toContain('Coffee')
+  })
+
+  it('base64として読めないデータはデコードせずにINVALID_INPUTで弾く', async () => {
+    for (const data of ['data:application/pdf;base64,%%%%', 'data:application/pdf;base64,JVBERi0', 'data:application/pdf;base64,JV=BERi0']) {
+      const response = await request('/api/generate', 'POST', { ...customProvider, documents: [{ name: 'bad.pdf', data }] }, env)
+      expect(response.status).toBe(400)
+      expect(await json(response)).toMatchObject({ code: 'INVALID_INPUT', error: 'PDFデータの形式が不正です: bad.pdf' })
+    }
+  })
+
+  it('PDF以外のdata URLと大きすぎるPDFを弾く', async () => {
+    const notPdf = await request('/api/generate', 'POST', {
+      ...customProvider,
+      documents: [{ name: 'a.png', data: 'data:image/png;base64,iVBORw0KGgo=' }]
+    }, env)
+    expect(notPdf.status).toBe(400)
+
+    // 10MBを超える長さのbase64（中身はデコードしない）
+    const tooLarge = await request('/api/generate', 'POST', {
+      ...customProvider,
+      documents: [{ name: 'big.pdf', data: 'data:application/pdf;base64,' + 'A'.repeat(14 * 1024 * 1024) }]
+    }, env)
+    expect(tooLarge.status).toBe(400)
+    expect((await json(tooLarge)).error).toContain('PDFサイズが大きすぎます: big.pdf')
+  })
+
+  it('3件以上のPDFは受け付けない', async () => {
+    const data = await buildPdf('BT (a) Tj ET', 'BT (b) Tj ET')
+    const documents = [1, 2, 3].map(i => ({ name: `${i}.pdf`, data }))
+    const response = await request('/api/generate', 'POST', { ...customProvider, documents }, env)
+    expect(response.status).toBe(400)
+    expect((await json(response)).error).toBe('参考PDFは最大2件までです')
+  })
+})
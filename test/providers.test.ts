@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { json, request } from './helpers'
+
+function generate(body: Record<string, unknown>, env: object = {}) {
+  return request('/api/generate', 'POST', { prompt: 'カフェのサイト', apiKey: 'sk-test', ...body }, env)
+}
+
+/**
+ * 決まったJSONを返すプロバイダーのAPI
+ */
+function stubResponse(data: unknown) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(data), { status: 200 })))
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('プロバイダーのレスポンス', () => {
+  it.each([
+    ['openai', { choices: [] }],
+    ['openai', { error: null }],
+    ['gemini', { candidates: [] }],
+    ['gemini', {}],
+    ['claude', { content: 'text' }],
+    ['claude', null]
+  ])('%s から想定外の形のレスポンスが返ればINVALID_OUTPUTにする', async (aiProvider, data) => {
+    stubResponse(data)
+    const response = await generate({ aiProvider })
+    expect(response.status).toBe(502)
+    expect((await json(response)).code).toBe('INVALID_OUTPUT')
+  })
+})
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import app from '../src/index'
+import { createKV, json, request, stubOpenAI } from './helpers'
+
+function createEnv(limits: object) {
+  return { KV: createKV(), OPENAI_API_KEY: 'sk-server', RATE_LIMITS: JSON.stringify(limits) }
+}
+
+function generate(env: object, body: Record<string, unknown> = {}, ip = '192.0.2.1') {
+  return request('/api/generate', 'POST', { prompt: 'カフェのサイト', aiProvider: 'openai', ...body }, env, { 'CF-Connecting-IP': ip })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('生成APIの利用制限', () => {
+  it('1分あたりの回数を超えたら429とRetry-Afterを返す', async () => {
+    stubOpenAI(['<!DOCTYPE html><html><body></body></html>'])
+    const env = createEnv({ client: { requestsPerMinute: 2 } })
+
+    expect((await generate(env)).status).toBe(200)
+    expect((await generate(env)).status).toBe(200)
+    const blocked = await generate(env)
+    expect(blocked.status).toBe(429)
+    expect(Number(blocked.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect(await json(blocked)).toMatchObject({ success: false, code: 'RATE_LIMITED' })
+
+    // 接続元ごとに数える
+    expect((await generate(env, {}, '192.0.2.2')).status).toBe(200)
+  })
+
+  it('プロジェクトごとの1日の生成回数を数える', async () => {
+    stubOpenAI(['<!DOCTYPE html><html><body></body></html>'])
+    const env = createEnv({ project: { generationsPerDay: 1 } })
+    const { project } = await json(await request('/api/projects', 'POST', { name: 'カフェ' }, env))
+
+    expect((await generate(env, { projectId: project.id })).status).toBe(200)
+    const blocked = await generate(env, { projectId: project.id }, '192.0.2.3')
+    expect(blocked.status).toBe(429)
+    expect((await json(blocked)).quota.project.remaining.generationsPerDay).toBe(0)
+  })
+
+  it('存在しないプロジェクトの枠は使えない', async () => {
+    const env = createEnv({})
+    const response = await generate(env, { projectId: 'missing' })
+    expect(response.status).toBe(404)
+  })
+
+  it('APIキーがなく生成できないリクエストは利用枠を消費しない', async () => {
+    const env = { ...createEnv({ client: { requestsPerMinute: 1 } }), OPENAI_API_KEY: undefined }
+    for (let i = 0; i < 3; i++) {
+      expect((await generate(env)).status).toBe(401)
+    }
+    expect([...env.KV.store.keys()].filter(key => key.startsWith('quota:'))).toEqual([])
+  })
+
+  it('現在の利用量を/api/quotaで返す', async () => {
+    stubOpenAI(['<!DOCTYPE html><html><body></body></html>'])
+    const env = createEnv({ client: { generationsPerDay: 5 } })
+    await generate(env)
+
+    const response = await app.request('http://localhost/api/quota', { headers: { 'CF-Connecting-IP': '192.0.2.1' } }, env)
+    const { quota } = await json(response)
+    expect(quota.client.limits.generationsPerDay).toBe(5)
+    expect(quota.client.remaining.generationsPerDay).toBe(4)
+    // 生成に使ったトークン（入力10 + 出力20）を1日の予算から引く
+    expect(quota.client.limits.tokensPerDay - quota.client.remaining.tokensPerDay).toBe(30)
+  })
+})
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import app from '../src/index'
+import { createKV, json, request, stubOpenAI } from './helpers'
+
+const INDEX = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8">
+  <title>Old &amp; busted</title>
+  <meta content="old desc" name="description">
+</head>
+<body><h1>Cafe <span>Sole</span></h1><p>Fresh coffee &amp; bread.</p><img src="https://img.example.com/a.jpg" alt="Shop"></body>
+</html>`
+const ABOUT = '<!DOCTYPE html><html><head><meta name="robots" content="noindex"></head><body>about</body></html>'
+const CODE = `<<<FILE: index.html>>>\n${INDEX}\n<<<END FILE>>>\n\n<<<FILE: about.html>>>\n${ABOUT}\n<<<END FILE>>>`
+
+const METADATA = {
+  title: 'New <Title>',
+  description: '',
+  canonical: 'https://example.com/',
+  ogTitle: 'OG "title"',
+  ogDescription: 'og desc',
+  ogImage: 'https://img.example.com/a.jpg',
+  ogType: 'website',
+  twitterCard: 'summary_large_image',
+  structuredData: '{"@type":"CafeOrCoffeeShop","name":"</script>"}'
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('ページのメタデータ', () => {
+  it('各ページのタイトルと説明文を読み取る', async () => {
+    const { pages } = await json(await request('/api/seo', 'POST', { code: CODE }))
+    expect(pages[0]).toMatchObject({ path: 'index.html', metadata: { title: 'Old & busted', description: 'old desc' } })
+  })
+
+  it('書き込んだメタデータをそのまま読み戻せる', async () => {
+    const applied = await json(await request('/api/seo/apply', 'POST', { code: CODE, path: 'index.html', metadata: METADATA }))
+    expect(applied.success).toBe(true)
+    expect(applied.code).not.toContain('old desc')
+    // JSON-LDの中の</script>はエスケープする
+    expect(applied.code).not.toContain('"</script>"')
+
+    const { pages } = await json(await request('/api/seo', 'POST', { code: applied.code }))
+    expect(pages[0].metadata).toMatchObject({ ...METADATA, structuredData: expect.stringContaining('CafeOrCoffeeShop') })
+  })
+
+  it('不正なページ・URL・構造化データを弾く', async () => {
+    const missing = await request('/api/seo/apply', 'POST', { code: CODE, path: 'missing.html', metadata: {} })
+    expect(missing.status).toBe(404)
+
+    for (const body of [
+      { path: 'index.html', metadata: { ogImage: 'javascript:alert(1)' } },
+      { path: 'index.html', metadata: { structuredData: '{broken' } },
+      { path: 'index.html', metadata: { ogType: 'video' } },
+      { path: 'index.html', metadata: { title: 1 } },
+      { path: 'index.html', metadata: 'title' }
+    ]) {
+      const response = await request('/api/seo/apply', 'POST', { code: CODE, ...body })
+      expect(response.status).toBe(400)
+      expect((await json(response)).code).toBe('INVALID_INPUT')
+    }
+  })
+})
+
+describe('メタデータの提案', () => {
+  const suggest = (body: Record<string, unknown> = {}, env: object = {}) =>
+    request('/api/seo/suggest', 'POST', { code: CODE, path: 'index.html', aiProvider: 'openai', apiKey: 'sk-test', ...body }, env)
+
+  it('ページの内容をAIに渡し、返ってきたJSONをメタデータにする', async () => {
+    const { requests } = stubOpenAI(['```json\n{"title":"Cafe Sole","description":"焼きたてのパン","ogType":"website","twitterCard":"summary"}\n```'])
+    const data = await json(await suggest())
+
+    expect(data.metadata).toMatchObject({ title: 'Cafe Sole', description: '焼きたてのパン', ogType: 'website' })
+    const prompt = JSON.stringify(requests[0].body.messages)
+    expect(prompt).toContain('Cafe Sole')
+    expect(prompt).toContain('https://img.example.com/a.jpg（Shop）')
+  })
+
+  it('長い見出しや本文はプロンプトの文字数制限に当てはめずに切り詰める', async () => {
+    const { requests } = stubOpenAI(['{"title":"t"}'])
+    const headings = Array.from({ length: 30 }, (_, i) => `<h2>${'見出し'.repeat(100)}${i}</h2><p>${'本文'.repeat(2000)}</p>`).join('')
+    const code = `<!DOCTYPE html><html><head><title>${'t'.repeat(1000)}</title></head><body>${headings}</body></html>`
+
+    const response = await suggest({ code })
+    expect(response.status).toBe(200)
+    const prompt: string = requests[0].body.messages.at(-1).content
+    expect(prompt.length).toBeLessThan(10000)
+    expect(prompt).not.toContain('t'.repeat(101))
+  })
+
+  it('JSONでない出力はINVALID_OUTPUTにする', async () => {
+    stubOpenAI(['すみません、提案できません'])
+    const response = await suggest()
+    expect(response.status).toBe(502)
+    expect((await json(response)).code).toBe('INVALID_OUTPUT')
+  })
+
+  it('APIキーがないときは利用枠を消費しない', async () => {
+    const env = { KV: createKV(), RATE_LIMITS: JSON.stringify({ client: { requestsPerMinute: 1 } }) }
+    for (let i = 0; i < 2; i++) {
+      expect((await suggest({ apiKey: undefined }, env)).status).toBe(401)
+    }
+    expect([...env.KV.store.keys()].filter(key => key.startsWith('quota:'))).toEqual([])
+  })
+})
+
+describe('サイトマップとrobots.txt', () => {
+  async function publish(env: { KV: KVNamespace }, slug: string, listed?: boolean) {
+    const { project } = await json(await request('/api/projects', 'POST', { name: slug, code: CODE }, env))
+    return request(`/api/projects/${project.id}/publish`, 'POST', { slug, listed }, env)
+  }
+
+  it('サイトマップにはnoindexでないページだけを載せる', async () => {
+    const env = { KV: createKV() }
+    await publish(env, 'cafe-sole')
+    const response = await app.request('http://localhost/p/cafe-sole/sitemap.xml', {}, env)
+    const xml = await response.text()
+    expect(response.headers.get('Content-Type')).toContain('application/xml')
+    expect(xml).toContain('<loc>http://localhost/p/cafe-sole/</loc>')
+    expect(xml).not.toContain('about.html')
+  })
+
+  it('robots.txtはサイトマップ一覧を示し、一覧には載せると指定したサイトだけを含める', async () => {
+    const env = { KV: createKV() }
+    expect((await publish(env, 'listed-site', true)).status).toBe(200)
+    expect((await publish(env, 'private-site')).status).toBe(200)
+
+    const robots = await (await app.request('http://localhost/robots.txt', {}, env)).text()
+    expect(robots).toContain('Sitemap: http://localhost/sitemap.xml')
+    expect(robots).toContain('Disallow: /api/')
+
+    const index = await (await app.request('http://localhost/sitemap.xml', {}, env)).text()
+    expect(index).toContain('<sitemapindex')
+    expect(index).toContain('http://localhost/p/listed-site/sitemap.xml')
+    expect(index).not.toContain('private-site')
+  })
+
+  it('listedは真偽値だけを受け付ける', async () => {
+    const env = { KV: createKV() }
+    const { project } = await json(await request('/api/projects', 'POST', { name: 'site', code: CODE }, env))
+    const response = await request(`/api/projects/${project.id}/publish`, 'POST', { listed: 'yes' }, env)
+    expect(response.status).toBe(400)
+  })
+})
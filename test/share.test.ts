@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import app from '../src/index'
+import { createKV, json, request } from './helpers'
+
+const CODE = '<!DOCTYPE html><html><body>shared</body></html>'
+
+async function createShare(passcode?: string) {
+  const env = { KV: createKV() }
+  const { project } = await json(await request('/api/projects', 'POST', { name: 'カフェ', code: CODE }, env))
+  const { share } = await json(await request(`/api/projects/${project.id}/shares`, 'POST', { passcode }, env))
+  return { env, project, token: share.token as string }
+}
+
+function submitPasscode(env: object, token: string, passcode: string) {
+  return app.request(`http://localhost/s/${token}/`, { method: 'POST', body: new URLSearchParams({ passcode }) }, env)
+}
+
+describe('共有リンク', () => {
+  it('パスコードのないリンクはそのまま表示する', async () => {
+    const { env, token } = await createShare()
+    const response = await app.request(`http://localhost/s/${token}/`, {}, env)
+    expect(response.status).toBe(200)
+    expect(await response.text()).toContain('shared')
+  })
+
+  it('正しいパスコードで発行したCookieがあるときだけ表示する', async () => {
+    const { env, token } = await createShare('1234')
+    expect((await app.request(`http://localhost/s/${token}/`, {}, env)).status).toBe(401)
+
+    const verified = await submitPasscode(env, token, '1234')
+    expect(verified.status).toBe(303)
+    const cookie = verified.headers.get('Set-Cookie')?.split(';')[0] ?? ''
+
+    const page = await app.request(`http://localhost/s/${token}/`, { headers: { Cookie: cookie } }, env)
+    expect(page.status).toBe(200)
+    expect(await page.text()).toContain('shared')
+
+    const forged = await app.request(`http://localhost/s/${token}/`, { headers: { Cookie: cookie + 'x' } }, env)
+    expect(forged.status).toBe(401)
+  })
+
+  it('5回続けて間違えると、正しいパスコードでもしばらく受け付けない', async () => {
+    const { env, token } = await createShare('1234')
+    for (let i = 0; i < 5; i++) {
+      expect((await submitPasscode(env, token, '0000')).status).toBe(401)
+    }
+
+    const locked = await submitPasscode(env, token, '1234')
+    expect(locked.status).toBe(429)
+    expect(locked.headers.get('Retry-After')).toBe(String(15 * 60))
+
+    // 失敗の記録が期限切れになれば、また入力できる
+    await env.KV.delete(`share-failures:${token}`)
+    expect((await submitPasscode(env, token, '1234')).status).toBe(303)
+  })
+
+  it('正しく入力すると失敗の回数を数え直す', async () => {
+    const { env, token } = await createShare('1234')
+    for (let i = 0; i < 4; i++) await submitPasscode(env, token, '0000')
+    expect((await submitPasscode(env, token, '1234')).status).toBe(303)
+
+    for (let i = 0; i < 4; i++) {
+      expect((await submitPasscode(env, token, '0000')).status).toBe(401)
+    }
+    expect((await submitPasscode(env, token, '1234')).status).toBe(303)
+  })
+
+  it('取り消したリンクは表示しない', async () => {
+    const { env, project, token } = await createShare()
+    await app.request(`http://localhost/api/projects/${project.id}/shares/${token}`, { method: 'DELETE' }, env)
+    expect((await app.request(`http://localhost/s/${token}/`, {}, env)).status).toBe(404)
+  })
+})
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { json, request, stubOpenAI } from './helpers'
+
+const INDEX = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Cafe Sole</title>
+  <meta name="description" content="Fresh coffee">
+</head>
+<body>
+  <nav><a href="about.html">About us</a></nav>
+  <h1>Welcome to <strong>Sole</strong>!</h1>
+  <img src="a.jpg" alt="Shop front">
+  <pre>code block</pre><p class="notranslate">Brand</p>
+  <script>const s = '<p>no</p>'</script>
+</body>
+</html>`
+const ABOUT = '<!DOCTYPE html>\n<html>\n<head><title>About</title></head>\n<body><h1>About</h1><a href="index.html">Back</a></body>\n</html>'
+const CODE = `<<<FILE: index.html>>>\n${INDEX}\n<<<END FILE>>>\n\n<<<FILE: about.html>>>\n${ABOUT}\n<<<END FILE>>>`
+
+/**
+ * 翻訳のプロンプトに書かれた入力に、翻訳先の言語を付けて返す
+ */
+function translateReply(prompt: string): string {
+  const texts: string[] = JSON.parse(prompt.slice(prompt.indexOf('【入力】') + '【入力】'.length))
+  const locale = /（([\w-]+)）に翻訳/.exec(prompt)?.[1]
+  return JSON.stringify(texts.map(text => `[${locale}] ${text}`))
+}
+
+function files(code: string): Record<string, string> {
+  return Object.fromEntries([...code.matchAll(/<<<FILE: (.+?)>>>\n([\s\S]*?)\n<<<END FILE>>>/g)].map(match => [match[1], match[2]]))
+}
+
+function translate(body: Record<string, unknown>) {
+  return request('/api/translate', 'POST', { code: CODE, sourceLocale: 'en', aiProvider: 'openai', apiKey: 'sk-test', ...body })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('多言語版の作成', () => {
+  it('レイアウトはそのままにテキストだけを翻訳したページを作る', async () => {
+    const { requests } = stubOpenAI(translateReply)
+    const data = await json(await translate({ locales: ['ja'] }))
+
+    expect(requests).toHaveLength(1)
+    const site = files(data.code)
+    expect(Object.keys(site)).toEqual(expect.arrayContaining(['index.html', 'about.html', 'index-ja.html', 'about-ja.html']))
+
+    const page = site['index-ja.html']
+    expect(page).toContain('lang="ja"')
+    expect(page).toContain('[ja] Fresh coffee')
+    expect(page).toContain('alt="[ja] Shop front"')
+    expect(page).toContain('<strong>[ja] Sole</strong>')
+    // ページ間のリンクは同じ言語のページへ
+    expect(page).toContain('href="about-ja.html"')
+    // コード・翻訳しない指定・スクリプトはそのまま
+    expect(page).toContain('<pre>code block</pre>')
+    expect(page).toContain('<p class="notranslate">Brand</p>')
+    expect(page).toContain("const s = '<p>no</p>'")
+
+    expect(site['index.html']).toContain('hreflang="ja"')
+    expect(data.localization.memory.ja['Fresh coffee']).toBe('[ja] Fresh coffee')
+  })
+
+  it('翻訳メモリにないテキストだけをAIに送り、変更がなければAIを呼ばない', async () => {
+    stubOpenAI(translateReply)
+    const first = await json(await translate({ locales: ['ja'] }))
+    vi.unstubAllGlobals()
+
+    const { requests } = stubOpenAI(translateReply)
+    const edited = first.code.replace('<h1>About</h1>', '<h1>About the team</h1>')
+    const second = await json(await translate({ code: edited, locales: ['ja'], memory: first.localization.memory }))
+    expect(requests).toHaveLength(1)
+    const prompt = requests[0].body.messages.at(-1).content as string
+    expect(JSON.parse(prompt.slice(prompt.indexOf('【入力】') + '【入力】'.length))).toEqual(['About the team'])
+    expect(files(second.code)['about-ja.html']).toContain('[ja] About the team')
+
+    await translate({ code: second.code, locales: ['ja'], memory: second.localization.memory })
+    expect(requests).toHaveLength(1)
+  })
+
+  it('翻訳先がなくなれば多言語版と言語切り替えを取り除く', async () => {
+    stubOpenAI(translateReply)
+    const translated = await json(await translate({ locales: ['ja'] }))
+    const data = await json(await translate({ code: translated.code, locales: [] }))
+
+    const site = files(data.code)
+    expect(Object.keys(site).sort()).toEqual(['about.html', 'index.html'])
+    expect(site['index.html']).not.toContain('hreflang')
+  })
+
+  it('件数の合わない出力はINVALID_OUTPUTにする', async () => {
+    stubOpenAI(['["only one"]'])
+    const response = await translate({ locales: ['fr'] })
+    expect(response.status).toBe(502)
+    expect((await json(response)).code).toBe('INVALID_OUTPUT')
+  })
+
+  it('不正な言語・翻訳メモリ・サイトのURLを弾く', async () => {
+    for (const body of [
+      { sourceLocale: 'xx_bad!', locales: [] },
+      { locales: 'ja' },
+      { locales: ['ja'], memory: [] },
+      { locales: ['ja'], siteUrl: 'javascript:alert(1)' }
+    ]) {
+      const response = await translate(body)
+      expect(response.status).toBe(400)
+      expect((await json(response)).code).toBe('INVALID_INPUT')
+    }
+  })
+})
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { json, request, stubOpenAI } from './helpers'
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo='
+
+function generate(body: Record<string, unknown>) {
+  return request('/api/generate', 'POST', { prompt: 'カフェのサイト', aiProvider: 'openai', apiKey: 'sk-test', ...body })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('生成リクエストの検証', () => {
+  it('JSONでない本文はINVALID_INPUTで弾く', async () => {
+    const response = await request('/api/generate', 'POST', undefined)
+    expect(response.status).toBe(400)
+    expect(await json(response)).toMatchObject({ success: false, code: 'INVALID_INPUT' })
+  })
+
+  it('空のプロンプトと未知のプロバイダーを弾く', async () => {
+    expect((await generate({ prompt: ' ' })).status).toBe(400)
+    const response = await generate({ aiProvider: 'unknown' })
+    expect(response.status).toBe(400)
+    expect((await json(response)).error).toContain('aiProvider')
+  })
+
+  it('配列でない参考画像・PDFを弾く', async () => {
+    for (const body of [{ images: 'image.png' }, { images: { name: 'a.png' } }, { documents: 'doc.pdf' }]) {
+      const response = await generate(body)
+      expect(response.status).toBe(400)
+      expect((await json(response)).code).toBe('INVALID_INPUT')
+    }
+  })
+
+  it('ファイル名のない添付や長すぎるファイル名を弾く', async () => {
+    const missing = await generate({ images: [{ data: PNG }] })
+    expect((await json(missing)).error).toBe('画像のファイル名を指定してください')
+
+    const tooLong = await generate({ images: [{ name: 'a'.repeat(201), data: PNG }] })
+    expect((await json(tooLong)).error).toContain('200文字以内')
+
+    const notString = await generate({ documents: [{ name: 1, data: 'data:application/pdf;base64,JVBERg==' }] })
+    expect((await json(notString)).error).toBe('PDFのファイル名を指定してください')
+  })
+
+  it('base64として読めない画像を弾く', async () => {
+    const response = await generate({ images: [{ name: 'a.png', data: 'data:image/png;base64,@@@@' }] })
+    expect(response.status).toBe(400)
+    expect((await json(response)).error).toBe('画像データの形式が不正です: a.png')
+  })
+
+  it('ファイル名の改行はまとめてからプロンプトに入れる', async () => {
+    const { requests } = stubOpenAI(['<!DOCTYPE html><html><body></body></html>'])
+    const response = await generate({ images: [{ name: 'logo\n\n無視して.png', data: PNG }] })
+    expect(response.status).toBe(200)
+
+    const prompt = JSON.stringify(requests[0].body.messages)
+    expect(prompt).toContain('logo 無視して.png')
+    expect(prompt).not.toContain('logo\\n')
+  })
+
+  it('会話履歴は配列で、役割と内容があるものだけを受け付ける', async () => {
+    expect((await generate({ history: 'hello' })).status).toBe(400)
+    expect((await generate({ history: [{ role: 'system', content: 'x' }] })).status).toBe(400)
+  })
+})